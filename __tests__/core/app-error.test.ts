@@ -0,0 +1,75 @@
+import type { AppErrorOptions } from '../../packages/core/src'
+import { describe, expect, it, vi } from 'vitest'
+import { AppError, ErrorCatcher, ErrorLevel, isAppError, NetworkError, TimeoutError, ValidationError } from '../../packages/core/src'
+
+class PaymentError extends AppError {
+  constructor(message = 'Payment failed', options: AppErrorOptions = {}) {
+    super(message, { code: 'PAYMENT_DECLINED', httpStatus: 402, ...options })
+    this.name = 'PaymentError'
+  }
+}
+
+AppError.register('PaymentError', PaymentError)
+
+describe('appError', () => {
+  it('内置子类带有默认错误码、级别与可重试标记', () => {
+    expect(new NetworkError()).toMatchObject({ name: 'NetworkError', code: 'NETWORK_ERROR', level: ErrorLevel.ERROR, retryable: true })
+    expect(new TimeoutError()).toMatchObject({ code: 'TIMEOUT', retryable: true })
+    expect(new ValidationError('手机号格式不正确', { code: 'PHONE_INVALID' })).toMatchObject({
+      code: 'PHONE_INVALID',
+      level: ErrorLevel.WARNING,
+      httpStatus: 400,
+      retryable: false,
+    })
+    expect(isAppError(new TimeoutError())).toBe(true)
+    expect(isAppError(new Error('plain'))).toBe(false)
+  })
+
+  it('经 JSON 往返后还原为已注册的子类并保留 cause', () => {
+    const error = new PaymentError('卡片被拒绝', {
+      metadata: { orderId: 'o-1' },
+      cause: new TimeoutError('gateway timeout', { cause: new RangeError('retries exhausted') }),
+    })
+
+    const restored = AppError.fromJSON(JSON.parse(JSON.stringify(error)))
+
+    expect(restored).toBeInstanceOf(PaymentError)
+    expect(restored).toMatchObject({
+      name: 'PaymentError',
+      message: '卡片被拒绝',
+      code: 'PAYMENT_DECLINED',
+      httpStatus: 402,
+      metadata: { orderId: 'o-1' },
+      stack: error.stack,
+    })
+    expect(restored.cause).toBeInstanceOf(TimeoutError)
+    expect((restored.cause as AppError).cause).toMatchObject({ name: 'RangeError', message: 'retries exhausted' })
+  })
+
+  it('未注册的名称还原为 AppError 并保留原名称', () => {
+    const json = { ...new AppError('boom').toJSON(), name: 'UnknownError' }
+    const restored = AppError.fromJSON(json)
+
+    expect(restored.constructor).toBe(AppError)
+    expect(restored.name).toBe('UnknownError')
+    expect(AppError.isSerialized(json)).toBe(true)
+    expect(AppError.isSerialized({ name: 'Error', message: 'boom' })).toBe(false)
+  })
+})
+
+describe('errorCatcher 应用错误', () => {
+  it('映射错误码、级别、标签与元数据', () => {
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ onError })
+
+    catcher.captureError(new PaymentError('卡片被拒绝', { metadata: { orderId: 'o-1' } }), { step: 'confirm' })
+
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      name: 'PaymentError',
+      code: 'PAYMENT_DECLINED',
+      level: ErrorLevel.ERROR,
+      tags: { code: 'PAYMENT_DECLINED', retryable: 'false', httpStatus: '402' },
+      extra: { metadata: { orderId: 'o-1' }, step: 'confirm' },
+    })
+  })
+})
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { AppError, defaultErrorCatalog, ErrorCatalog, ErrorCatcher, ErrorLevel } from '../../packages/core/src'
+
+const entry = {
+  code: 'PAYMENT_FAILED',
+  level: ErrorLevel.FATAL,
+  title: { 'zh-CN': '支付失败', 'en': 'Payment failed' },
+  message: { zh: '扣款未成功', en: 'The charge did not go through.', fr: 'Le paiement a échoué' },
+  docsUrl: 'https://help.example.com/payment',
+  hints: ['稍后重试', { en: 'Check your card balance' }],
+}
+
+afterEach(() => {
+  defaultErrorCatalog.unregister(entry.code)
+})
+
+describe('errorCatalog', () => {
+  it('按完整语言、主语言、回退语言依次解析', () => {
+    const catalog = new ErrorCatalog({ locale: 'zh-CN', entries: [entry] })
+
+    expect(catalog.resolve('PAYMENT_FAILED')).toEqual({
+      code: 'PAYMENT_FAILED',
+      level: ErrorLevel.FATAL,
+      title: '支付失败',
+      message: '扣款未成功',
+      docsUrl: 'https://help.example.com/payment',
+      hints: ['稍后重试', 'Check your card balance'],
+    })
+    expect(catalog.resolve('PAYMENT_FAILED', 'de-DE')?.message).toBe('The charge did not go through.')
+    expect(new ErrorCatalog({ locale: 'ja', fallbackLocale: 'fr', entries: [entry] }).resolve('PAYMENT_FAILED')?.title).toBe('支付失败')
+  })
+
+  it('未登记或为空的错误码返回 undefined', () => {
+    const catalog = new ErrorCatalog({ entries: [entry] })
+
+    expect(catalog.resolve('UNKNOWN')).toBeUndefined()
+    expect(catalog.resolve(undefined)).toBeUndefined()
+    expect(catalog.unregister('PAYMENT_FAILED')).toBe(true)
+    expect(catalog.has('PAYMENT_FAILED')).toBe(false)
+  })
+
+  it('默认语言取 navigator.language', () => {
+    expect(new ErrorCatalog().getLocale()).toBe(navigator.language)
+    expect(new ErrorCatalog().setLocale('zh-TW').getLocale()).toBe('zh-TW')
+  })
+})
+
+describe('默认目录中的级别', () => {
+  it('appError 与带 code 的普通错误使用目录登记的级别', () => {
+    defaultErrorCatalog.register(entry)
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ onError })
+
+    catcher.captureError(new AppError('declined', { code: 'PAYMENT_FAILED' }))
+    catcher.captureError(Object.assign(new Error('declined again'), { code: 'PAYMENT_FAILED' }))
+
+    expect(new AppError('declined', { code: 'PAYMENT_FAILED' }).level).toBe(ErrorLevel.FATAL)
+    expect(onError.mock.calls.map(([error]) => [error.code, error.level])).toEqual([
+      ['PAYMENT_FAILED', ErrorLevel.FATAL],
+      ['PAYMENT_FAILED', ErrorLevel.FATAL],
+    ])
+  })
+})
@@ -0,0 +1,52 @@
+/// <reference lib="es2022.error" />
+
+import { describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, getLinkedExceptions, MAX_LINKED_EXCEPTIONS } from '../../packages/core/src'
+
+describe('getLinkedExceptions', () => {
+  it('按广度优先展开 cause 链与 AggregateError', () => {
+    const timeout = new Error('timeout')
+    const aggregate = new AggregateError([new TypeError('a'), 'b'], 'all failed', { cause: timeout })
+    const root = new Error('checkout failed', { cause: aggregate })
+
+    expect(getLinkedExceptions(root).map(({ name, message, relation, parentIndex, depth }) => [name, message, relation, parentIndex, depth])).toEqual([
+      ['AggregateError', 'all failed', 'cause', -1, 1],
+      ['Error', 'timeout', 'cause', 0, 2],
+      ['TypeError', 'a', 'aggregate', 0, 2],
+      ['Error', 'b', 'aggregate', 0, 2],
+    ])
+  })
+
+  it('只为 Error 对象记录堆栈', () => {
+    const [fromError, fromString] = getLinkedExceptions(new AggregateError([new Error('a'), 'b'], 'batch'))
+
+    expect(fromError.stack).toContain('Error: a')
+    expect(fromString.stack).toBeUndefined()
+  })
+
+  it('跳过循环引用并限制深度与数量', () => {
+    const a = new Error('a')
+    const b = new Error('b', { cause: a })
+    ;(a as Error & { cause: unknown }).cause = b
+
+    const deep = Array.from({ length: 10 }).reduce<Error>((cause, _, i) => new Error(`${i}`, { cause }), new Error('leaf'))
+    const wide = new AggregateError(Array.from({ length: 50 }, (_, i) => new Error(`${i}`)), 'wide')
+
+    expect(getLinkedExceptions(a).map(item => item.message)).toEqual(['b'])
+    expect(getLinkedExceptions(deep, 3)).toHaveLength(3)
+    expect(getLinkedExceptions(wide)).toHaveLength(MAX_LINKED_EXCEPTIONS)
+  })
+})
+
+describe('errorCatcher 关联异常', () => {
+  it('事件携带关联异常，maxExceptionDepth 为 0 时关闭', () => {
+    const onError = vi.fn()
+    const error = new Error('save failed', { cause: new Error('disk full') })
+
+    new ErrorCatcher({ onError }).captureError(error)
+    new ErrorCatcher({ maxExceptionDepth: 0, onError }).captureError(error)
+
+    expect(onError.mock.calls[0][0].exceptions).toMatchObject([{ message: 'disk full', relation: 'cause' }])
+    expect(onError.mock.calls[1][0].exceptions).toBeUndefined()
+  })
+})
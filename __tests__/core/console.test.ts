@@ -0,0 +1,96 @@
+/* eslint-disable no-console */
+import type { ErrorInfo } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorSource, instrumentConsole, serializeConsoleArg } from '../../packages/core/src'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('serializeConsoleArg', () => {
+  it('序列化错误、函数、循环对象与超长文本', () => {
+    const cyclic: Record<string, unknown> = { id: 1n }
+    cyclic.self = cyclic
+    const load = (): void => {}
+
+    expect(serializeConsoleArg(new TypeError('bad'))).toBe('TypeError: bad')
+    expect(serializeConsoleArg(load)).toBe('[Function: load]')
+    expect(serializeConsoleArg(cyclic)).toBe('{"id":"1","self":"[Circular]"}')
+    expect(serializeConsoleArg('abcdef', 3)).toBe('abc...')
+  })
+})
+
+describe('instrumentConsole', () => {
+  it('回调后调用原始方法，恢复后还原', () => {
+    const original = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const wrapped = console.warn
+    const handler = vi.fn()
+
+    const restore = instrumentConsole(handler)
+    console.warn('slow', 1)
+
+    expect(handler).toHaveBeenCalledWith('warn', ['slow', 1])
+    expect(original).toHaveBeenCalledWith('slow', 1)
+
+    restore()
+    expect(console.warn).toBe(wrapped)
+  })
+
+  it('回调中的 console 调用不会再次触发回调', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const handler = vi.fn(() => console.error('nested'))
+
+    const restore = instrumentConsole(handler)
+    console.error('outer')
+
+    expect(handler).toHaveBeenCalledTimes(1)
+
+    restore()
+  })
+})
+
+describe('errorCatcher 控制台捕获', () => {
+  it('默认不拦截控制台', () => {
+    const { error } = console
+    const catcher = new ErrorCatcher().install()
+
+    expect(console.error).toBe(error)
+
+    catcher.uninstall()
+  })
+
+  it('按 consoleLevels 上报并为所有调用记录面包屑', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({ captureConsoleErrors: true, onError: error => errors.push(error) }).install()
+
+    const cause = new RangeError('out of range')
+    console.info('ready')
+    console.error('failed:', cause)
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({
+      name: 'RangeError',
+      message: 'out of range',
+      level: ErrorLevel.ERROR,
+      source: ErrorSource.CONSOLE,
+      extra: { level: 'error', arguments: ['failed:', 'RangeError: out of range'] },
+    })
+    expect(catcher.getBreadcrumbs().map(crumb => crumb.category)).toEqual(['console.info', 'console.error'])
+
+    catcher.uninstall()
+  })
+
+  it('没有 Error 参数时以消息创建 ConsoleError', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ captureConsoleErrors: true, onError }).install()
+
+    console.warn('disk almost full')
+
+    expect(onError.mock.calls[0][0]).toMatchObject({ name: 'ConsoleError', message: 'disk almost full', level: ErrorLevel.WARNING })
+
+    catcher.uninstall()
+  })
+})
@@ -0,0 +1,89 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DeviceContextIntegration, ErrorCatcher, ErrorLevel, ErrorSource, parseUserAgent } from '../../packages/core/src'
+
+const WECHAT_IOS = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 MicroMessenger/8.0.44(0x18002c2f) NetType/WIFI Language/zh_CN'
+const QQ_ANDROID = 'Mozilla/5.0 (Linux; Android 13; PGT-AN10 Build/HONORPGT-AN10; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/109.0.5414.86 MQQBrowser/6.2 TBS/046805 Mobile Safari/537.36 V1_AND_SQ_8.9.93_4680_YYB_D QQ/8.9.93.12760 NetType/WIFI'
+const UC_ANDROID = 'Mozilla/5.0 (Linux; U; Android 12; zh-CN; 22081212C Build/SKQ1.220303.001) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/100.0.4896.58 UCBrowser/16.3.8.1290 Mobile Safari/537.36'
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('parseUserAgent', () => {
+  it('识别微信内置浏览器', () => {
+    expect(parseUserAgent(WECHAT_IOS)).toEqual({
+      browser: { name: 'WeChat', version: '8.0.44', webview: true },
+      engine: { name: 'WebKit', version: '605.1.15' },
+      os: { name: 'iOS', version: '17.1' },
+      device: { type: 'mobile', vendor: 'Apple', model: 'iPhone' },
+    })
+  })
+
+  it('识别 QQ 内置浏览器，优先于 QQ 浏览器标识', () => {
+    expect(parseUserAgent(QQ_ANDROID)).toEqual({
+      browser: { name: 'QQ', version: '8.9.93.12760', webview: true },
+      engine: { name: 'Blink', version: '109.0.5414.86' },
+      os: { name: 'Android', version: '13' },
+      device: { type: 'mobile', model: 'PGT-AN10' },
+    })
+  })
+
+  it('识别 UC 浏览器与小米设备', () => {
+    expect(parseUserAgent(UC_ANDROID)).toMatchObject({
+      browser: { name: 'UC Browser', version: '16.3.8.1290' },
+      os: { name: 'Android', version: '12' },
+      device: { type: 'mobile', model: '22081212C' },
+    })
+    expect(parseUserAgent('Mozilla/5.0 (Linux; Android 11; Redmi Note 8 Pro) AppleWebKit/537.36 Chrome/96.0 Mobile Safari/537.36').device)
+      .toEqual({ type: 'mobile', vendor: 'Xiaomi', model: 'Redmi Note 8 Pro' })
+  })
+
+  it('识别桌面浏览器、平板与爬虫', () => {
+    expect(parseUserAgent(CHROME_WINDOWS)).toEqual({
+      browser: { name: 'Chrome', version: '120.0.0.0' },
+      engine: { name: 'Blink', version: '120.0.0.0' },
+      os: { name: 'Windows', version: '10' },
+      device: { type: 'desktop' },
+    })
+    expect(parseUserAgent('Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 Chrome/120.0 Safari/537.36').device).toEqual({ type: 'tablet' })
+    expect(parseUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)').device.type).toBe('bot')
+  })
+})
+
+describe('deviceContextIntegration', () => {
+  it('为事件补充浏览器、系统、设备、语言区域与网络上下文，事件自身的上下文优先', () => {
+    vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(WECHAT_IOS)
+    const integration = new DeviceContextIntegration({ screen: false })
+    integration.setup()
+
+    const event: ErrorInfo = {
+      id: '1',
+      name: 'Error',
+      message: 'boom',
+      level: ErrorLevel.ERROR,
+      source: ErrorSource.MANUAL,
+      timestamp: 0,
+      contexts: { os: { name: 'custom' } },
+    }
+    integration.processEvent(event)
+
+    expect(event.contexts).toMatchObject({
+      browser: { name: 'WeChat', version: '8.0.44', engine: 'WebKit', webview: true },
+      os: { name: 'custom' },
+      device: { type: 'mobile', vendor: 'Apple', model: 'iPhone' },
+      locale: { language: navigator.language },
+      network: { online: navigator.onLine },
+    })
+    expect(event.contexts?.device).not.toHaveProperty('screenWidth')
+
+    integration.teardown()
+    expect(integration.getContexts()).toEqual({})
+  })
+
+  it('deviceContext 为 false 时不安装', () => {
+    expect(new ErrorCatcher().getIntegration('DeviceContext')).toBeDefined()
+    expect(new ErrorCatcher({ deviceContext: false }).getIntegration('DeviceContext')).toBeUndefined()
+  })
+})
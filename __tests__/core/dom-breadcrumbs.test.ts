@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, getElementSelector, getElementText, instrumentInputs, instrumentNavigation } from '../../packages/core/src'
+
+afterEach(() => {
+  document.body.innerHTML = ''
+  history.replaceState(null, '', '/')
+})
+
+describe('getElementSelector / getElementText', () => {
+  it('向上生成选择器，遇到带 id 的祖先停止', () => {
+    document.body.innerHTML = '<div id="app"><ul class="list"><li><button class="btn primary large" type="submit">  保存\n 设置 </button></li></ul></div>'
+    const button = document.querySelector('button')!
+
+    expect(getElementSelector(button)).toBe('div#app > ul.list > li > button.btn.primary[type="submit"]')
+    expect(getElementText(button)).toBe('保存 设置')
+  })
+
+  it('不读取可输入元素的文本', () => {
+    document.body.innerHTML = '<textarea>secret</textarea>'
+
+    expect(getElementText(document.querySelector('textarea')!)).toBe('')
+  })
+})
+
+describe('instrumentInputs', () => {
+  it('记录聚焦与变更但不记录输入值', () => {
+    document.body.innerHTML = '<input name="password" type="password">'
+    const input = document.querySelector('input')!
+    const handler = vi.fn()
+
+    const restore = instrumentInputs(handler)
+    input.value = 'hunter2'
+    input.dispatchEvent(new FocusEvent('focusin', { bubbles: true }))
+    input.dispatchEvent(new Event('change', { bubbles: true }))
+
+    expect(handler.mock.calls.map(([crumb]) => crumb.category)).toEqual(['ui.focus', 'ui.change'])
+    expect(JSON.stringify(handler.mock.calls)).not.toContain('hunter2')
+
+    restore()
+    input.dispatchEvent(new Event('change', { bubbles: true }))
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('instrumentNavigation', () => {
+  it('记录 pushState 并在恢复后还原 history', () => {
+    const { pushState } = history
+    const handler = vi.fn()
+
+    const restore = instrumentNavigation(handler)
+    history.pushState(null, '', '/orders?page=2')
+
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      category: 'navigation',
+      data: { from: 'http://localhost:3000/', to: 'http://localhost:3000/orders?page=2', trigger: 'pushState' },
+    })
+
+    restore()
+    expect(history.pushState).toBe(pushState)
+  })
+})
+
+describe('errorCatcher 自动面包屑', () => {
+  it('默认记录点击，autoBreadcrumbs 为 false 时关闭', () => {
+    document.body.innerHTML = '<button id="buy">购买</button>'
+    const button = document.querySelector('button')!
+
+    const catcher = new ErrorCatcher().install()
+    button.click()
+    expect(catcher.getBreadcrumbs()).toMatchObject([{ category: 'ui.click', message: 'button#buy "购买"' }])
+    catcher.uninstall()
+
+    const disabled = new ErrorCatcher({ autoBreadcrumbs: false }).install()
+    button.click()
+    expect(disabled.getBreadcrumbs()).toHaveLength(0)
+    disabled.uninstall()
+  })
+})
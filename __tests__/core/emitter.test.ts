@@ -0,0 +1,113 @@
+import type { ErrorEvents, ErrorInfo } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorReporter, ErrorSource, TypedEventEmitter } from '../../packages/core/src'
+
+const originalFetch = globalThis.fetch
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+function createError(id: string): ErrorInfo {
+  return { id, name: 'Error', message: 'boom', level: ErrorLevel.ERROR, source: ErrorSource.MANUAL, timestamp: 0 }
+}
+
+describe('typedEventEmitter', () => {
+  it('on 返回取消订阅函数，once 只触发一次', () => {
+    const emitter = new TypedEventEmitter<{ ping: number }>()
+    const listener = vi.fn()
+    const onceListener = vi.fn()
+
+    const off = emitter.on('ping', listener)
+    emitter.once('ping', onceListener)
+    emitter.emit('ping', 1)
+    emitter.emit('ping', 2)
+    off()
+    emitter.emit('ping', 3)
+
+    expect(listener.mock.calls).toEqual([[1], [2]])
+    expect(onceListener.mock.calls).toEqual([[1]])
+    expect(emitter.listenerCount('ping')).toBe(0)
+  })
+
+  it('可以用原始监听器取消 once 订阅', () => {
+    const emitter = new TypedEventEmitter<{ ping: number }>()
+    const listener = vi.fn()
+
+    emitter.once('ping', listener)
+    emitter.off('ping', listener)
+    emitter.emit('ping', 1)
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('监听器抛出的错误不影响其他监听器', () => {
+    const emitter = new TypedEventEmitter<{ ping: number }>()
+    const listener = vi.fn()
+
+    emitter.on('ping', () => {
+      throw new Error('listener')
+    })
+    emitter.on('ping', listener)
+
+    expect(() => emitter.emit('ping', 1)).not.toThrow()
+    expect(listener).toHaveBeenCalledWith(1)
+  })
+})
+
+describe('errorCatcher 事件', () => {
+  it('触发 error 事件', () => {
+    const catcher = new ErrorCatcher()
+    const listener = vi.fn()
+
+    catcher.on('error', listener)
+    catcher.captureError(new Error('boom'))
+
+    expect(listener.mock.calls[0][0]).toMatchObject({ message: 'boom' })
+  })
+
+  it('ignored 事件携带忽略原因', () => {
+    const catcher = new ErrorCatcher({ ignorePatterns: ['ResizeObserver'], maxErrorsPerMinute: 1 })
+    const reasons: ErrorEvents['ignored']['reason'][] = []
+    catcher.on('ignored', ({ reason }) => reasons.push(reason))
+
+    catcher.captureError(new Error('ResizeObserver loop limit exceeded'))
+    catcher.captureError(new Error('first'))
+    catcher.captureError(new Error('first'))
+    catcher.captureError(new Error('second'))
+
+    expect(reasons).toEqual(['filtered', 'duplicate', 'rateLimit'])
+  })
+
+  it('off 移除该事件的全部监听器', () => {
+    const catcher = new ErrorCatcher()
+    const listener = vi.fn()
+
+    catcher.on('error', listener)
+    catcher.off('error')
+    catcher.captureError(new Error('boom'))
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
+
+describe('errorReporter 事件', () => {
+  it('上报成功触发 reported，失败触发 reportFailed', async () => {
+    const reporter = new ErrorReporter({ endpoint: 'https://collector.com/errors', maxRetries: 0, enableOfflineCache: false })
+    const reported = vi.fn()
+    const failed = vi.fn()
+    reporter.on('reported', reported)
+    reporter.on('reportFailed', failed)
+
+    globalThis.fetch = vi.fn(async () => new Response(null, { status: 200 }))
+    await reporter.report(createError('1')).flush()
+
+    globalThis.fetch = vi.fn(async () => new Response(null, { status: 503 }))
+    await reporter.report(createError('2')).flush()
+
+    expect(reported.mock.calls[0][0].map((error: ErrorInfo) => error.id)).toEqual(['1'])
+    expect(failed.mock.calls[0][0]).toMatchObject({ error: expect.any(Error), errors: [expect.objectContaining({ id: '2' })] })
+
+    await reporter.destroy()
+  })
+})
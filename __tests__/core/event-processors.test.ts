@@ -0,0 +1,98 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorSource, EventProcessorPipeline } from '../../packages/core/src'
+
+function createEvent(): ErrorInfo {
+  return { id: '1', name: 'Error', message: 'boom', level: ErrorLevel.ERROR, source: ErrorSource.MANUAL, timestamp: 0 }
+}
+
+/**
+ * 向事件追加标签的处理器
+ */
+function tag(key: string) {
+  return (event: ErrorInfo): ErrorInfo => ({ ...event, tags: { ...event.tags, [key]: String(Object.keys(event.tags ?? {}).length) } })
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('eventProcessorPipeline', () => {
+  it('按优先级从高到低执行，同优先级按添加顺序', () => {
+    const pipeline = new EventProcessorPipeline()
+    pipeline.add(tag('low'), { name: 'low', priority: -1 })
+    pipeline.add(tag('first'), { name: 'first' })
+    pipeline.add(tag('second'), { name: 'second' })
+    pipeline.add(tag('high'), { name: 'high', priority: 10 })
+
+    expect(pipeline.getNames()).toEqual(['high', 'first', 'second', 'low'])
+    expect(pipeline.run(createEvent())).toEqual({
+      event: expect.objectContaining({ tags: { high: '0', first: '1', second: '2', low: '3' } }),
+    })
+  })
+
+  it('全部同步时同步返回，返回 null 时记录丢弃的处理器', () => {
+    const pipeline = new EventProcessorPipeline()
+    const after = vi.fn(tag('after'))
+    const dropBots = (): null => null
+    pipeline.add(dropBots)
+    pipeline.add(after)
+
+    expect(pipeline.run(createEvent())).toEqual({ event: null, droppedBy: 'dropBots' })
+    expect(after).not.toHaveBeenCalled()
+  })
+
+  it('跳过抛出异常或超时的处理器', async () => {
+    vi.useFakeTimers()
+    const pipeline = new EventProcessorPipeline({ timeout: 100 })
+    pipeline.add(() => {
+      throw new Error('processor')
+    })
+    pipeline.add(async () => new Promise<null>(() => {}), { name: 'hang' })
+    pipeline.add(async event => ({ ...event, message: 'async' }), { timeout: 50 })
+
+    const result = pipeline.run(createEvent())
+    expect(result).toBeInstanceOf(Promise)
+    await vi.advanceTimersByTimeAsync(100)
+
+    await expect(result).resolves.toEqual({ event: expect.objectContaining({ message: 'async' }) })
+  })
+
+  it('按函数或名称移除处理器', () => {
+    const pipeline = new EventProcessorPipeline()
+    const processor = tag('a')
+    const remove = pipeline.add(processor, { name: 'a' })
+    pipeline.add(tag('b'), { name: 'b' })
+
+    expect(pipeline.remove('b')).toBe(true)
+    expect(pipeline.remove(processor)).toBe(true)
+    expect(pipeline.remove('b')).toBe(false)
+    remove()
+    expect(pipeline.getNames()).toEqual([])
+  })
+})
+
+describe('errorCatcher 事件处理器', () => {
+  it('异步处理器完成后再触发 onError，drainEvents 等待其完成', async () => {
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ onError })
+    catcher.addEventProcessor(async event => ({ ...event, tags: { release: '1.2.0' } }), { name: 'release' })
+
+    catcher.captureError(new Error('boom'))
+    expect(onError).not.toHaveBeenCalled()
+
+    await catcher.drainEvents()
+    expect(onError.mock.calls[0][0].tags).toEqual({ release: '1.2.0' })
+  })
+
+  it('丢弃事件时 ignored 事件携带处理器名称', () => {
+    const ignored = vi.fn()
+    const catcher = new ErrorCatcher()
+    catcher.on('ignored', ignored)
+    catcher.addEventProcessor(event => (event.message.includes('bot') ? null : event), { name: 'dropBots' })
+
+    catcher.captureError(new Error('bot traffic'))
+
+    expect(ignored.mock.calls[0][0]).toMatchObject({ reason: 'filtered', processor: 'dropBots' })
+  })
+})
@@ -0,0 +1,84 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { ErrorLevel, ErrorSource, generateFingerprint, hashString, normalizeMessage } from '../../packages/core/src'
+
+function createError(overrides: Partial<ErrorInfo> = {}): ErrorInfo {
+  return {
+    id: '1',
+    name: 'TypeError',
+    message: 'Cannot read properties of undefined',
+    level: ErrorLevel.ERROR,
+    source: ErrorSource.RUNTIME,
+    timestamp: 0,
+    stack: 'TypeError: Cannot read properties of undefined\n    at load (https://app.com/assets/main.3f9a1c7e2b.js:10:25)',
+    ...overrides,
+  }
+}
+
+describe('normalizeMessage', () => {
+  it('替换地址、数字与引号内的值', () => {
+    expect(normalizeMessage('User 42 not found at https://api.example.com/users/42')).toBe('User <n> not found at <url>')
+    expect(normalizeMessage('Cannot read properties of undefined (reading \'id\')')).toBe('Cannot read properties of undefined (reading <value>)')
+    expect(normalizeMessage('Timeout after 3.5 seconds')).toBe('Timeout after <n> seconds')
+  })
+
+  it('替换 UUID 与十六进制值', () => {
+    expect(normalizeMessage('Order 123e4567-e89b-12d3-a456-426614174000 missing')).toBe('Order <uuid> missing')
+    expect(normalizeMessage('Loading chunk 5a3f9c12 failed')).toBe('Loading chunk <hex> failed')
+    expect(normalizeMessage('Access violation at 0x1f3a')).toBe('Access violation at <hex>')
+  })
+
+  it('保留不含可变部分的消息', () => {
+    expect(normalizeMessage('Script error.')).toBe('Script error.')
+  })
+})
+
+describe('generateFingerprint', () => {
+  it('仅可变部分不同的消息归为一组', () => {
+    const a = createError({ message: 'User 1 not found' })
+    const b = createError({ message: 'User 2 not found' })
+
+    expect(generateFingerprint(a)).toBe(generateFingerprint(b))
+    expect(generateFingerprint(a, { normalizeMessages: false })).not.toBe(generateFingerprint(b, { normalizeMessages: false }))
+  })
+
+  it('忽略行列号与构建产物中的内容哈希', () => {
+    const a = createError()
+    const b = createError({ stack: 'TypeError: x\n    at load (https://app.com/assets/main.8d2e4b0a1f.js:99:1)' })
+    const c = createError({ stack: 'TypeError: x\n    at save (https://app.com/assets/main.8d2e4b0a1f.js:10:25)' })
+
+    expect(generateFingerprint(a)).toBe(generateFingerprint(b))
+    expect(generateFingerprint(a)).not.toBe(generateFingerprint(c))
+  })
+
+  it('名称或版本不同的错误分开聚合', () => {
+    const error = createError({ release: '1.0.0' })
+
+    expect(generateFingerprint(error)).not.toBe(generateFingerprint({ ...error, name: 'RangeError' }))
+    expect(generateFingerprint(error)).toBe(generateFingerprint({ ...error, release: '1.0.1' }))
+    expect(generateFingerprint(error, { includeRelease: true })).not.toBe(generateFingerprint({ ...error, release: '1.0.1' }, { includeRelease: true }))
+  })
+
+  it('自定义规则按原样参与哈希', () => {
+    const rules = [{ message: /timeout/i, fingerprint: ['gateway-timeout'] }]
+    const a = createError({ name: 'FetchError', message: 'Request timeout' })
+    const b = createError({ name: 'AbortError', message: 'Timeout exceeded', stack: undefined })
+
+    expect(generateFingerprint(a, { rules })).toBe(hashString('gateway-timeout'))
+    expect(generateFingerprint(b, { rules })).toBe(hashString('gateway-timeout'))
+    expect(generateFingerprint(createError(), { rules })).toBe(generateFingerprint(createError()))
+  })
+
+  it('展开 {{ default }} 与字段占位符', () => {
+    const rules = [{ name: 'TypeError', fingerprint: ['{{ default }}', '{{ tags.tenant }}'] }]
+    const a = createError({ message: 'User 1 not found', tags: { tenant: 'a' } })
+    const b = createError({ message: 'User 1 not found', tags: { tenant: 'b' } })
+
+    expect(generateFingerprint(a, { rules })).not.toBe(generateFingerprint(b, { rules }))
+    expect(generateFingerprint(a, { rules })).toBe(generateFingerprint({ ...a, message: 'User 2 not found' }, { rules }))
+
+    const fields = [{ fingerprint: ['{{ name }}', '{{ message }}', '{{ tags.missing }}', '{{ unknown }}'] }]
+    expect(generateFingerprint(createError({ message: 'Port 8080 in use' }), { rules: fields }))
+      .toBe(hashString(['TypeError', 'Port <n> in use', '', '{{ unknown }}'].join('::')))
+  })
+})
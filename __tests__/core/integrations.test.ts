@@ -0,0 +1,104 @@
+import type { ErrorInfo, Integration } from '../../packages/core/src'
+import process from 'node:process'
+import { describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher } from '../../packages/core/src'
+
+/**
+ * 记录调用顺序的测试集成
+ */
+function createIntegration(name: string, processEvent?: Integration['processEvent']): Integration & { setup: ReturnType<typeof vi.fn>, teardown: ReturnType<typeof vi.fn> } {
+  return { name, setup: vi.fn(), teardown: vi.fn(), processEvent }
+}
+
+describe('errorCatcher 集成', () => {
+  it('install 时安装，uninstall 时卸载', () => {
+    const integration = createIntegration('Test')
+    const catcher = new ErrorCatcher({ integrations: [integration] })
+
+    expect(integration.setup).not.toHaveBeenCalled()
+    catcher.install()
+    expect(integration.setup).toHaveBeenCalledWith(catcher)
+    catcher.uninstall()
+    expect(integration.teardown).toHaveBeenCalledTimes(1)
+  })
+
+  it('数组配置替换同名默认集成，函数配置可移除默认集成', () => {
+    const replaced = new ErrorCatcher({ integrations: [createIntegration('GlobalErrors')] })
+    const filtered = new ErrorCatcher({
+      integrations: defaults => defaults.filter(integration => integration.name !== 'GlobalErrors'),
+    })
+
+    expect(vi.isMockFunction(replaced.getIntegration('GlobalErrors')?.setup)).toBe(true)
+    expect(filtered.getIntegration('GlobalErrors')).toBeUndefined()
+    expect(filtered.getIntegration('UnhandledRejection')).toBeDefined()
+  })
+
+  it('运行时增删：已安装时立即 setup，同名替换时先卸载旧集成', () => {
+    const catcher = new ErrorCatcher({ integrations: () => [] }).install()
+    const first = createIntegration('Test')
+    const second = createIntegration('Test')
+
+    catcher.addIntegration(first)
+    expect(first.setup).toHaveBeenCalledTimes(1)
+
+    catcher.addIntegration(second)
+    expect(first.teardown).toHaveBeenCalledTimes(1)
+    expect(catcher.getIntegration('Test')).toBe(second)
+
+    expect(catcher.removeIntegration('Test')).toBe(true)
+    expect(second.teardown).toHaveBeenCalledTimes(1)
+    expect(catcher.removeIntegration('Test')).toBe(false)
+    expect(catcher.getIntegrations()).toEqual([])
+
+    catcher.uninstall()
+  })
+
+  it('processEvent 按顺序处理事件，返回 null 时丢弃', () => {
+    const errors: ErrorInfo[] = []
+    const ignored = vi.fn()
+    const catcher = new ErrorCatcher({
+      integrations: [
+        createIntegration('Tag', (event) => {
+          event.tags = { ...event.tags, visibility: 'hidden' }
+          return event
+        }),
+        createIntegration('Drop', event => (event.message === 'drop' ? null : event)),
+      ],
+      onError: error => errors.push(error),
+    })
+    catcher.on('ignored', ignored)
+
+    catcher.captureError(new Error('keep'))
+    catcher.captureError(new Error('drop'))
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0].tags).toEqual({ visibility: 'hidden' })
+    expect(ignored.mock.calls[0][0]).toMatchObject({ reason: 'filtered' })
+  })
+
+  it('setup 抛出的错误不影响其他集成', () => {
+    const broken: Integration = {
+      name: 'Broken',
+      setup: () => {
+        throw new Error('setup')
+      },
+    }
+    const working = createIntegration('Working')
+
+    const catcher = new ErrorCatcher({ integrations: () => [broken, working] })
+    expect(() => catcher.install()).not.toThrow()
+    expect(working.setup).toHaveBeenCalled()
+
+    catcher.uninstall()
+  })
+
+  it('类浏览器环境中不监听 Node.js 进程事件', () => {
+    const listeners = process.listenerCount('uncaughtException')
+    const catcher = new ErrorCatcher().install()
+
+    expect(catcher.getIntegration('NodeProcess')).toBeDefined()
+    expect(process.listenerCount('uncaughtException')).toBe(listeners)
+
+    catcher.uninstall()
+  })
+})
@@ -0,0 +1,127 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorSource, isLevelAtLeast, LevelClassifier, matchesError } from '../../packages/core/src'
+
+function createEvent(overrides: Partial<ErrorInfo> = {}): ErrorInfo {
+  return {
+    id: '1',
+    name: 'HttpError',
+    message: 'HTTP 404: GET https://api.com/users/1',
+    level: ErrorLevel.ERROR,
+    source: ErrorSource.NETWORK,
+    timestamp: 0,
+    fingerprint: 'fp',
+    extra: { url: 'https://api.com/users/1', status: 404 },
+    ...overrides,
+  }
+}
+
+describe('matchesError', () => {
+  it('同一条件中的字段需同时满足', () => {
+    const event = createEvent({ stack: 'HttpError: x\n    at load (chrome-extension://abc/inject.js:1:1)' })
+
+    expect(matchesError(event, { source: [ErrorSource.NETWORK, ErrorSource.RESOURCE], status: [400, 499] })).toBe(true)
+    expect(matchesError(event, { url: '/users/', name: /^Http/ })).toBe(true)
+    expect(matchesError(event, { filename: /chrome-extension:\/\// })).toBe(true)
+    expect(matchesError(event, { status: 404, message: 'POST' })).toBe(false)
+    expect(matchesError(createEvent({ extra: {}, tags: { httpStatus: '503' } }), { status: [500, 599] })).toBe(true)
+  })
+})
+
+describe('levelClassifier', () => {
+  it('首个命中的规则生效，显式级别只被 override 规则覆盖', () => {
+    const classifier = new LevelClassifier({
+      rules: [
+        { status: [400, 499], level: ErrorLevel.WARNING },
+        { source: ErrorSource.NETWORK, level: ErrorLevel.INFO },
+        { name: 'HttpError', level: ErrorLevel.FATAL, override: true },
+      ],
+    })
+
+    expect(classifier.classify(createEvent()).level).toBe(ErrorLevel.WARNING)
+    expect(classifier.classify(createEvent({ extra: {} })).level).toBe(ErrorLevel.INFO)
+    expect(classifier.classify(createEvent(), true).level).toBe(ErrorLevel.FATAL)
+    expect(classifier.classify(createEvent({ name: 'TypeError', source: ErrorSource.RUNTIME, extra: {} })).level).toBe(ErrorLevel.ERROR)
+  })
+
+  it('窗口内达到阈值时提升级别，escalatedNow 只在首次达到时为 true', () => {
+    const classifier = new LevelClassifier({ escalation: [{ threshold: 3, window: 1000 }] })
+    const classify = (timestamp: number): unknown => {
+      const { level, escalated, escalatedNow } = classifier.classify(createEvent({ timestamp }))
+      return [level, escalated, escalatedNow]
+    }
+
+    expect(classify(0)).toEqual([ErrorLevel.ERROR, false, false])
+    expect(classify(100)).toEqual([ErrorLevel.ERROR, false, false])
+    expect(classify(200)).toEqual([ErrorLevel.FATAL, true, true])
+    expect(classify(300)).toEqual([ErrorLevel.FATAL, true, false])
+    // 窗口外的出现不再计数
+    expect(classify(5000)).toEqual([ErrorLevel.ERROR, false, false])
+  })
+
+  it('提升规则只对满足 match 的错误生效，不会降低级别', () => {
+    const classifier = new LevelClassifier({
+      escalation: [
+        { threshold: 1, window: 1000, level: ErrorLevel.WARNING },
+        { threshold: 1, window: 1000, match: { source: ErrorSource.RUNTIME } },
+      ],
+    })
+
+    expect(classifier.classify(createEvent())).toMatchObject({ level: ErrorLevel.ERROR, escalated: false })
+  })
+
+  it('isLevelAtLeast 按严重程度比较', () => {
+    expect(isLevelAtLeast(ErrorLevel.FATAL, ErrorLevel.ERROR)).toBe(true)
+    expect(isLevelAtLeast(ErrorLevel.INFO, ErrorLevel.WARNING)).toBe(false)
+  })
+})
+
+describe('errorCatcher 级别分类', () => {
+  it('按 levelRules 分级并丢弃低于 minLevel 的错误', () => {
+    const onError = vi.fn()
+    const ignored = vi.fn()
+    const catcher = new ErrorCatcher({
+      levelRules: [{ message: 'Cache miss', level: ErrorLevel.INFO }],
+      minLevel: ErrorLevel.WARNING,
+      onError,
+    })
+    catcher.on('ignored', ignored)
+
+    catcher.captureError(new Error('Cache miss: user-1'))
+    catcher.captureMessage('Quota almost exceeded', ErrorLevel.WARNING)
+
+    expect(ignored.mock.calls[0][0]).toMatchObject({ reason: 'minLevel', error: { level: ErrorLevel.INFO } })
+    expect(onError.mock.calls.map(([error]) => error.level)).toEqual([ErrorLevel.WARNING])
+  })
+
+  it('重复错误首次达到提升阈值时立即上报', () => {
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ escalationRules: [{ threshold: 3, window: 60_000 }], onError })
+    const error = new Error('Request timeout')
+
+    for (let i = 0; i < 4; i++) {
+      catcher.captureError(error)
+    }
+
+    expect(onError.mock.calls.map(([event]) => [event.level, event.count])).toEqual([
+      [ErrorLevel.ERROR, 1],
+      [ErrorLevel.FATAL, 3],
+    ])
+  })
+
+  it('显式指定的级别不被普通规则覆盖', () => {
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({
+      levelRules: [
+        { message: 'Quota', level: ErrorLevel.INFO },
+        { message: 'Payment', level: ErrorLevel.FATAL, override: true },
+      ],
+      onError,
+    })
+
+    catcher.captureMessage('Quota almost exceeded', ErrorLevel.WARNING)
+    catcher.captureMessage('Payment declined', ErrorLevel.WARNING)
+
+    expect(onError.mock.calls.map(([error]) => error.level)).toEqual([ErrorLevel.WARNING, ErrorLevel.FATAL])
+  })
+})
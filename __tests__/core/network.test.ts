@@ -0,0 +1,157 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorReporter, ErrorSource, instrumentFetch, isStatusInRanges, matchesUrlPattern, withoutNetworkInstrumentation } from '../../packages/core/src'
+
+const originalFetch = globalThis.fetch
+
+function stubFetch(status: number): void {
+  globalThis.fetch = vi.fn(async () => new Response(null, { status }))
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+describe('instrumentFetch', () => {
+  it('记录请求结果并在恢复后还原 fetch', async () => {
+    stubFetch(201)
+    const stub = globalThis.fetch
+    const handler = vi.fn()
+
+    const restore = instrumentFetch(handler)
+    expect(globalThis.fetch).not.toBe(stub)
+
+    await fetch('https://api.com/users', { method: 'post' })
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'fetch', method: 'POST', url: 'https://api.com/users', status: 201 }))
+
+    restore()
+    expect(globalThis.fetch).toBe(stub)
+  })
+
+  it('网络失败时记录错误并继续抛出', async () => {
+    globalThis.fetch = vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    })
+    const handler = vi.fn()
+    const restore = instrumentFetch(handler)
+
+    await expect(fetch('https://api.com/users')).rejects.toThrow('Failed to fetch')
+    expect(handler.mock.calls[0][0]).toMatchObject({ status: 0, aborted: false, error: expect.any(TypeError) })
+
+    restore()
+  })
+
+  it('回调抛出的错误不影响应用的请求', async () => {
+    stubFetch(200)
+    const restore = instrumentFetch(() => {
+      throw new Error('handler')
+    })
+
+    await expect(fetch('https://api.com/users')).resolves.toMatchObject({ status: 200 })
+
+    restore()
+  })
+
+  it('withoutNetworkInstrumentation 中发起的请求不触发回调', async () => {
+    stubFetch(500)
+    const handler = vi.fn()
+    const restore = instrumentFetch(handler)
+
+    await withoutNetworkInstrumentation(() => fetch('https://collector.com/errors', { method: 'POST' }))
+    expect(handler).not.toHaveBeenCalled()
+
+    await fetch('https://api.com/users')
+    expect(handler).toHaveBeenCalledTimes(1)
+
+    restore()
+  })
+})
+
+describe('isStatusInRanges / matchesUrlPattern', () => {
+  it('按闭区间与包含或正则匹配', () => {
+    expect(isStatusInRanges(500, [[500, 599]])).toBe(true)
+    expect(isStatusInRanges(404, [[500, 599]])).toBe(false)
+    expect(matchesUrlPattern('https://api.com/errors', ['/errors'])).toBe(true)
+    expect(matchesUrlPattern('https://api.com/users', [/\/errors$/])).toBe(false)
+  })
+})
+
+describe('errorCatcher 网络捕获', () => {
+  it('按 networkErrorStatusRanges 上报并记录面包屑', async () => {
+    stubFetch(404)
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({
+      networkErrorStatusRanges: [[400, 499]],
+      onError: error => errors.push(error),
+    }).install()
+
+    await fetch('https://api.com/users/1')
+    await fetch('https://api.com/users/1', { method: 'DELETE' })
+
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toMatchObject({ name: 'HttpError', message: 'HTTP 404: GET https://api.com/users/1', source: ErrorSource.NETWORK })
+    expect(catcher.getBreadcrumbs().map(crumb => crumb.message)).toEqual([
+      'GET https://api.com/users/1 [404]',
+      'DELETE https://api.com/users/1 [404]',
+    ])
+
+    catcher.uninstall()
+  })
+
+  it('忽略 networkIgnoreUrls 中的请求', async () => {
+    stubFetch(500)
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ networkIgnoreUrls: ['/api/errors'], onError }).install()
+
+    await fetch('https://app.com/api/errors')
+
+    expect(onError).not.toHaveBeenCalled()
+    expect(catcher.getBreadcrumbs()).toHaveLength(0)
+
+    catcher.uninstall()
+  })
+
+  it('上报器自身的请求失败时不会被捕获', async () => {
+    stubFetch(503)
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ onError }).install()
+    const reporter = new ErrorReporter({ endpoint: 'https://collector.com/errors', maxRetries: 0, enableOfflineCache: false })
+    const failed = vi.fn()
+    reporter.on('reportFailed', failed)
+
+    await reporter.report({ id: '1', name: 'Error', message: 'boom', level: ErrorLevel.ERROR, source: ErrorSource.MANUAL, timestamp: 0 }).flush()
+    await reporter.sendSession(catcher.getSession())
+
+    expect(failed).toHaveBeenCalledTimes(1)
+    expect(onError).not.toHaveBeenCalled()
+    expect(catcher.getBreadcrumbs()).toHaveLength(0)
+
+    await reporter.destroy()
+    catcher.uninstall()
+  })
+
+  it('uninstall 还原 fetch 与 XMLHttpRequest', () => {
+    stubFetch(200)
+    const stub = globalThis.fetch
+    const { open, send } = XMLHttpRequest.prototype
+
+    const catcher = new ErrorCatcher().install()
+    expect(globalThis.fetch).not.toBe(stub)
+    expect(XMLHttpRequest.prototype.open).not.toBe(open)
+
+    catcher.uninstall()
+    expect(globalThis.fetch).toBe(stub)
+    expect(XMLHttpRequest.prototype.open).toBe(open)
+    expect(XMLHttpRequest.prototype.send).toBe(send)
+  })
+
+  it('captureNetworkErrors 为 false 时不拦截', () => {
+    stubFetch(200)
+    const stub = globalThis.fetch
+
+    const catcher = new ErrorCatcher({ captureNetworkErrors: false }).install()
+    expect(globalThis.fetch).toBe(stub)
+
+    catcher.uninstall()
+  })
+})
@@ -0,0 +1,92 @@
+// @vitest-environment node
+import type { ErrorInfo } from '../../packages/core/src'
+import { EventEmitter } from 'node:events'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorSource } from '../../packages/core/src'
+
+/**
+ * 创建只包含所需字段的 process 替身，避免向测试进程本身发送事件
+ */
+function stubProcess(): EventEmitter & { exit: ReturnType<typeof vi.fn>, stderr: { write: ReturnType<typeof vi.fn> } } {
+  const fake = Object.assign(new EventEmitter(), {
+    versions: { node: '20.0.0' },
+    execArgv: [],
+    env: {},
+    exitCode: undefined,
+    exit: vi.fn(),
+    stderr: { write: vi.fn() },
+  })
+  vi.stubGlobal('process', fake)
+  return fake
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('errorCatcher Node.js 进程捕获', () => {
+  it('监听进程事件并在 uninstall 后移除', () => {
+    const fake = stubProcess()
+    const catcher = new ErrorCatcher().install()
+
+    expect(fake.listenerCount('uncaughtException')).toBe(1)
+    expect(fake.listenerCount('unhandledRejection')).toBe(1)
+    expect(fake.listenerCount('warning')).toBe(1)
+
+    catcher.uninstall()
+    expect(fake.eventNames()).toEqual([])
+  })
+
+  it('进程警告以 WARNING 上报', () => {
+    const fake = stubProcess()
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({ onError: error => errors.push(error) }).install()
+
+    fake.emit('warning', Object.assign(new Error('Possible EventEmitter memory leak detected'), { name: 'MaxListenersExceededWarning' }))
+
+    expect(errors[0]).toMatchObject({ name: 'MaxListenersExceededWarning', level: ErrorLevel.WARNING, source: ErrorSource.RUNTIME })
+
+    catcher.uninstall()
+  })
+
+  it('exitOnFatal 为 false 时以 FATAL 上报且不退出进程', () => {
+    const fake = stubProcess()
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({ exitOnFatal: false, onError: error => errors.push(error) }).install()
+
+    fake.emit('uncaughtException', new Error('crash'), 'uncaughtException')
+
+    expect(errors[0]).toMatchObject({ message: 'crash', level: ErrorLevel.FATAL })
+    expect(fake.exit).not.toHaveBeenCalled()
+
+    catcher.uninstall()
+  })
+
+  it('未捕获异常上报后退出进程', async () => {
+    const fake = stubProcess()
+    const catcher = new ErrorCatcher({ fatalExitTimeout: 100 }).install()
+
+    fake.emit('uncaughtException', new Error('crash'), 'uncaughtException')
+
+    await vi.waitFor(() => expect(fake.exit).toHaveBeenCalledWith(1))
+    expect(fake.stderr.write).toHaveBeenCalledWith(expect.stringContaining('Error: crash'))
+
+    catcher.uninstall()
+  })
+
+  it('onFatalError 收到经过 beforeCapture 处理后的最终事件', async () => {
+    const fake = stubProcess()
+    const onFatalError = vi.fn()
+    const catcher = new ErrorCatcher({
+      beforeCapture: error => ({ ...error, tags: { phase: 'boot' } }),
+      onFatalError,
+    }).install()
+
+    fake.emit('uncaughtException', new Error('crash'), 'uncaughtException')
+
+    await vi.waitFor(() => expect(fake.exit).toHaveBeenCalledWith(1))
+    expect(onFatalError.mock.calls[0][0]).toMatchObject({ message: 'crash', tags: { phase: 'boot' } })
+
+    catcher.uninstall()
+  })
+})
@@ -0,0 +1,156 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { ErrorLevel, ErrorSource, getByteSize, normalizeEvent, normalizeValue, truncate } from '../../packages/core/src'
+
+function createEvent(overrides: Partial<ErrorInfo> = {}): ErrorInfo {
+  return {
+    id: '1',
+    name: 'Error',
+    message: 'boom',
+    level: ErrorLevel.ERROR,
+    source: ErrorSource.RUNTIME,
+    timestamp: 0,
+    ...overrides,
+  }
+}
+
+describe('truncate', () => {
+  it('超出长度时截断并追加省略号', () => {
+    expect(truncate('abcdef', 3)).toBe('abc…')
+    expect(truncate('abc', 3)).toBe('abc')
+  })
+})
+
+describe('getByteSize', () => {
+  it('按 UTF-8 计算 JSON 字节数', () => {
+    expect(getByteSize('a')).toBe(3)
+    expect(getByteSize('中')).toBe(5)
+    expect(getByteSize({ a: 1 })).toBe(7)
+  })
+
+  it('无法序列化时返回 0', () => {
+    const cyclic: Record<string, unknown> = {}
+    cyclic.self = cyclic
+
+    expect(getByteSize(cyclic)).toBe(0)
+    expect(getByteSize(undefined)).toBe(0)
+  })
+})
+
+describe('normalizeValue', () => {
+  it('转换无法序列化的值', () => {
+    function handler(): void {}
+
+    expect(normalizeValue({
+      id: 1n,
+      tags: new Set(['a']),
+      meta: new Map([[1, 'one']]),
+      handler,
+      ratio: Number.POSITIVE_INFINITY,
+      at: new Date(0),
+      pattern: /a+/g,
+      symbol: Symbol('s'),
+      bytes: new Uint8Array(4),
+    })).toEqual({
+      id: '1n',
+      tags: ['a'],
+      meta: { 1: 'one' },
+      handler: '[Function: handler]',
+      ratio: 'Infinity',
+      at: '1970-01-01T00:00:00.000Z',
+      pattern: '/a+/g',
+      symbol: 'Symbol(s)',
+      bytes: '[Uint8Array(4)]',
+    })
+  })
+
+  it('标记循环引用，多处引用的同一对象各自展开', () => {
+    const shared = { value: 1 }
+    const data: Record<string, unknown> = { a: shared, b: [shared] }
+    data.self = data
+
+    expect(normalizeValue(data)).toEqual({ a: { value: 1 }, b: [{ value: 1 }], self: '[Circular]' })
+  })
+
+  it('按深度与宽度裁剪', () => {
+    expect(normalizeValue({ a: { b: { c: 1 } }, list: [[1]] }, { maxDepth: 2 })).toEqual({ a: { b: '[Object]' }, list: ['[Array]'] })
+    expect(normalizeValue([1, 2, 3, 4], { maxBreadth: 2 })).toEqual([1, 2, '[2 more items]'])
+    expect(normalizeValue({ a: 1, b: 2, c: 3 }, { maxBreadth: 2 })).toEqual({ 'a': 1, 'b': 2, '...': '[1 more keys]' })
+    expect(normalizeValue('abcdef', { maxStringLength: 3 })).toBe('abc…')
+  })
+
+  it('展开 Error 并处理抛出异常的 getter', () => {
+    const error = Object.assign(new TypeError('bad'), { code: 'E_BAD' })
+    const data = {
+      get broken(): unknown {
+        throw new Error('getter')
+      },
+    }
+
+    expect(normalizeValue(error)).toMatchObject({ code: 'E_BAD', name: 'TypeError', message: 'bad' })
+    expect(normalizeValue(data)).toEqual({ broken: '[Thrown]' })
+  })
+
+  it('描述 DOM 节点与 Vue 响应式对象', () => {
+    const button = document.createElement('button')
+    button.id = 'submit'
+    button.className = 'primary large'
+
+    expect(normalizeValue(button)).toBe('[HTMLElement: button#submit.primary.large]')
+    expect(normalizeValue({ __v_isRef: true, _rawValue: 1 })).toBe(1)
+    expect(normalizeValue({ __v_raw: { value: 1 }, value: 2 })).toEqual({ value: 1 })
+  })
+})
+
+describe('normalizeEvent', () => {
+  it('截断消息与堆栈帧', () => {
+    const stack = ['Error: boom', ...Array.from({ length: 5 }, (_, i) => `    at f${i} (https://app.com/main.js:${i}:1)`)].join('\n')
+    const result = normalizeEvent(createEvent({ message: 'abcdef', stack }), { maxMessageLength: 3, maxStackFrames: 2 })
+
+    expect(result.message).toBe('abc…')
+    expect(result.stack).toBe([
+      'Error: boom',
+      '    at f0 (https://app.com/main.js:0:1)',
+      '    at f1 (https://app.com/main.js:1:1)',
+      '    ... 3 more frames',
+    ].join('\n'))
+  })
+
+  it('extra 超出字节预算时从最大的字段开始截断', () => {
+    const result = normalizeEvent(createEvent({ extra: { big: 'x'.repeat(500), small: 'ok' } }), { maxExtraSize: 100 })
+
+    expect(result.extra).toEqual({ big: '[Truncated]', small: 'ok' })
+  })
+
+  it('超出事件预算时优先丢弃最早的面包屑', () => {
+    const breadcrumbs = Array.from({ length: 8 }, (_, i) => ({
+      type: 'custom' as const,
+      category: 'test',
+      message: `${i}`.repeat(100),
+      timestamp: i,
+    }))
+    const event = createEvent({ breadcrumbs, extra: { id: 1 } })
+    const result = normalizeEvent(event, { maxEventSize: getByteSize(event) - 300 })
+
+    expect(result.breadcrumbs).toHaveLength(4)
+    expect(result.breadcrumbs?.[3].timestamp).toBe(7)
+    expect(result.extra).toEqual({ id: 1 })
+    expect(event.breadcrumbs).toHaveLength(8)
+  })
+
+  it('仍超出预算时依次移除面包屑数据、extra、源码上下文与关联异常', () => {
+    const event = createEvent({
+      breadcrumbs: [{ type: 'custom', category: 'test', message: 'a', timestamp: 0, data: { payload: 'x'.repeat(200) } }],
+      extra: { payload: 'x'.repeat(200) },
+      frames: [{ fileName: 'main.js', contextLine: 'x'.repeat(200), raw: 'at main.js' }],
+      exceptions: [{ name: 'Error', message: 'x'.repeat(200), relation: 'cause', parentIndex: 0, depth: 1 }],
+    })
+    const result = normalizeEvent(event, { maxEventSize: 200 })
+
+    expect(result.breadcrumbs).toEqual([{ type: 'custom', category: 'test', message: 'a', timestamp: 0 }])
+    expect(result.extra).toEqual({ payload: '[Truncated]' })
+    expect(result.frames).toEqual([{ fileName: 'main.js', raw: 'at main.js' }])
+    expect(result.exceptions).toBeUndefined()
+    expect(event.frames?.[0].contextLine).toBeDefined()
+  })
+})
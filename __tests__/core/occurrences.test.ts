@@ -0,0 +1,69 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher } from '../../packages/core/src'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+/**
+ * 在同一位置抛出的错误具有相同的指纹
+ */
+function createError(): Error {
+  return new Error('Request timeout')
+}
+
+describe('errorCatcher 出现次数统计', () => {
+  it('首次出现立即上报，重复出现在汇总时携带次数与首末时间', () => {
+    vi.useFakeTimers({ now: 1000 })
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({ onError: error => errors.push(error) })
+    const error = createError()
+
+    catcher.captureError(error)
+    vi.setSystemTime(2000)
+    catcher.captureError(error)
+    vi.setSystemTime(3000)
+    catcher.captureError(error)
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({ count: 1, firstSeen: 1000, lastSeen: 1000 })
+
+    catcher.flushOccurrences()
+
+    expect(errors).toHaveLength(2)
+    expect(errors[1]).toMatchObject({ count: 3, suppressedCount: 2, firstSeen: 1000, lastSeen: 3000, timestamp: 3000 })
+    expect(errors[1].id).not.toBe(errors[0].id)
+  })
+
+  it('suppressedCount 只统计上次汇总之后的重复', () => {
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({ onError: error => errors.push(error) })
+    const error = createError()
+
+    catcher.captureError(error)
+    catcher.captureError(error)
+    catcher.flushOccurrences()
+    catcher.captureError(error)
+    catcher.flushOccurrences()
+    catcher.flushOccurrences()
+
+    expect(errors.map(item => [item.count, item.suppressedCount])).toEqual([[1, undefined], [2, 1], [3, 1]])
+  })
+
+  it('按 occurrenceFlushInterval 定时汇总，uninstall 时汇总剩余重复', () => {
+    vi.useFakeTimers()
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ occurrenceFlushInterval: 1000, onError }).install()
+    const error = createError()
+
+    catcher.captureError(error)
+    catcher.captureError(error)
+    vi.advanceTimersByTime(1000)
+    expect(onError).toHaveBeenCalledTimes(2)
+
+    catcher.captureError(error)
+    catcher.uninstall()
+    expect(onError).toHaveBeenCalledTimes(3)
+  })
+})
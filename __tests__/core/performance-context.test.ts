@@ -0,0 +1,148 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ErrorLevel, ErrorSource, PerformanceContextIntegration } from '../../packages/core/src'
+
+/**
+ * 按条目类型记录订阅的 PerformanceObserver 替身
+ */
+class StubPerformanceObserver {
+  static supportedEntryTypes = ['largest-contentful-paint', 'paint', 'layout-shift', 'event', 'first-input', 'longtask']
+  static instances = new Map<string, StubPerformanceObserver>()
+
+  disconnected = false
+
+  constructor(private callback: (list: { getEntries: () => PerformanceEntry[] }) => void) {}
+
+  observe({ type }: { type: string }): void {
+    StubPerformanceObserver.instances.set(type, this)
+  }
+
+  disconnect(): void {
+    this.disconnected = true
+  }
+
+  /**
+   * 向订阅了该类型的观察器派发条目
+   */
+  static emit(type: string, entries: Record<string, unknown>[]): void {
+    const observer = StubPerformanceObserver.instances.get(type)
+    observer?.callback({ getEntries: () => entries as unknown as PerformanceEntry[] })
+  }
+}
+
+function createEvent(level: ErrorLevel): ErrorInfo {
+  return { id: '1', name: 'Error', message: 'boom', level, source: ErrorSource.MANUAL, timestamp: 0 }
+}
+
+beforeEach(() => {
+  StubPerformanceObserver.instances.clear()
+  vi.stubGlobal('PerformanceObserver', StubPerformanceObserver)
+  vi.spyOn(performance, 'now').mockReturnValue(5321.4)
+  vi.spyOn(performance, 'getEntriesByType').mockImplementation((type: string) => {
+    if (type === 'navigation') {
+      return [{
+        type: 'navigate',
+        nextHopProtocol: 'h2',
+        domainLookupStart: 10,
+        domainLookupEnd: 30,
+        connectStart: 30,
+        connectEnd: 80,
+        secureConnectionStart: 50,
+        requestStart: 80,
+        responseStart: 180,
+        responseEnd: 220,
+        redirectStart: 0,
+        redirectEnd: 0,
+        domInteractive: 600,
+        domContentLoadedEventEnd: 700,
+        loadEventEnd: 1000,
+        transferSize: 0,
+      }] as unknown as PerformanceEntryList
+    }
+    return type === 'resource' ? [{}, {}, {}] as PerformanceEntryList : []
+  })
+  Object.defineProperty(performance, 'memory', {
+    configurable: true,
+    value: { usedJSHeapSize: 25, totalJSHeapSize: 50, jsHeapSizeLimit: 100 },
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+  delete (performance as Performance & { memory?: unknown }).memory
+})
+
+describe('performanceContextIntegration', () => {
+  it('汇总 Web Vitals、导航耗时与内存', () => {
+    const integration = new PerformanceContextIntegration()
+    integration.setup()
+
+    StubPerformanceObserver.emit('paint', [{ name: 'first-paint', startTime: 800 }, { name: 'first-contentful-paint', startTime: 910.2 }])
+    StubPerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1200 }, { startTime: 1840.6 }])
+    // 第一个会话窗口：0.1 + 0.05；用户输入后的偏移不计入；间隔超过 1 秒开启新窗口
+    StubPerformanceObserver.emit('layout-shift', [
+      { value: 0.1, startTime: 1000, hadRecentInput: false },
+      { value: 0.05, startTime: 1500, hadRecentInput: false },
+      { value: 0.5, startTime: 1600, hadRecentInput: true },
+      { value: 0.12, startTime: 4000, hadRecentInput: false },
+    ])
+    StubPerformanceObserver.emit('event', [
+      { interactionId: 1, duration: 48 },
+      { interactionId: 1, duration: 96 },
+      { interactionId: 2, duration: 64 },
+      { interactionId: 0, duration: 500 },
+    ])
+
+    expect(integration.getSnapshot()).toEqual({
+      timeSinceNavigation: 5321,
+      timeSinceLoad: 4321,
+      lcp: 1841,
+      cls: 0.15,
+      inp: 96,
+      fcp: 910,
+      ttfb: 180,
+      memoryUsed: 25,
+    })
+  })
+
+  it('详细快照包含导航计时分解、内存详情、长任务与资源数量', () => {
+    const integration = new PerformanceContextIntegration()
+    integration.setup()
+    StubPerformanceObserver.emit('longtask', [{ duration: 120.4 }, { duration: 80 }])
+
+    expect(integration.getSnapshot(true)).toMatchObject({
+      navigation: { type: 'navigate', protocol: 'h2', dns: 20, tcp: 50, tls: 30, request: 100, response: 40, domInteractive: 600, domContentLoaded: 700, load: 1000 },
+      memory: { used: 25, total: 50, limit: 100, usage: 0.25 },
+      longTasks: { count: 2, totalDuration: 200 },
+      resourceCount: 3,
+    })
+  })
+
+  it('按 detailedLevels 决定快照内容，事件自身的上下文优先', () => {
+    const integration = new PerformanceContextIntegration({ memory: false, webVitals: false })
+    integration.setup()
+
+    const fatal = integration.processEvent(createEvent(ErrorLevel.FATAL))
+    const warning = integration.processEvent(createEvent(ErrorLevel.WARNING))
+    const custom = integration.processEvent({ ...createEvent(ErrorLevel.ERROR), contexts: { performance: { custom: true } } })
+
+    expect(StubPerformanceObserver.instances.size).toBe(0)
+    expect(fatal.contexts?.performance).toHaveProperty('navigation')
+    expect(fatal.contexts?.performance).not.toHaveProperty('memory')
+    expect(warning.contexts?.performance).not.toHaveProperty('navigation')
+    expect(custom.contexts?.performance).toEqual({ custom: true })
+  })
+
+  it('teardown 断开观察器并清空统计', () => {
+    const integration = new PerformanceContextIntegration()
+    integration.setup()
+    StubPerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1200 }])
+    const observer = StubPerformanceObserver.instances.get('largest-contentful-paint')!
+
+    integration.teardown()
+
+    expect(observer.disconnected).toBe(true)
+    expect(integration.getSnapshot()).toEqual({})
+  })
+})
@@ -0,0 +1,105 @@
+import type { ErrorEvents } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorSource, KeyedRateLimiter, RateLimiter } from '../../packages/core/src'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('rateLimiter', () => {
+  it('允许 burst 次突发调用，之后按速率补充令牌', () => {
+    vi.useFakeTimers()
+    const limiter = new RateLimiter({ maxCalls: 60, windowMs: 60_000, burst: 3 })
+
+    expect([1, 2, 3, 4].map(() => limiter.tryAcquire())).toEqual([true, true, true, false])
+
+    vi.advanceTimersByTime(1000)
+    expect(limiter.tryAcquire()).toBe(true)
+    expect(limiter.tryAcquire()).toBe(false)
+
+    // 空闲再久也不会超过桶容量
+    vi.advanceTimersByTime(60_000)
+    expect(limiter.getState()).toEqual({ tokens: 3, capacity: 3, allowed: 4, suppressed: 2 })
+  })
+
+  it('canAcquire 不消耗令牌，reset 填满令牌并清空计数', () => {
+    const limiter = new RateLimiter({ maxCalls: 1, windowMs: 60_000 })
+
+    expect(limiter.canAcquire()).toBe(true)
+    expect(limiter.tryAcquire()).toBe(true)
+    expect(limiter.canAcquire()).toBe(false)
+
+    limiter.reset()
+    expect(limiter.remaining).toBe(1)
+    expect(limiter.getState().allowed).toBe(0)
+  })
+})
+
+describe('keyedRateLimiter', () => {
+  it('各分组独立计数，按分组统计拒绝次数', () => {
+    const limiter = new KeyedRateLimiter({ maxCalls: key => (key === 'console' ? 1 : 0), windowMs: 60_000 })
+
+    expect(limiter.tryAcquire('console')).toBe(true)
+    expect(limiter.tryAcquire('console')).toBe(false)
+    expect(limiter.tryAcquire('console')).toBe(false)
+    // 限额小于等于 0 的分组不限制
+    expect(limiter.tryAcquire('network')).toBe(true)
+    expect(limiter.tryAcquire('network')).toBe(true)
+
+    expect(limiter.getSuppressed()).toBe(2)
+    expect(limiter.getSuppressedByKey()).toEqual({ console: 2 })
+  })
+
+  it('超过 maxKeys 时淘汰最久未使用的分组', () => {
+    const limiter = new KeyedRateLimiter({ maxCalls: 1, windowMs: 60_000, maxKeys: 2 })
+
+    limiter.tryAcquire('a')
+    limiter.tryAcquire('b')
+    limiter.tryAcquire('a')
+    limiter.tryAcquire('c')
+
+    // 最近使用过的 a 仍被限制，b 被淘汰后重新获得完整配额
+    expect(limiter.canAcquire('a')).toBe(false)
+    expect(limiter.canAcquire('b')).toBe(true)
+  })
+})
+
+describe('errorCatcher 限流', () => {
+  it('按指纹、来源与全局限额拒绝事件并记录拒绝的限额', () => {
+    const limits: ErrorEvents['ignored']['limit'][] = []
+    const catcher = new ErrorCatcher({
+      enableDeduplication: false,
+      maxErrorsPerFingerprint: 2,
+      maxErrorsPerSource: { console: 1, default: 0 },
+      maxErrorsPerMinute: 4,
+    })
+    catcher.on('ignored', ({ limit }) => limits.push(limit))
+
+    const repeated = new Error('repeated')
+    for (let i = 0; i < 3; i++) {
+      catcher.captureError(repeated)
+    }
+    for (let i = 0; i < 2; i++) {
+      catcher.captureEvent(catcher.createErrorInfo(new Error(`console ${i}`), ErrorSource.CONSOLE))
+    }
+    for (let i = 0; i < 3; i++) {
+      catcher.captureError(new Error(`manual ${i}`))
+    }
+
+    expect(limits).toEqual(['fingerprint', 'source', 'global', 'global'])
+    expect(catcher.getRateLimitStats()).toEqual({ global: 2, fingerprint: 1, source: 1, sources: { console: 1 } })
+  })
+
+  it('被某一限额拒绝的事件不消耗其他限额', () => {
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ enableDeduplication: false, maxErrorsPerFingerprint: 1, maxErrorsPerMinute: 2, onError })
+    const repeated = new Error('repeated')
+
+    for (let i = 0; i < 5; i++) {
+      catcher.captureError(repeated)
+    }
+    catcher.captureError(new Error('other'))
+
+    expect(onError).toHaveBeenCalledTimes(2)
+  })
+})
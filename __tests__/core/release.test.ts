@@ -0,0 +1,64 @@
+import type { ErrorInfo, Integration } from '../../packages/core/src'
+import { describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, SDK_NAME, VERSION } from '../../packages/core/src'
+
+describe('errorCatcher 版本信息', () => {
+  it('每个事件携带 release、environment、dist 与 SDK 信息', () => {
+    const custom: Integration = { name: 'Custom', setup: () => {} }
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({
+      release: 'shop@1.2.3',
+      environment: 'staging',
+      dist: '42',
+      integrations: () => [custom],
+      onError: error => errors.push(error),
+    })
+
+    catcher.captureError(new Error('boom'))
+    catcher.captureMessage('slow')
+
+    for (const error of errors) {
+      expect(error).toMatchObject({
+        release: 'shop@1.2.3',
+        environment: 'staging',
+        dist: '42',
+        sdk: { name: SDK_NAME, version: VERSION, integrations: ['Custom'] },
+      })
+    }
+  })
+
+  it('未配置 environment 时按运行环境推断', () => {
+    const onError = vi.fn()
+
+    new ErrorCatcher({ onError }).captureError(new Error('boom'))
+
+    // vitest 中 import.meta.env.DEV 为 true
+    expect(onError.mock.calls[0][0].environment).toBe('development')
+  })
+
+  it('限定环境的忽略规则只在对应环境中生效', () => {
+    const rules = [{ pattern: 'debug', environments: ['development'] }, { environments: ['test'] }]
+    const production = vi.fn()
+    const development = vi.fn()
+    const test = vi.fn()
+
+    new ErrorCatcher({ environment: 'production', ignorePatterns: rules, onError: production }).captureError(new Error('debug only'))
+    new ErrorCatcher({ environment: 'development', ignorePatterns: rules, onError: development }).captureError(new Error('debug only'))
+    new ErrorCatcher({ environment: 'test', ignorePatterns: rules, onError: test }).captureError(new Error('anything'))
+
+    expect(production).toHaveBeenCalledTimes(1)
+    expect(development).not.toHaveBeenCalled()
+    expect(test).not.toHaveBeenCalled()
+  })
+
+  it('fingerprintRelease 为 true 时不同版本的同一错误分开聚合', () => {
+    const fingerprintFor = (release: string, fingerprintRelease: boolean): string | undefined => {
+      const onError = vi.fn()
+      new ErrorCatcher({ release, fingerprintRelease, onError }).captureError(new Error('boom'))
+      return onError.mock.calls[0][0].fingerprint
+    }
+
+    expect(fingerprintFor('1.0.0', false)).toBe(fingerprintFor('1.0.1', false))
+    expect(fingerprintFor('1.0.0', true)).not.toBe(fingerprintFor('1.0.1', true))
+  })
+})
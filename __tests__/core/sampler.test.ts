@@ -0,0 +1,103 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { describe, expect, it, vi } from 'vitest'
+import { ErrorLevel, ErrorReporter, ErrorSampler, ErrorSource, hashToUnitInterval } from '../../packages/core/src'
+
+function createEvent(overrides: Partial<ErrorInfo> = {}): ErrorInfo {
+  return {
+    id: '1',
+    name: 'Error',
+    message: 'boom',
+    level: ErrorLevel.ERROR,
+    source: ErrorSource.RUNTIME,
+    timestamp: 0,
+    ...overrides,
+  }
+}
+
+/**
+ * 找到哈希值落在指定区间内的会话 ID
+ */
+function findSession(min: number, max: number): string {
+  for (let i = 0; ; i++) {
+    const id = `session-${i}`
+    const value = hashToUnitInterval(id)
+    if (value >= min && value < max) {
+      return id
+    }
+  }
+}
+
+describe('hashToUnitInterval', () => {
+  it('同一输入得到相同的 [0, 1) 值', () => {
+    const value = hashToUnitInterval('session-a')
+
+    expect(value).toBe(hashToUnitInterval('session-a'))
+    expect(value).toBeGreaterThanOrEqual(0)
+    expect(value).toBeLessThan(1)
+    expect(hashToUnitInterval('session-b')).not.toBe(value)
+  })
+})
+
+describe('errorSampler', () => {
+  it('按 sampler 回调、级别、来源、全局的优先级确定采样率', () => {
+    const sampler = new ErrorSampler({
+      sampleRate: 0.5,
+      levelSampleRates: { fatal: 1 },
+      sourceSampleRates: { console: 0.01 },
+      sampler: error => (error.message === 'custom' ? 2 : undefined),
+    })
+
+    expect(sampler.getRate(createEvent({ message: 'custom' }))).toBe(1)
+    expect(sampler.getRate(createEvent({ level: ErrorLevel.FATAL, source: ErrorSource.CONSOLE }))).toBe(1)
+    expect(sampler.getRate(createEvent({ source: ErrorSource.CONSOLE }))).toBe(0.01)
+    expect(sampler.getRate(createEvent())).toBe(0.5)
+  })
+
+  it('同一会话的采样结果一致，保留时返回实际采样率', () => {
+    const sampler = new ErrorSampler({ sampleRate: 0.5 })
+    const kept = findSession(0, 0.5)
+    const dropped = findSession(0.5, 1)
+
+    for (let i = 0; i < 20; i++) {
+      expect(sampler.sample(createEvent({ sessionId: kept, message: `${i}` }))).toBe(0.5)
+      expect(sampler.sample(createEvent({ sessionId: dropped, message: `${i}` }))).toBeNull()
+    }
+  })
+
+  it('关闭按会话采样或没有会话时使用随机数', () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.9)
+    const session = findSession(0, 0.5)
+
+    expect(new ErrorSampler({ sampleRate: 0.5, sessionSampling: false }).sample(createEvent({ sessionId: session }))).toBeNull()
+    expect(new ErrorSampler({ sampleRate: 0.5 }).sample(createEvent())).toBeNull()
+    expect(random).toHaveBeenCalledTimes(2)
+
+    random.mockRestore()
+  })
+
+  it('keepNewFingerprints 时新指纹首次出现必采', () => {
+    const sampler = new ErrorSampler({ sampleRate: 0.5, keepNewFingerprints: true })
+    const session = findSession(0.5, 1)
+
+    expect(sampler.sample(createEvent({ sessionId: session, fingerprint: 'a' }))).toBe(1)
+    expect(sampler.sample(createEvent({ sessionId: session, fingerprint: 'a' }))).toBeNull()
+    expect(new ErrorSampler({ sampleRate: 0.5 }).sample(createEvent({ sessionId: session, fingerprint: 'a' }))).toBeNull()
+  })
+})
+
+describe('errorReporter 采样', () => {
+  it('队列中的事件记录采样率，setOptions 更新采样配置', async () => {
+    const reporter = new ErrorReporter({ sampleRate: 0.5, batchSize: 100, enableOfflineCache: false })
+    const kept = findSession(0, 0.5)
+
+    reporter.report(createEvent({ id: 'a', sessionId: kept }))
+    reporter.report(createEvent({ id: 'b', sessionId: findSession(0.5, 1) }))
+    reporter.setOptions({ sampleRate: 0 })
+    reporter.report(createEvent({ id: 'c', sessionId: kept }))
+
+    expect(reporter.getQueue().map(event => [event.id, event.sampleRate])).toEqual([['a', 0.5]])
+
+    reporter.clearQueue()
+    await reporter.destroy()
+  })
+})
@@ -0,0 +1,89 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorSource, Scope } from '../../packages/core/src'
+
+function createCatcher(): { catcher: ErrorCatcher, errors: ErrorInfo[] } {
+  const errors: ErrorInfo[] = []
+  const catcher = new ErrorCatcher({ enableDeduplication: false, onError: error => errors.push(error) })
+  return { catcher, errors }
+}
+
+describe('scope', () => {
+  it('合并到事件时事件自身的值优先', () => {
+    const scope = new Scope()
+      .setTags({ page: 'cart', env: 'prod' })
+      .setExtra('cartSize', 3)
+      .setContext('order', { id: 'o-1' })
+      .setUser({ id: 42, email: 'a@b.com' })
+    const event: ErrorInfo = {
+      id: '1',
+      name: 'Error',
+      message: 'boom',
+      level: ErrorLevel.ERROR,
+      source: ErrorSource.MANUAL,
+      timestamp: 0,
+      tags: { page: 'checkout' },
+    }
+
+    scope.applyToEvent(event)
+
+    expect(event).toMatchObject({
+      tags: { page: 'checkout', env: 'prod' },
+      extra: { cartSize: 3 },
+      contexts: { order: { id: 'o-1' } },
+      user: { id: 42 },
+      userId: '42',
+    })
+  })
+
+  it('clone 后互不影响，setContext(null) 移除上下文', () => {
+    const scope = new Scope().setTag('a', '1').setContext('app', { v: 1 })
+    const copy = scope.clone().setTag('b', '2').setContext('app', null)
+
+    expect(scope.getTags()).toEqual({ a: '1' })
+    expect(scope.getContexts()).toEqual({ app: { v: 1 } })
+    expect(copy.getTags()).toEqual({ a: '1', b: '2' })
+    expect(copy.getContexts()).toEqual({})
+  })
+})
+
+describe('errorCatcher 作用域', () => {
+  it('withScope 中的修改只作用于回调内捕获的错误', () => {
+    const { catcher, errors } = createCatcher()
+    catcher.setTag('app', 'shop')
+
+    catcher.withScope((scope) => {
+      scope.setTag('step', 'payment')
+      catcher.captureError(new Error('inside'))
+    })
+    catcher.captureError(new Error('outside'))
+
+    expect(errors[0].tags).toEqual({ app: 'shop', step: 'payment' })
+    expect(errors[1].tags).toEqual({ app: 'shop' })
+  })
+
+  it('withScope 回调抛出时同样恢复作用域', () => {
+    const { catcher } = createCatcher()
+
+    expect(() => catcher.withScope((scope) => {
+      scope.setTag('step', 'payment')
+      throw new Error('callback')
+    })).toThrow('callback')
+    expect(catcher.getScope().getTags()).toEqual({})
+  })
+
+  it('pushScope 继承当前数据，popScope 不会弹出根作用域', () => {
+    const { catcher, errors } = createCatcher()
+    catcher.setUser('u-1')
+
+    catcher.pushScope().setExtra('retry', 1)
+    catcher.captureError(new Error('pushed'))
+    expect(catcher.popScope()).toBe(true)
+    expect(catcher.popScope()).toBe(false)
+    catcher.captureError(new Error('root'))
+
+    expect(errors[0]).toMatchObject({ userId: 'u-1', extra: { retry: 1 } })
+    expect(errors[1].userId).toBe('u-1')
+    expect(errors[1].extra).toBeUndefined()
+  })
+})
@@ -0,0 +1,150 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { ErrorLevel, ErrorSource, hashString, Scrubber } from '../../packages/core/src'
+
+describe('scrubber', () => {
+  describe('值模式', () => {
+    const scrubber = new Scrubber()
+
+    it('清洗邮箱与手机号', () => {
+      expect(scrubber.scrubString('联系 13812345678')).toBe('联系 13*******78')
+      expect(scrubber.scrubString('联系 +86 13812345678')).toBe('联系 +8***********78')
+      expect(scrubber.scrubString('mail: alice@example.com')).toBe('mail: al*************om')
+    })
+
+    it('清洗身份证号', () => {
+      expect(scrubber.scrubString('id=11010519491231002X;')).toBe('id=11**************2X;')
+      // 日期无效时不匹配
+      expect(scrubber.scrubString('110105194913310021')).not.toContain('*')
+    })
+
+    it('银行卡号需要通过 Luhn 校验', () => {
+      expect(scrubber.scrubString('card 4111 1111 1111 1111')).toBe('card 41***************11')
+      expect(scrubber.scrubString('card 4111111111111111')).toBe('card 41************11')
+      expect(scrubber.scrubString('order 4111111111111112')).toBe('order 4111111111111112')
+    })
+
+    it('清洗 Bearer 令牌与 JWT', () => {
+      expect(scrubber.scrubString('Authorization: Bearer abcdefgh12345678')).toBe('Authorization: Bearer ab************78')
+      expect(scrubber.scrubString('token eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl')).toBe('token ey******************************Jl')
+    })
+
+    it('保留匹配前的字符，相邻数字不构成匹配', () => {
+      expect(scrubber.scrubString('13812345678,13987654321')).toBe('13*******78,13*******21')
+      expect(scrubber.scrubString('订单 913812345678')).toBe('订单 913812345678')
+      expect(scrubber.scrubString('x11010519491231002X')).toBe('x11**************2X')
+      expect(scrubber.scrubString('#4111111111111111')).toBe('#41************11')
+      expect(scrubber.scrubString('Basic dXNlcjpwYXNzd29yZA==')).toBe('Basic dX****************==')
+    })
+
+    it('清洗敏感的查询参数', () => {
+      expect(scrubber.scrubString('https://api.com/login?password=hunter2&page=1')).toBe('https://api.com/login?password=hu***r2&page=1')
+      expect(scrubber.scrubString('https://api.com/?api%5Fkey=abcdef')).toBe('https://api.com/?api%5Fkey=ab**ef')
+    })
+
+    it('只启用指定的模式并支持自定义模式', () => {
+      const custom = new Scrubber({ patterns: ['email'], customPatterns: [/ORD-\d+/] })
+
+      expect(custom.scrubString('13812345678 alice@example.com')).toBe('13812345678 al*************om')
+      expect(custom.scrubString('ORD-1234 ORD-5678')).toBe('OR****34 OR****78')
+    })
+  })
+
+  describe('替换策略', () => {
+    const data = { password: 'hunter2', pin: 1234, nested: { token: 'abc' }, note: 'alice@example.com' }
+
+    it('mask 保留首尾字符', () => {
+      const scrubber = new Scrubber({ denyKeys: ['password', 'token', 'pin'] })
+
+      expect(scrubber.scrubValue(data)).toEqual({
+        password: 'hu***r2',
+        pin: '[Filtered]',
+        nested: { token: '***' },
+        note: 'al*************om',
+      })
+    })
+
+    it('hash 对相同的值得到相同的结果', () => {
+      const scrubber = new Scrubber({ strategy: 'hash', denyKeys: ['password', 'token', 'pin'] })
+      const result = scrubber.scrubValue(data)
+
+      expect(result.password).toBe(`[hash:${hashString('hunter2')}]`)
+      expect(result.pin).toBe(`[hash:${hashString('1234')}]`)
+      expect(scrubber.scrubString('alice@example.com')).toBe(result.note)
+    })
+
+    it('remove 删除命中键名的字段', () => {
+      const scrubber = new Scrubber({ strategy: 'remove', denyKeys: ['password', 'token', 'pin'] })
+
+      expect(scrubber.scrubValue(data)).toEqual({ nested: {}, note: '[Filtered]' })
+    })
+
+    it('已清洗的值不会被再次处理', () => {
+      const scrubber = new Scrubber({ strategy: 'hash' })
+      const once = scrubber.scrubValue(data)
+
+      expect(scrubber.scrubValue(once)).toEqual(once)
+    })
+  })
+
+  describe('键名', () => {
+    it('allowKeys 优先于 denyKeys', () => {
+      const scrubber = new Scrubber({ denyKeys: ['token', /^x-api-/i], allowKeys: ['csrfToken'] })
+
+      expect(scrubber.isDeniedKey('accessToken')).toBe(true)
+      expect(scrubber.isDeniedKey('X-Api-Key')).toBe(true)
+      expect(scrubber.isDeniedKey('csrfToken')).toBe(false)
+      expect(scrubber.isDeniedKey('username')).toBe(false)
+    })
+
+    it('超过最大深度与循环引用替换为 [Filtered]', () => {
+      const scrubber = new Scrubber({ maxDepth: 2 })
+      const shared = { value: 1 }
+      const cyclic: Record<string, unknown> = { a: shared, b: shared, deep: { inner: { value: 1 } } }
+      cyclic.self = cyclic
+
+      expect(scrubber.scrubValue(cyclic)).toEqual({
+        a: { value: 1 },
+        b: { value: 1 },
+        deep: { inner: '[Filtered]' },
+        self: '[Filtered]',
+      })
+    })
+
+    it('非普通对象保持原样', () => {
+      const date = new Date(0)
+
+      expect(new Scrubber().scrubValue({ date }).date).toBe(date)
+    })
+  })
+
+  it('清洗事件且不修改传入的对象', () => {
+    const scrubber = new Scrubber()
+    const event: ErrorInfo = {
+      id: '1',
+      name: 'Error',
+      message: 'User alice@example.com not found',
+      level: ErrorLevel.ERROR,
+      source: ErrorSource.RUNTIME,
+      timestamp: 0,
+      url: 'https://app.com/?token=abcdef',
+      extra: { password: 'hunter2' },
+      tags: { phone: '13812345678' },
+      breadcrumbs: [{ type: 'fetch', category: 'fetch', message: 'GET /?password=hunter2', timestamp: 0, data: { authorization: 'Bearer abcdefgh12345678' } }],
+      exceptions: [{ name: 'Error', message: 'mail bob@example.com', relation: 'cause', parentIndex: 0, depth: 1 }],
+    }
+    const snapshot = structuredClone(event)
+
+    const result = scrubber.scrubEvent(event)
+
+    expect(result.message).toBe('User al*************om not found')
+    expect(result.url).toBe('https://app.com/?token=ab**ef')
+    expect(result.extra).toEqual({ password: 'hu***r2' })
+    expect(result.tags).toEqual({ phone: '13*******78' })
+    expect(result.breadcrumbs?.[0].message).toBe('GET /?password=hu***r2')
+    expect(result.breadcrumbs?.[0].data).toEqual({ authorization: 'Be*******************78' })
+    expect(result.exceptions?.[0].message).toBe('mail bo***********om')
+    expect(event).toEqual(snapshot)
+    expect(new Scrubber({ enabled: false }).scrubEvent(event)).toBe(event)
+  })
+})
@@ -0,0 +1,123 @@
+import type { ErrorInfo, Session } from '../../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCatcher, ErrorLevel, ErrorSource, SessionManager } from '../../packages/core/src'
+
+const STORAGE_KEY = 'ldesign_error_session'
+
+function createEvent(level: ErrorLevel): ErrorInfo {
+  return { id: '1', name: 'Error', message: 'boom', level, source: ErrorSource.MANUAL, timestamp: 0 }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  sessionStorage.clear()
+})
+
+describe('sessionManager', () => {
+  it('状态只向更严重的方向变化，并为事件分配递增序号', () => {
+    const onChange = vi.fn<(session: Session) => void>()
+    const sessions = new SessionManager({ persist: false, onChange })
+
+    expect(sessions.recordError(createEvent(ErrorLevel.WARNING))).toBe(1)
+    expect(sessions.getSession()).toMatchObject({ status: 'ok', errors: 0 })
+
+    sessions.recordError(createEvent(ErrorLevel.FATAL))
+    sessions.recordError(createEvent(ErrorLevel.ERROR))
+
+    expect(sessions.getSession()).toMatchObject({ status: 'crashed', errors: 2, sequence: 3, init: true })
+    expect(onChange.mock.calls.map(([session]) => session.status)).toEqual(['crashed'])
+  })
+
+  it('超过无活动超时后以原状态结束旧会话并开启新会话', () => {
+    vi.useFakeTimers({ now: 0 })
+    const onChange = vi.fn<(session: Session) => void>()
+    const sessions = new SessionManager({ persist: false, inactivityTimeout: 1000, onChange })
+    const first = sessions.getSessionId()
+    sessions.recordError(createEvent(ErrorLevel.ERROR))
+
+    vi.setSystemTime(500)
+    sessions.touch()
+    expect(sessions.getSessionId()).toBe(first)
+
+    vi.setSystemTime(2000)
+    sessions.touch()
+
+    expect(sessions.getSessionId()).not.toBe(first)
+    expect(onChange.mock.calls.map(([session]) => [session.sid === first, session.status, session.duration])).toEqual([
+      [true, 'errored', undefined],
+      [true, 'errored', 500],
+      [false, 'ok', undefined],
+    ])
+  })
+
+  it('从 sessionStorage 恢复未超时且未结束的会话', () => {
+    const first = new SessionManager()
+    first.recordError(createEvent(ErrorLevel.ERROR))
+
+    const restored = new SessionManager()
+    expect(restored.getSession()).toMatchObject({ sid: first.getSessionId(), errors: 1, sequence: 1, init: false })
+
+    restored.end()
+    expect(new SessionManager().getSessionId()).not.toBe(first.getSessionId())
+  })
+
+  it('end 时正常会话记为 exited，flush 只返回有变化的会话', () => {
+    const sessions = new SessionManager({ persist: false })
+
+    expect(sessions.flush()).toMatchObject({ status: 'ok' })
+    expect(sessions.flush()).toBeNull()
+
+    sessions.end()
+    expect(sessions.isEnded()).toBe(true)
+    expect(sessions.getSession().status).toBe('exited')
+  })
+})
+
+describe('errorCatcher 会话', () => {
+  it('事件携带会话 ID 与序号，错误更新会话状态', () => {
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({ onError: error => errors.push(error) })
+
+    catcher.captureMessage('slow', ErrorLevel.WARNING)
+    catcher.captureError(new Error('boom'))
+
+    expect(errors.map(error => [error.sessionId, error.sequence])).toEqual([
+      [catcher.getSessionId(), 1],
+      [catcher.getSessionId(), 2],
+    ])
+    expect(catcher.getSession()).toMatchObject({ status: 'errored', errors: 1 })
+    expect(JSON.parse(sessionStorage.getItem(STORAGE_KEY)!).sid).toBe(catcher.getSessionId())
+  })
+
+  it('安装时发送会话，startSession 开启新会话', () => {
+    const sessions: Session[] = []
+    const catcher = new ErrorCatcher()
+    catcher.on('session', session => sessions.push(session))
+
+    catcher.install()
+    const first = catcher.getSessionId()
+    catcher.startSession()
+    catcher.uninstall()
+
+    expect(sessions.map(session => [session.sid === first, session.status])).toEqual([
+      [true, 'ok'],
+      [true, 'exited'],
+      [false, 'ok'],
+    ])
+  })
+
+  it('enableSession 为 false 时不跟踪会话也不写入存储', () => {
+    const onSession = vi.fn()
+    const onError = vi.fn()
+    const catcher = new ErrorCatcher({ enableSession: false, onError })
+    catcher.on('session', onSession)
+
+    catcher.install()
+    catcher.captureError(new Error('boom'))
+    catcher.uninstall()
+
+    expect(onSession).not.toHaveBeenCalled()
+    expect(onError.mock.calls[0][0].sequence).toBeUndefined()
+    expect(sessionStorage.getItem(STORAGE_KEY)).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import type { RawSourceMap } from '../../packages/core/src/symbolication'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ErrorLevel, ErrorSource } from '../../packages/core/src'
+import { decodeVlq, SourceMap, Symbolicator } from '../../packages/core/src/symbolication'
+
+const RAW_MAP: RawSourceMap = {
+  version: 3,
+  file: 'app.min.js',
+  sources: ['src/app.ts'],
+  sourcesContent: ['const foo = 1\nfoo()'],
+  names: ['foo'],
+  mappings: 'AAAAA,SAAS;AACA',
+}
+
+describe('decodeVlq', () => {
+  it('解码多字段与连续位', () => {
+    expect(decodeVlq('AAgBC')).toEqual([0, 0, 16, 1])
+    expect(decodeVlq('D')).toEqual([-1])
+    expect(decodeVlq('F')).toEqual([-2])
+  })
+
+  it('无效字符与不完整序列抛出错误', () => {
+    expect(() => decodeVlq('A!')).toThrow('Invalid VLQ character')
+    expect(() => decodeVlq('g')).toThrow('Incomplete VLQ sequence')
+  })
+})
+
+describe('sourceMap', () => {
+  it('查找原始位置与标识符名称', () => {
+    const map = new SourceMap(RAW_MAP)
+
+    expect(map.originalPositionFor(1, 5)).toEqual({ source: 'src/app.ts', line: 1, column: 1, name: 'foo' })
+    expect(map.originalPositionFor(1, 12)).toEqual({ source: 'src/app.ts', line: 1, column: 10, name: undefined })
+    expect(map.originalPositionFor(2, 1)).toMatchObject({ line: 2, column: 10 })
+    expect(map.originalPositionFor(3, 1)).toBeNull()
+  })
+
+  it('拼接 sourceRoot 并读取内嵌源码', () => {
+    const map = new SourceMap({ ...RAW_MAP, sourceRoot: '/static/' })
+
+    expect(map.sources).toEqual(['/static/src/app.ts'])
+    expect(map.sourceContentFor('/static/src/app.ts')).toBe('const foo = 1\nfoo()')
+    expect(map.sourceContentFor('src/other.ts')).toBeUndefined()
+  })
+
+  it('保留 webpack:/// 等协议前缀中的斜杠', () => {
+    expect(new SourceMap({ ...RAW_MAP, sourceRoot: 'webpack:///' }).sources).toEqual(['webpack:///src/app.ts'])
+    expect(new SourceMap({ ...RAW_MAP, sourceRoot: 'webpack:///app' }).sources).toEqual(['webpack:///app/src/app.ts'])
+  })
+
+  it('parse 去除防 XSSI 前缀并校验版本', () => {
+    const map = SourceMap.parse(`)]}'\n${JSON.stringify(RAW_MAP)}`)
+    expect(map.file).toBe('app.min.js')
+
+    expect(() => SourceMap.parse({ ...RAW_MAP, version: 2 })).toThrow('Unsupported source map version: 2')
+  })
+
+  it('支持分段索引格式', () => {
+    const map = SourceMap.parse({
+      version: 3,
+      sections: [
+        { offset: { line: 0, column: 0 }, map: RAW_MAP },
+        { offset: { line: 10, column: 4 }, map: { ...RAW_MAP, sources: ['src/lib.ts'] } },
+      ],
+    })
+
+    expect(map.originalPositionFor(1, 1)).toMatchObject({ source: 'src/app.ts', line: 1 })
+    expect(map.originalPositionFor(11, 14)).toMatchObject({ source: 'src/lib.ts', line: 1, column: 10 })
+    expect(map.sourceContentFor('src/lib.ts')).toBe('const foo = 1\nfoo()')
+  })
+})
+
+describe('symbolicator', () => {
+  it('使用内存中的 Source Map 还原堆栈与上下文', async () => {
+    const symbolicator = new Symbolicator({ maps: { 'app.min.js': RAW_MAP } })
+    const errorInfo: ErrorInfo = {
+      id: '1',
+      name: 'Error',
+      message: 'boom',
+      level: ErrorLevel.ERROR,
+      source: ErrorSource.RUNTIME,
+      timestamp: 0,
+      stack: [
+        'Error: boom',
+        '    at a (https://app.com/app.min.js?v=1:1:12)',
+        '    at b (https://app.com/app.min.js?v=1:1:3)',
+      ].join('\n'),
+    }
+
+    const result = await symbolicator.symbolicate(errorInfo)
+
+    expect(result.frames?.[0]).toMatchObject({
+      functionName: 'foo',
+      fileName: 'src/app.ts',
+      lineNumber: 1,
+      columnNumber: 10,
+      contextLine: 'const foo = 1',
+      postContext: ['foo()'],
+    })
+    expect(result.frames?.[1].functionName).toBe('b')
+    expect(errorInfo.frames).toBeUndefined()
+  })
+
+  describe('本地文件', () => {
+    const { sourcesContent: _, ...mapWithoutContent } = RAW_MAP
+    let root: string
+    let assets: string
+
+    const createEvent = (fileName: string): ErrorInfo => ({
+      id: '1',
+      name: 'Error',
+      message: 'boom',
+      level: ErrorLevel.ERROR,
+      source: ErrorSource.RUNTIME,
+      timestamp: 0,
+      stack: `Error: boom\n    at a (${fileName}:1:12)`,
+    })
+
+    beforeAll(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'symbolicator-'))
+      assets = path.join(root, 'assets')
+      fs.mkdirSync(path.join(assets, 'src'), { recursive: true })
+      fs.writeFileSync(path.join(root, 'secret.ts'), 'const secret = 1')
+      fs.writeFileSync(path.join(root, 'outside.js.map'), JSON.stringify(RAW_MAP))
+      fs.writeFileSync(path.join(assets, 'src', 'app.ts'), 'const foo = 1\nfoo()')
+      fs.writeFileSync(path.join(assets, 'app.min.js.map'), JSON.stringify(mapWithoutContent))
+      fs.writeFileSync(path.join(assets, 'leak.min.js.map'), JSON.stringify({ ...mapWithoutContent, sources: ['../secret.ts'] }))
+      fs.writeFileSync(path.join(assets, 'escape.min.js'), 'foo()\n//# sourceMappingURL=../outside.js.map')
+    })
+
+    afterAll(() => {
+      fs.rmSync(root, { recursive: true, force: true })
+    })
+
+    it('从 directory 读取 Source Map 与源文件', async () => {
+      const result = await new Symbolicator({ directory: assets }).symbolicate(createEvent('https://app.com/app.min.js'))
+
+      expect(result.frames?.[0]).toMatchObject({ fileName: 'src/app.ts', contextLine: 'const foo = 1' })
+    })
+
+    it('不读取越出 directory 的 sourceMappingURL 与源文件', async () => {
+      const symbolicator = new Symbolicator({ directory: assets })
+
+      const escaped = await symbolicator.symbolicate(createEvent('https://app.com/escape.min.js'))
+      const leaked = await symbolicator.symbolicate(createEvent('https://app.com/leak.min.js'))
+
+      expect(escaped.frames?.[0].fileName).toBe('https://app.com/escape.min.js')
+      expect(leaked.frames?.[0].fileName).toBe('../secret.ts')
+      expect(leaked.frames?.[0].contextLine).toBeUndefined()
+    })
+
+    it('堆栈中的本地路径只在开启 allowLocalPaths 时读取', async () => {
+      const fileName = `file://${path.join(root, 'outside.js')}`
+
+      const denied = await new Symbolicator({ directory: assets }).symbolicate(createEvent(fileName))
+      const allowed = await new Symbolicator({ allowLocalPaths: true }).symbolicate(createEvent(fileName))
+
+      expect(denied.frames?.[0].fileName).toBe(fileName)
+      expect(allowed.frames?.[0]).toMatchObject({ fileName: 'src/app.ts', contextLine: 'const foo = 1' })
+    })
+  })
+})
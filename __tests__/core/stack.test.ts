@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { isInAppFile, parseStack } from '../../packages/core/src'
+
+describe('parseStack', () => {
+  it('返回空数组：无堆栈', () => {
+    expect(parseStack()).toEqual([])
+    expect(parseStack('')).toEqual([])
+  })
+
+  it('解析 Chrome/V8 堆栈', () => {
+    const frames = parseStack([
+      'TypeError: Cannot read properties of undefined (reading \'id\')',
+      '    at handleClick (https://app.com/assets/main.js:10:25)',
+      '    at async loadUser (https://app.com/assets/main.js:42:7)',
+      '    at https://app.com/assets/vendor.js:1:300',
+      '    at new Store (https://app.com/assets/main.js:5:3)',
+    ].join('\n'))
+
+    expect(frames).toHaveLength(4)
+    expect(frames[0]).toMatchObject({
+      functionName: 'handleClick',
+      fileName: 'https://app.com/assets/main.js',
+      lineNumber: 10,
+      columnNumber: 25,
+      inApp: true,
+    })
+    expect(frames[1].functionName).toBe('loadUser')
+    expect(frames[2]).toMatchObject({ functionName: '<anonymous>', fileName: 'https://app.com/assets/vendor.js', lineNumber: 1 })
+    expect(frames[3].functionName).toBe('new Store')
+  })
+
+  it('解析 Firefox 堆栈', () => {
+    const frames = parseStack([
+      'handleClick@https://app.com/assets/main.js:10:25',
+      '@https://app.com/assets/main.js:20:1',
+      'loadUser/<@https://app.com/assets/main.js:42:7',
+    ].join('\n'))
+
+    expect(frames).toHaveLength(3)
+    expect(frames[0]).toMatchObject({ functionName: 'handleClick', lineNumber: 10, columnNumber: 25 })
+    expect(frames[1]).toMatchObject({ functionName: '<anonymous>', lineNumber: 20, columnNumber: 1 })
+    expect(frames[2].functionName).toBe('loadUser/<')
+  })
+
+  it('解析 Safari 堆栈', () => {
+    const frames = parseStack([
+      'handleClick@https://app.com/assets/main.js:10:25',
+      'global code@https://app.com/assets/main.js:1:1',
+      'eval code@',
+      'map@[native code]',
+    ].join('\n'))
+
+    expect(frames).toHaveLength(4)
+    expect(frames[1]).toMatchObject({ functionName: 'global code', lineNumber: 1 })
+    expect(frames[2]).toEqual({ functionName: 'eval code', inApp: false, raw: 'eval code@' })
+    expect(frames[3]).toMatchObject({ functionName: 'map', native: true, inApp: false })
+  })
+
+  it('解析 eval 与 new Function 帧', () => {
+    const [chrome] = parseStack('    at eval (eval at run (https://app.com/main.js:12:9), <anonymous>:1:5)')
+    expect(chrome).toMatchObject({ functionName: 'eval', fileName: 'https://app.com/main.js', lineNumber: 12, columnNumber: 9 })
+
+    const [firefox] = parseStack('run@https://app.com/main.js line 12 > eval:1:5')
+    expect(firefox).toMatchObject({ functionName: 'run', fileName: 'https://app.com/main.js', lineNumber: 12 })
+    expect(firefox.columnNumber).toBeUndefined()
+
+    const [fn] = parseStack('anonymous@https://app.com/main.js line 30 > Function:2:1')
+    expect(fn).toMatchObject({ fileName: 'https://app.com/main.js', lineNumber: 30 })
+  })
+
+  it('标记原生帧', () => {
+    const frames = parseStack([
+      '    at Array.map (<anonymous>)',
+      '    at JSON.parse (native)',
+      '[native code]',
+    ].join('\n'))
+
+    expect(frames.map(frame => frame.native)).toEqual([true, true, true])
+    expect(frames.every(frame => frame.inApp === false)).toBe(true)
+    expect(frames[0].functionName).toBe('Array.map')
+  })
+
+  it('跳过错误消息与无法识别的行', () => {
+    const frames = parseStack([
+      'Error: failed to load user@example.com',
+      '',
+      '    at load (https://app.com/main.js:1:1)',
+    ].join('\n'))
+
+    expect(frames).toHaveLength(1)
+    expect(frames[0].functionName).toBe('load')
+  })
+
+  it('按 inAppInclude / inAppExclude 标记应用代码', () => {
+    const stack = [
+      '    at a (https://app.com/node_modules/vue/dist/vue.js:1:1)',
+      '    at b (node:internal/process/task_queues:95:5)',
+      '    at c (chrome-extension://abc/content.js:1:1)',
+      '    at d (https://app.com/src/main.js:1:1)',
+    ].join('\n')
+
+    expect(parseStack(stack).map(frame => frame.inApp)).toEqual([false, false, false, true])
+    expect(parseStack(stack, { inAppInclude: ['/node_modules/vue/'] })[0].inApp).toBe(true)
+  })
+})
+
+describe('isInAppFile', () => {
+  it('配置 inAppInclude 时未命中的文件不是应用代码', () => {
+    expect(isInAppFile('https://app.com/main.js', { inAppInclude: [/\/src\//] })).toBe(false)
+    expect(isInAppFile('https://app.com/src/main.js', { inAppInclude: [/\/src\//] })).toBe(true)
+  })
+})
@@ -0,0 +1,71 @@
+import type { ErrorInfo } from '../../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { createWorkerErrorMessage, ErrorCatcher, ErrorLevel, ErrorSource, installWorkerErrorCatcher, isWorkerErrorMessage, WORKER_ERROR_MESSAGE_TYPE } from '../../packages/core/src'
+
+function createError(overrides: Partial<ErrorInfo> = {}): ErrorInfo {
+  return {
+    id: 'w-1',
+    name: 'TypeError',
+    message: 'x is not a function',
+    level: ErrorLevel.ERROR,
+    source: ErrorSource.RUNTIME,
+    timestamp: 0,
+    ...overrides,
+  }
+}
+
+describe('worker 转发消息', () => {
+  it('序列化时去除不可克隆的值', () => {
+    const message = createWorkerErrorMessage(createError({ extra: { callback: () => {}, id: 1 } }), 'dedicated')
+
+    expect(message).toMatchObject({ type: WORKER_ERROR_MESSAGE_TYPE, workerType: 'dedicated', scriptUrl: location.href })
+    expect(message.error.extra).toEqual({ id: 1 })
+    expect(() => structuredClone(message)).not.toThrow()
+  })
+
+  it('识别转发消息', () => {
+    expect(isWorkerErrorMessage(createWorkerErrorMessage(createError(), 'shared'))).toBe(true)
+    expect(isWorkerErrorMessage({ type: WORKER_ERROR_MESSAGE_TYPE })).toBe(false)
+    expect(isWorkerErrorMessage('error')).toBe(false)
+  })
+})
+
+describe('errorCatcher.attachWorker', () => {
+  it('接收 Worker 转发的错误并合并主线程作用域', () => {
+    const errors: ErrorInfo[] = []
+    const catcher = new ErrorCatcher({ onError: error => errors.push(error) })
+    catcher.setTag('app', 'shop')
+    const worker = new EventTarget() as Worker
+    const message = {
+      ...createWorkerErrorMessage(createError(), 'dedicated'),
+      scriptUrl: 'https://app.com/worker.js',
+    }
+
+    const detach = catcher.attachWorker(worker)
+    worker.dispatchEvent(new MessageEvent('message', { data: message }))
+    worker.dispatchEvent(new MessageEvent('message', { data: { type: 'other' } }))
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({
+      message: 'x is not a function',
+      sessionId: catcher.getSessionId(),
+      tags: { app: 'shop', worker: 'https://app.com/worker.js' },
+      contexts: { worker: { type: 'dedicated', scriptUrl: 'https://app.com/worker.js' } },
+    })
+
+    detach()
+    worker.dispatchEvent(new MessageEvent('message', { data: { ...message, error: createError({ message: 'later' }) } }))
+    expect(errors).toHaveLength(1)
+  })
+})
+
+describe('installWorkerErrorCatcher', () => {
+  it('非 Worker 环境中不转发', () => {
+    const instance = installWorkerErrorCatcher()
+
+    expect(instance.reporter).toBeNull()
+    expect(() => instance.catcher.captureError(new Error('boom'))).not.toThrow()
+
+    instance.uninstall()
+  })
+})
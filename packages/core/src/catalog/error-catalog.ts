@@ -0,0 +1,207 @@
+/**
+ * 错误码目录
+ *
+ * @description 登记错误码的默认级别、面向用户的本地化文案、文档地址与恢复建议，
+ * 供 AppError、ErrorCatcher 与 UI 组件查询
+ *
+ * @example
+ * ```ts
+ * defaultErrorCatalog.register({
+ *   code: 'PAYMENT_FAILED',
+ *   level: ErrorLevel.ERROR,
+ *   title: { 'zh-CN': '支付失败', 'en': 'Payment failed' },
+ *   message: { 'zh-CN': '扣款未成功，请稍后重试', 'en': 'The charge did not go through.' },
+ *   docsUrl: 'https://help.example.com/payment',
+ *   hints: [{ 'zh-CN': '检查银行卡余额', 'en': 'Check your card balance' }],
+ * })
+ *
+ * defaultErrorCatalog.resolve('PAYMENT_FAILED', 'zh-CN')?.message
+ * // => '扣款未成功，请稍后重试'
+ * ```
+ */
+
+import type { ErrorLevel } from '../types'
+
+/**
+ * 本地化文本：纯字符串（不区分语言）或 语言 → 文本 映射
+ */
+export type LocalizedText = string | Record<string, string>
+
+/**
+ * 目录条目
+ */
+export interface ErrorCatalogEntry {
+  /** 错误码 */
+  code: string
+  /** 默认错误级别 */
+  level?: ErrorLevel
+  /** 面向用户的标题 */
+  title?: LocalizedText
+  /** 面向用户的消息 */
+  message: LocalizedText
+  /** 文档地址 */
+  docsUrl?: string
+  /** 恢复建议 */
+  hints?: LocalizedText[]
+}
+
+/**
+ * 按语言解析后的目录条目
+ */
+export interface ResolvedCatalogEntry {
+  /** 错误码 */
+  code: string
+  /** 默认错误级别 */
+  level?: ErrorLevel
+  /** 标题 */
+  title?: string
+  /** 消息 */
+  message: string
+  /** 文档地址 */
+  docsUrl?: string
+  /** 恢复建议 */
+  hints: string[]
+}
+
+/**
+ * 目录配置
+ */
+export interface ErrorCatalogOptions {
+  /** 当前语言，默认取 navigator.language，非浏览器环境为 fallbackLocale */
+  locale?: string
+  /** 回退语言 @default 'en' */
+  fallbackLocale?: string
+  /** 初始条目 */
+  entries?: ErrorCatalogEntry[]
+}
+
+/**
+ * 错误码目录
+ */
+export class ErrorCatalog {
+  /** 条目（错误码 → 条目） */
+  private entries = new Map<string, ErrorCatalogEntry>()
+
+  /** 当前语言 */
+  private locale: string
+
+  /** 回退语言 */
+  private fallbackLocale: string
+
+  /**
+   * @param options - 目录配置
+   */
+  constructor(options: ErrorCatalogOptions = {}) {
+    this.fallbackLocale = options.fallbackLocale ?? 'en'
+    this.locale = options.locale
+      ?? (typeof navigator !== 'undefined' && navigator.language ? navigator.language : this.fallbackLocale)
+    options.entries?.forEach(entry => this.entries.set(entry.code, entry))
+  }
+
+  /**
+   * 登记条目，同码条目会被覆盖
+   *
+   * @param entries - 单个或多个条目
+   */
+  register(entries: ErrorCatalogEntry | ErrorCatalogEntry[]): this {
+    const list = Array.isArray(entries) ? entries : [entries]
+    list.forEach(entry => this.entries.set(entry.code, entry))
+    return this
+  }
+
+  /**
+   * 移除条目
+   *
+   * @param code - 错误码
+   * @returns 是否存在并已移除
+   */
+  unregister(code: string): boolean {
+    return this.entries.delete(code)
+  }
+
+  /**
+   * 检查错误码是否已登记
+   *
+   * @param code - 错误码
+   */
+  has(code: string): boolean {
+    return this.entries.has(code)
+  }
+
+  /**
+   * 获取原始条目
+   *
+   * @param code - 错误码
+   */
+  get(code: string): ErrorCatalogEntry | undefined {
+    return this.entries.get(code)
+  }
+
+  /**
+   * 设置当前语言
+   *
+   * @param locale - 语言，如 `zh-CN`
+   */
+  setLocale(locale: string): this {
+    this.locale = locale
+    return this
+  }
+
+  /**
+   * 获取当前语言
+   */
+  getLocale(): string {
+    return this.locale
+  }
+
+  /**
+   * 按语言解析条目
+   *
+   * @param code - 错误码，为空时返回 undefined
+   * @param locale - 语言，默认当前语言
+   * @returns 解析后的条目，未登记时返回 undefined
+   */
+  resolve(code: string | undefined, locale = this.locale): ResolvedCatalogEntry | undefined {
+    const entry = code ? this.entries.get(code) : undefined
+    if (!entry) {
+      return undefined
+    }
+
+    return {
+      code: entry.code,
+      level: entry.level,
+      title: entry.title === undefined ? undefined : this.translate(entry.title, locale),
+      message: this.translate(entry.message, locale),
+      docsUrl: entry.docsUrl,
+      hints: (entry.hints ?? []).map(hint => this.translate(hint, locale)),
+    }
+  }
+
+  /**
+   * 翻译本地化文本
+   *
+   * @remarks
+   * 依次尝试：完整语言（zh-CN）→ 主语言（zh）→ 回退语言 → 第一个可用文本
+   *
+   * @param text - 本地化文本
+   * @param locale - 语言，默认当前语言
+   * @returns 文本
+   */
+  translate(text: LocalizedText, locale = this.locale): string {
+    if (typeof text === 'string') {
+      return text
+    }
+
+    const language = locale.split('-')[0]
+    return text[locale]
+      ?? text[language]
+      ?? text[this.fallbackLocale]
+      ?? Object.values(text)[0]
+      ?? ''
+  }
+}
+
+/**
+ * 默认错误码目录实例
+ */
+export const defaultErrorCatalog = new ErrorCatalog()
@@ -0,0 +1,6 @@
+/**
+ * 错误码目录模块
+ * @packageDocumentation
+ */
+
+export * from './error-catalog'
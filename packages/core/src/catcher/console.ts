@@ -0,0 +1,131 @@
+/**
+ * 控制台拦截
+ *
+ * @description 包装 console 方法，将每次调用转发给回调，同时保留原始输出
+ *
+ * @module catcher/console
+ */
+
+import type { ConsoleLevel } from '../types'
+
+/**
+ * 可拦截的控制台方法
+ */
+export const CONSOLE_METHODS: readonly ConsoleLevel[] = ['debug', 'log', 'info', 'warn', 'error']
+
+/**
+ * 控制台调用回调
+ */
+export type ConsoleCallHandler = (level: ConsoleLevel, args: unknown[]) => void
+
+/**
+ * 序列化单个控制台参数
+ *
+ * @param arg - 任意参数
+ * @param maxLength - 最大长度，默认 1000
+ * @returns 字符串表示
+ */
+export function serializeConsoleArg(arg: unknown, maxLength = 1000): string {
+  let text: string
+
+  if (typeof arg === 'string') {
+    text = arg
+  }
+  else if (arg instanceof Error) {
+    text = `${arg.name}: ${arg.message}`
+  }
+  else if (typeof arg === 'function') {
+    text = `[Function: ${arg.name || 'anonymous'}]`
+  }
+  else if (typeof arg === 'symbol' || typeof arg === 'bigint') {
+    text = arg.toString()
+  }
+  else if (typeof arg === 'object' && arg !== null) {
+    const seen = new WeakSet<object>()
+    try {
+      text = JSON.stringify(arg, (_key, value: unknown) => {
+        if (typeof value === 'bigint') {
+          return value.toString()
+        }
+        if (typeof value === 'object' && value !== null) {
+          if (seen.has(value)) {
+            return '[Circular]'
+          }
+          seen.add(value)
+        }
+        return value
+      }) ?? String(arg)
+    }
+    catch {
+      text = Object.prototype.toString.call(arg)
+    }
+  }
+  else {
+    text = String(arg)
+  }
+
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text
+}
+
+/**
+ * 序列化控制台参数列表
+ *
+ * @param args - 参数列表
+ * @returns 以空格连接的字符串
+ */
+export function serializeConsoleArgs(args: unknown[]): string {
+  return args.map(arg => serializeConsoleArg(arg)).join(' ')
+}
+
+/**
+ * 拦截控制台方法
+ *
+ * @remarks
+ * 回调执行期间再次调用 console 不会重复触发回调，避免递归
+ *
+ * @param handler - 每次调用的回调
+ * @returns 恢复原始方法的函数
+ */
+export function instrumentConsole(handler: ConsoleCallHandler): () => void {
+  if (typeof console === 'undefined') {
+    return () => {}
+  }
+
+  const originals = new Map<ConsoleLevel, (...args: unknown[]) => void>()
+  let isHandling = false
+
+  for (const level of CONSOLE_METHODS) {
+    // eslint-disable-next-line no-console
+    const original = console[level]
+    if (typeof original !== 'function') {
+      continue
+    }
+
+    originals.set(level, original)
+
+    // eslint-disable-next-line no-console
+    console[level] = function (...args: unknown[]): void {
+      if (!isHandling) {
+        isHandling = true
+        try {
+          handler(level, args)
+        }
+        catch {
+          // 忽略回调中的错误，不影响原始输出
+        }
+        finally {
+          isHandling = false
+        }
+      }
+
+      original.apply(console, args)
+    }
+  }
+
+  return () => {
+    originals.forEach((original, level) => {
+      // eslint-disable-next-line no-console
+      console[level] = original
+    })
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * DOM 与导航面包屑采集
+ *
+ * @description 自动记录点击、输入框交互与页面导航，输入值永远不会被记录
+ *
+ * @module catcher/dom-breadcrumbs
+ */
+
+import type { BreadcrumbInput } from '../types'
+import { ErrorLevel } from '../types'
+
+/**
+ * 面包屑回调
+ */
+export type BreadcrumbHandler = (breadcrumb: BreadcrumbInput) => void
+
+/** 选择器最大层级 */
+const MAX_SELECTOR_DEPTH = 5
+
+/** 每个元素最多保留的类名数量 */
+const MAX_CLASS_NAMES = 2
+
+/** 文本最大长度 */
+const MAX_TEXT_LENGTH = 50
+
+/** 可输入元素标签 */
+const INPUT_TAGS = ['INPUT', 'TEXTAREA', 'SELECT']
+
+/**
+ * 生成单个元素的选择器片段
+ */
+function getElementSegment(el: Element): string {
+  let segment = el.tagName.toLowerCase()
+
+  if (el.id) {
+    return `${segment}#${el.id}`
+  }
+
+  const classNames = typeof el.className === 'string'
+    ? el.className.trim().split(/\s+/).filter(Boolean).slice(0, MAX_CLASS_NAMES)
+    : []
+  if (classNames.length > 0) {
+    segment += `.${classNames.join('.')}`
+  }
+
+  for (const attr of ['name', 'type', 'role', 'data-testid']) {
+    const value = el.getAttribute(attr)
+    if (value) {
+      segment += `[${attr}="${value}"]`
+    }
+  }
+
+  return segment
+}
+
+/**
+ * 生成元素的 CSS 选择器
+ *
+ * @remarks
+ * 自元素向上最多取 5 层，遇到带 id 的祖先即停止
+ *
+ * @param el - DOM 元素
+ * @returns CSS 选择器，如 `div#app > ul.list > li > button.btn.primary`
+ */
+export function getElementSelector(el: Element): string {
+  const segments: string[] = []
+  let current: Element | null = el
+
+  while (current && segments.length < MAX_SELECTOR_DEPTH && current.tagName !== 'HTML') {
+    const segment = getElementSegment(current)
+    segments.unshift(segment)
+    if (current.id) {
+      break
+    }
+    current = current.parentElement
+  }
+
+  return segments.join(' > ')
+}
+
+/**
+ * 获取元素的可见文本（裁剪后）
+ *
+ * @remarks
+ * 可输入元素返回空字符串，避免记录用户输入
+ *
+ * @param el - DOM 元素
+ * @returns 折叠空白并截断后的文本
+ */
+export function getElementText(el: Element): string {
+  if (INPUT_TAGS.includes(el.tagName) || (el as HTMLElement).isContentEditable) {
+    return ''
+  }
+
+  const text = (el.textContent ?? '').replace(/\s+/g, ' ').trim()
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}...` : text
+}
+
+/**
+ * 判断是否为可输入元素
+ */
+function isInputElement(el: Element): boolean {
+  return INPUT_TAGS.includes(el.tagName) || (el as HTMLElement).isContentEditable
+}
+
+/**
+ * 采集点击面包屑
+ *
+ * @param handler - 面包屑回调
+ * @returns 停止采集的函数
+ */
+export function instrumentClicks(handler: BreadcrumbHandler): () => void {
+  const onClick = (event: Event): void => {
+    const target = event.target
+    if (!(target instanceof Element)) {
+      return
+    }
+
+    const selector = getElementSelector(target)
+    const text = getElementText(target)
+
+    handler({
+      type: 'click',
+      category: 'ui.click',
+      message: text ? `${selector} "${text}"` : selector,
+      data: {
+        selector,
+        tagName: target.tagName.toLowerCase(),
+        text: text || undefined,
+      },
+      level: ErrorLevel.INFO,
+    })
+  }
+
+  document.addEventListener('click', onClick, true)
+  return () => document.removeEventListener('click', onClick, true)
+}
+
+/**
+ * 采集输入框聚焦与变更面包屑（不记录输入值）
+ *
+ * @param handler - 面包屑回调
+ * @returns 停止采集的函数
+ */
+export function instrumentInputs(handler: BreadcrumbHandler): () => void {
+  const createListener = (action: 'focus' | 'change') => (event: Event): void => {
+    const target = event.target
+    if (!(target instanceof Element) || !isInputElement(target)) {
+      return
+    }
+
+    const selector = getElementSelector(target)
+
+    handler({
+      type: 'input',
+      category: `ui.${action}`,
+      message: selector,
+      data: {
+        selector,
+        tagName: target.tagName.toLowerCase(),
+        inputType: target.getAttribute('type') ?? undefined,
+      },
+      level: ErrorLevel.INFO,
+    })
+  }
+
+  const onFocus = createListener('focus')
+  const onChange = createListener('change')
+
+  document.addEventListener('focusin', onFocus, true)
+  document.addEventListener('change', onChange, true)
+
+  return () => {
+    document.removeEventListener('focusin', onFocus, true)
+    document.removeEventListener('change', onChange, true)
+  }
+}
+
+/**
+ * 解析为绝对地址
+ */
+function toAbsoluteUrl(url: string | URL | null | undefined): string {
+  if (url == null) {
+    return window.location.href
+  }
+  try {
+    return new URL(String(url), window.location.href).href
+  }
+  catch {
+    return String(url)
+  }
+}
+
+/**
+ * 采集导航面包屑（pushState / replaceState / popstate / hashchange）
+ *
+ * @param handler - 面包屑回调
+ * @returns 停止采集并恢复 history 方法的函数
+ */
+export function instrumentNavigation(handler: BreadcrumbHandler): () => void {
+  let lastHref = window.location.href
+
+  const record = (to: string, trigger: string): void => {
+    const from = lastHref
+    lastHref = to
+    if (from === to) {
+      return
+    }
+
+    handler({
+      type: 'navigation',
+      category: 'navigation',
+      message: `${from} -> ${to}`,
+      data: { from, to, trigger },
+      level: ErrorLevel.INFO,
+    })
+  }
+
+  const originalPushState = history.pushState
+  const originalReplaceState = history.replaceState
+
+  const wrapHistoryMethod = (
+    original: History['pushState'],
+    trigger: 'pushState' | 'replaceState',
+  ): History['pushState'] => {
+    return function (this: History, data: unknown, unused: string, url?: string | URL | null) {
+      const result = original.call(this, data, unused, url)
+      record(toAbsoluteUrl(url), trigger)
+      return result
+    }
+  }
+
+  const wrappedPushState = wrapHistoryMethod(originalPushState, 'pushState')
+  const wrappedReplaceState = wrapHistoryMethod(originalReplaceState, 'replaceState')
+  history.pushState = wrappedPushState
+  history.replaceState = wrappedReplaceState
+
+  const onPopState = (): void => record(window.location.href, 'popstate')
+  const onHashChange = (): void => record(window.location.href, 'hashchange')
+
+  window.addEventListener('popstate', onPopState)
+  window.addEventListener('hashchange', onHashChange)
+
+  return () => {
+    // 仅在未被其他代码再次包装时恢复
+    if (history.pushState === wrappedPushState) {
+      history.pushState = originalPushState
+    }
+    if (history.replaceState === wrappedReplaceState) {
+      history.replaceState = originalReplaceState
+    }
+    window.removeEventListener('popstate', onPopState)
+    window.removeEventListener('hashchange', onHashChange)
+  }
+}
@@ -12,27 +12,69 @@
  *   maxErrorsPerMinute: 50
  * })
  *
+ * catcher.on('ignored', ({ error, reason }) => console.debug(reason, error.id))
  * catcher.install()
  * ```
  */
 
-import type { Breadcrumb, BreadcrumbInput, ErrorCatcherOptions, ErrorInfo, ResolvedErrorCatcherOptions } from '../types'
+import type { Integration } from '../integrations/integration'
+import type { Session, SessionStatus } from '../session/session-manager'
+import type { AutoBreadcrumbsOptions, Breadcrumb, BreadcrumbInput, ErrorCatcherOptions, ErrorContexts, ErrorEventListener, ErrorEvents, ErrorInfo, RateLimitScope, RateLimitStats, ResolvedErrorCatcherOptions, SdkInfo, UserInfo } from '../types'
+import type { FingerprintOccurrence } from '../utils/fingerprint'
+import type { WorkerErrorMessage } from '../worker/relay'
+import type { EventProcessor, EventProcessorOptions, EventProcessorResult } from './event-processors'
+import { defaultErrorCatalog } from '../catalog/error-catalog'
+import { isLevelAtLeast, LevelClassifier } from '../classification/level-classifier'
+import { DEFAULT_CATCHER_OPTIONS, DEFAULT_IGNORE_PATTERNS, DEFAULT_IN_APP_EXCLUDE, SDK_NAME, VERSION } from '../constants'
+import { isAppError } from '../errors/app-error'
+import { getDefaultIntegrations, resolveIntegrations } from '../integrations/defaults'
+import { Scrubber } from '../privacy/scrubber'
+import { Scope } from '../scope'
+import { SessionManager } from '../session/session-manager'
 import { ErrorLevel, ErrorSource } from '../types'
-import { DEFAULT_CATCHER_OPTIONS, DEFAULT_IGNORE_PATTERNS } from '../constants'
+import { TypedEventEmitter } from '../utils/emitter'
+import { getCurrentUrl, getNodeRuntimeContext, getUserAgent, getWorkerType, isBrowser, isDev } from '../utils/env'
+import { getLinkedExceptions, normalizeError } from '../utils/error'
+import { FingerprintCache, generateFingerprint } from '../utils/fingerprint'
 import { generateErrorId } from '../utils/id'
-import { getCurrentUrl, getUserAgent, isBrowser } from '../utils/env'
-import { generateFingerprint, FingerprintCache } from '../utils/fingerprint'
-import { RateLimiter } from '../utils/throttle'
-import { normalizeError } from '../utils/error'
+import { normalizeEvent } from '../utils/normalize'
+import { parseStack } from '../utils/stack'
+import { KeyedRateLimiter, RateLimiter } from '../utils/throttle'
+import { isWorkerErrorMessage } from '../worker/relay'
+import { EventProcessorPipeline } from './event-processors'
+
+/**
+ * 解析自动面包屑配置
+ */
+function resolveAutoBreadcrumbs(
+  option: ErrorCatcherOptions['autoBreadcrumbs'],
+): Required<AutoBreadcrumbsOptions> {
+  const defaults = DEFAULT_CATCHER_OPTIONS.autoBreadcrumbs
+  if (typeof option === 'boolean') {
+    return { click: option, input: option, navigation: option }
+  }
+  return {
+    click: option?.click ?? defaults.click,
+    input: option?.input ?? defaults.input,
+    navigation: option?.navigation ?? defaults.navigation,
+  }
+}
 
 /**
  * 全局错误捕获器
  *
  * @remarks
- * 提供全面的客户端错误捕获能力，包括：
+ * 各捕获源以集成（{@link Integration}）形式提供，可通过 `integrations` 配置或
+ * addIntegration/removeIntegration 在运行时增删。内置能力包括：
  * - 全局 JavaScript 运行时错误
  * - 未处理的 Promise 拒绝
  * - 资源加载错误
+ * - 网络请求错误（fetch/XHR）
+ * - 控制台错误（可选）
+ * - 点击、输入与导航面包屑自动采集
+ * - 作用域（标签、额外数据、上下文、用户）
+ * - Node.js 进程错误（uncaughtException/unhandledRejection/warning）
+ * - Worker 内错误及其向主线程的转发
  * - 错误指纹去重
  * - 错误限流保护
  */
@@ -46,26 +88,59 @@ export class ErrorCatcher {
   /** 是否已安装 */
   private isInstalled = false
 
-  /** 原始 onerror 处理器 */
-  private originalOnError: OnErrorEventHandler | null = null
+  /** 集成（名称 → 实例，按安装顺序） */
+  private integrations = new Map<string, Integration>()
 
-  /** 原始 onunhandledrejection 处理器 */
-  private originalOnUnhandledRejection: ((event: PromiseRejectionEvent) => void) | null = null
+  /** 运行环境上下文（Node.js 的 runtime、Worker 的 worker），浏览器中为空 */
+  private environmentContexts: ErrorContexts = {}
 
-  /** 资源错误处理器引用（用于移除监听） */
-  private boundResourceErrorHandler: ((event: Event) => void) | null = null
+  /** 主线程对 Worker 消息监听的移除函数 */
+  private workerDetachers: (() => void)[] = []
 
-  /** 指纹缓存（用于去重） */
+  /** 指纹缓存（用于去重与出现次数统计） */
   private fingerprintCache: FingerprintCache
 
-  /** 限流器 */
+  /** 待汇总的重复错误（指纹 → 最近一次出现） */
+  private pendingOccurrences = new Map<string, ErrorInfo>()
+
+  /** 重复次数汇总定时器 */
+  private occurrenceTimer: ReturnType<typeof setInterval> | null = null
+
+  /** 全局限流器 */
   private rateLimiter: RateLimiter
 
-  /** 用户会话 ID */
-  private sessionId: string
+  /** 按指纹限流器 */
+  private fingerprintLimiter: KeyedRateLimiter
+
+  /** 按来源限流器 */
+  private sourceLimiter: KeyedRateLimiter
+
+  /** 级别分类器 */
+  private classifier: LevelClassifier
+
+  /** 显式指定级别的事件，分类规则不覆盖其级别 */
+  private explicitLevels = new WeakSet<ErrorInfo>()
+
+  /** 敏感信息清洗器 */
+  private scrubber: Scrubber
 
-  /** 用户 ID */
-  private userId?: string
+  /** 事件处理器管道 */
+  private processors: EventProcessorPipeline
+
+  /** 进行中的异步事件处理 */
+  private pendingDispatches = new Set<Promise<void>>()
+
+  /** 会话管理器 */
+  private sessions: SessionManager
+
+  /** 会话更新定时器 */
+  private sessionTimer: ReturnType<typeof setInterval> | null = null
+
+  /** 作用域栈（栈顶为当前作用域） */
+  private scopeStack: Scope[] = [new Scope()]
+
+  /** 事件发射器 */
+  private emitter = new TypedEventEmitter<ErrorEvents>()
 
   /**
    * 创建错误捕获器实例
@@ -79,81 +154,176 @@ export class ErrorCatcher {
       captureUnhandledRejections: options.captureUnhandledRejections ?? DEFAULT_CATCHER_OPTIONS.captureUnhandledRejections,
       captureResourceErrors: options.captureResourceErrors ?? DEFAULT_CATCHER_OPTIONS.captureResourceErrors,
       captureNetworkErrors: options.captureNetworkErrors ?? DEFAULT_CATCHER_OPTIONS.captureNetworkErrors,
-      captureConsoleErrors: options.captureConsoleErrors ?? false,
+      networkErrorStatusRanges: options.networkErrorStatusRanges
+        ?? DEFAULT_CATCHER_OPTIONS.networkErrorStatusRanges.map(([min, max]) => [min, max] as [number, number]),
+      networkIgnoreUrls: options.networkIgnoreUrls ?? [],
+      captureConsoleErrors: options.captureConsoleErrors ?? DEFAULT_CATCHER_OPTIONS.captureConsoleErrors,
+      consoleLevels: options.consoleLevels ?? [...DEFAULT_CATCHER_OPTIONS.consoleLevels],
       maxBreadcrumbs: options.maxBreadcrumbs ?? DEFAULT_CATCHER_OPTIONS.maxBreadcrumbs,
+      autoBreadcrumbs: resolveAutoBreadcrumbs(options.autoBreadcrumbs),
+      deviceContext: options.deviceContext ?? {},
+      performanceContext: options.performanceContext ?? {},
       ignorePatterns: options.ignorePatterns ?? [...DEFAULT_IGNORE_PATTERNS],
+      release: options.release,
+      environment: options.environment ?? (isDev() ? 'development' : 'production'),
+      dist: options.dist,
+      fingerprintRelease: options.fingerprintRelease ?? DEFAULT_CATCHER_OPTIONS.fingerprintRelease,
+      fingerprintRules: options.fingerprintRules ?? [],
+      normalize: options.normalize ?? {},
+      scrub: options.scrub ?? {},
+      inAppInclude: options.inAppInclude ?? [],
+      inAppExclude: options.inAppExclude ?? [...DEFAULT_IN_APP_EXCLUDE],
       enableDeduplication: options.enableDeduplication ?? DEFAULT_CATCHER_OPTIONS.enableDeduplication,
       deduplicationWindow: options.deduplicationWindow ?? DEFAULT_CATCHER_OPTIONS.deduplicationWindow,
+      occurrenceFlushInterval: options.occurrenceFlushInterval ?? DEFAULT_CATCHER_OPTIONS.occurrenceFlushInterval,
+      maxExceptionDepth: options.maxExceptionDepth ?? DEFAULT_CATCHER_OPTIONS.maxExceptionDepth,
+      fingerprintCauses: options.fingerprintCauses ?? DEFAULT_CATCHER_OPTIONS.fingerprintCauses,
+      levelRules: options.levelRules ?? [],
+      escalationRules: options.escalationRules ?? [],
+      minLevel: options.minLevel ?? DEFAULT_CATCHER_OPTIONS.minLevel,
+      processorTimeout: options.processorTimeout ?? DEFAULT_CATCHER_OPTIONS.processorTimeout,
+      enableSession: options.enableSession ?? DEFAULT_CATCHER_OPTIONS.enableSession,
+      sessionTimeout: options.sessionTimeout ?? DEFAULT_CATCHER_OPTIONS.sessionTimeout,
+      sessionUpdateInterval: options.sessionUpdateInterval ?? DEFAULT_CATCHER_OPTIONS.sessionUpdateInterval,
+      persistSession: options.persistSession ?? DEFAULT_CATCHER_OPTIONS.persistSession,
       enableRateLimit: options.enableRateLimit ?? DEFAULT_CATCHER_OPTIONS.enableRateLimit,
       maxErrorsPerMinute: options.maxErrorsPerMinute ?? DEFAULT_CATCHER_OPTIONS.maxErrorsPerMinute,
+      rateLimitBurst: options.rateLimitBurst ?? options.maxErrorsPerMinute ?? DEFAULT_CATCHER_OPTIONS.maxErrorsPerMinute,
+      maxErrorsPerFingerprint: options.maxErrorsPerFingerprint ?? DEFAULT_CATCHER_OPTIONS.maxErrorsPerFingerprint,
+      maxErrorsPerSource: options.maxErrorsPerSource ?? DEFAULT_CATCHER_OPTIONS.maxErrorsPerSource,
+      captureWarnings: options.captureWarnings ?? DEFAULT_CATCHER_OPTIONS.captureWarnings,
+      exitOnFatal: options.exitOnFatal ?? DEFAULT_CATCHER_OPTIONS.exitOnFatal,
+      fatalExitTimeout: options.fatalExitTimeout ?? DEFAULT_CATCHER_OPTIONS.fatalExitTimeout,
       beforeCapture: options.beforeCapture ?? (e => e),
       onError: options.onError ?? (() => {}),
+      onFatalError: options.onFatalError ?? (() => {}),
     }
 
     // 初始化指纹缓存
     this.fingerprintCache = new FingerprintCache({
       ttl: this.options.deduplicationWindow,
       maxSize: 100,
+      // 窗口结束时汇总剩余的重复次数
+      onEvict: (fingerprint, occurrence) => this.reportOccurrences(fingerprint, occurrence),
     })
 
-    // 初始化限流器
+    // 初始化限流器（全局、按指纹、按来源）
     this.rateLimiter = new RateLimiter({
       maxCalls: this.options.maxErrorsPerMinute,
       windowMs: 60 * 1000,
+      burst: this.options.rateLimitBurst,
+    })
+    this.fingerprintLimiter = new KeyedRateLimiter({
+      maxCalls: this.options.maxErrorsPerFingerprint,
+      windowMs: 60 * 1000,
+    })
+    const { maxErrorsPerSource } = this.options
+    this.sourceLimiter = new KeyedRateLimiter({
+      maxCalls: typeof maxErrorsPerSource === 'number'
+        ? maxErrorsPerSource
+        : source => maxErrorsPerSource[source as ErrorSource]
+          ?? maxErrorsPerSource.default
+          ?? DEFAULT_CATCHER_OPTIONS.maxErrorsPerSource,
+      windowMs: 60 * 1000,
+    })
+
+    // 初始化级别分类器
+    this.classifier = new LevelClassifier({
+      rules: this.options.levelRules,
+      escalation: this.options.escalationRules,
+    })
+
+    // 初始化敏感信息清洗器
+    this.scrubber = new Scrubber(this.options.scrub || { enabled: false })
+
+    // 初始化事件处理器管道
+    this.processors = new EventProcessorPipeline({ timeout: this.options.processorTimeout })
+
+    // 初始化会话（未启用会话跟踪时仅提供固定的会话 ID）
+    const { enableSession } = this.options
+    this.sessions = new SessionManager({
+      inactivityTimeout: enableSession ? this.options.sessionTimeout : Number.POSITIVE_INFINITY,
+      persist: enableSession && this.options.persistSession,
+      onChange: enableSession ? session => this.emitter.emit('session', session) : undefined,
     })
 
-    // 生成会话 ID
-    this.sessionId = `ses_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+    // 非浏览器环境补充运行环境上下文
+    const workerType = getWorkerType()
+    if (workerType) {
+      this.environmentContexts = { worker: { type: workerType, scriptUrl: getCurrentUrl() } }
+    }
+    else if (!isBrowser()) {
+      // Node.js 环境下以运行时信息代替 url/userAgent
+      const runtime = getNodeRuntimeContext()
+      if (runtime) {
+        this.environmentContexts = { runtime }
+      }
+    }
+
+    // 解析集成
+    const integrations = resolveIntegrations(getDefaultIntegrations(this.options), options.integrations)
+    integrations.forEach(integration => this.integrations.set(integration.name, integration))
   }
 
   /**
    * 安装错误捕获
    *
    * @remarks
-   * 调用后开始监听全局错误事件
+   * 依次安装所有集成；浏览器中监听 window，Worker 中监听全局作用域，Node.js 中监听 process
    */
   install(): this {
     if (this.isInstalled || !this.options.enabled) {
       return this
     }
 
-    if (!isBrowser()) {
-      return this
-    }
+    this.integrations.forEach(integration => this.setupIntegration(integration))
 
-    // 捕获全局错误
-    if (this.options.captureGlobalErrors) {
-      this.originalOnError = window.onerror
-      window.onerror = (message, source, lineno, colno, error) => {
-        this.handleGlobalError(message, source, lineno, colno, error)
-        if (this.originalOnError) {
-          return this.originalOnError(message, source, lineno, colno, error)
-        }
-        return false
-      }
+    // 定期汇总重复错误的出现次数
+    if (this.options.enableDeduplication && this.options.occurrenceFlushInterval > 0) {
+      const timer = setInterval(() => this.flushOccurrences(), this.options.occurrenceFlushInterval)
+      // Node.js 中不阻止进程退出
+      ;(timer as { unref?: () => void }).unref?.()
+      this.occurrenceTimer = timer
     }
 
-    // 捕获未处理的 Promise 拒绝
-    if (this.options.captureUnhandledRejections) {
-      this.originalOnUnhandledRejection = window.onunhandledrejection as typeof this.originalOnUnhandledRejection
-      window.onunhandledrejection = (event: PromiseRejectionEvent) => {
-        this.handlePromiseRejection(event)
-        if (this.originalOnUnhandledRejection) {
-          this.originalOnUnhandledRejection(event)
-        }
+    // 会话开始及定期更新
+    if (this.options.enableSession) {
+      this.flushSession()
+      if (this.options.sessionUpdateInterval > 0) {
+        const timer = setInterval(() => this.flushSession(), this.options.sessionUpdateInterval)
+        ;(timer as { unref?: () => void }).unref?.()
+        this.sessionTimer = timer
       }
     }
 
-    // 捕获资源加载错误
-    if (this.options.captureResourceErrors) {
-      this.boundResourceErrorHandler = this.handleResourceError.bind(this)
-      window.addEventListener('error', this.boundResourceErrorHandler, true)
-    }
-
     this.isInstalled = true
     return this
   }
 
+  /**
+   * 安装单个集成（隔离集成自身的异常）
+   */
+  private setupIntegration(integration: Integration): void {
+    try {
+      integration.setup(this)
+    }
+    catch {
+      // 忽略集成安装错误，避免影响其他捕获源
+    }
+  }
+
+  /**
+   * 卸载单个集成
+   */
+  private teardownIntegration(integration: Integration): void {
+    try {
+      integration.teardown?.()
+    }
+    catch {
+      // 忽略集成卸载错误
+    }
+  }
+
   /**
    * 卸载错误捕获
    *
@@ -165,105 +335,45 @@ export class ErrorCatcher {
       return this
     }
 
-    if (!isBrowser()) {
-      return this
-    }
+    // 按安装的逆序卸载集成
+    ;[...this.integrations.values()].reverse().forEach(integration => this.teardownIntegration(integration))
 
-    // 恢复全局错误处理器
-    if (this.options.captureGlobalErrors && this.originalOnError !== null) {
-      window.onerror = this.originalOnError
-      this.originalOnError = null
-    }
+    // 停止接收 Worker 转发
+    this.workerDetachers.forEach(detach => detach())
+    this.workerDetachers = []
 
-    // 恢复 Promise 拒绝处理器
-    if (this.options.captureUnhandledRejections && this.originalOnUnhandledRejection !== null) {
-      window.onunhandledrejection = this.originalOnUnhandledRejection as typeof window.onunhandledrejection
-      this.originalOnUnhandledRejection = null
+    // 停止定时汇总并上报剩余的重复次数
+    if (this.occurrenceTimer) {
+      clearInterval(this.occurrenceTimer)
+      this.occurrenceTimer = null
     }
+    this.flushOccurrences()
 
-    // 移除资源错误监听
-    if (this.options.captureResourceErrors && this.boundResourceErrorHandler) {
-      window.removeEventListener('error', this.boundResourceErrorHandler, true)
-      this.boundResourceErrorHandler = null
+    // 停止会话定期更新并发送最后的变化
+    if (this.sessionTimer) {
+      clearInterval(this.sessionTimer)
+      this.sessionTimer = null
+    }
+    if (this.options.enableSession) {
+      this.flushSession()
     }
 
     this.isInstalled = false
     return this
   }
 
-  /**
-   * 处理全局错误
-   */
-  private handleGlobalError(
-    message: string | Event,
-    source?: string,
-    lineno?: number,
-    colno?: number,
-    error?: Error,
-  ): void {
-    const normalizedError = error ?? normalizeError(message)
-    const errorInfo = this.createErrorInfo(
-      normalizedError,
-      ErrorSource.RUNTIME,
-      {
-        source,
-        lineno,
-        colno,
-      },
-    )
-    this.processError(errorInfo)
-  }
-
-  /**
-   * 处理 Promise 拒绝
-   */
-  private handlePromiseRejection(event: PromiseRejectionEvent): void {
-    const error = normalizeError(event.reason)
-    const errorInfo = this.createErrorInfo(error, ErrorSource.PROMISE)
-    this.processError(errorInfo)
-  }
-
-  /**
-   * 处理资源加载错误
-   */
-  private handleResourceError(event: Event): void {
-    const target = event.target as HTMLElement
-
-    // 忽略非资源元素的错误
-    if (!target || target === (window as unknown as HTMLElement)) {
-      return
-    }
-
-    // 只处理资源元素
-    const isResourceElement = target instanceof HTMLScriptElement
-      || target instanceof HTMLLinkElement
-      || target instanceof HTMLImageElement
-      || target instanceof HTMLVideoElement
-      || target instanceof HTMLAudioElement
-
-    if (!isResourceElement) {
-      return
-    }
-
-    const resourceUrl = (target as HTMLScriptElement | HTMLImageElement).src
-      || (target as HTMLLinkElement).href
-      || 'unknown'
-
-    const errorInfo = this.createErrorInfo(
-      new Error(`Resource failed to load: ${resourceUrl}`),
-      ErrorSource.RESOURCE,
-      {
-        tagName: target.tagName.toLowerCase(),
-        resourceUrl,
-      },
-    )
-    this.processError(errorInfo)
-  }
-
   /**
    * 创建错误信息对象
+   *
+   * @remarks
+   * 补全会话、面包屑、作用域、运行环境上下文与指纹；集成可用它构造事件后交给 {@link ErrorCatcher.captureEvent}
+   *
+   * @param error - 错误对象
+   * @param source - 错误来源
+   * @param extra - 额外数据
+   * @returns 错误信息
    */
-  private createErrorInfo(
+  createErrorInfo(
     error: Error,
     source: ErrorSource,
     extra?: Record<string, unknown>,
@@ -278,49 +388,319 @@ export class ErrorCatcher {
       timestamp: Date.now(),
       url: getCurrentUrl(),
       userAgent: getUserAgent(),
-      sessionId: this.sessionId,
-      userId: this.userId,
+      sessionId: this.sessions.getSessionId(),
       extra,
       breadcrumbs: [...this.breadcrumbs],
     }
 
+    // 应用错误：映射错误码、级别与元数据
+    if (isAppError(error)) {
+      errorInfo.code = error.code
+      errorInfo.level = error.level
+      this.explicitLevels.add(errorInfo)
+      errorInfo.tags = {
+        code: error.code,
+        retryable: String(error.retryable),
+        ...(error.httpStatus !== undefined ? { httpStatus: String(error.httpStatus) } : {}),
+      }
+      if (Object.keys(error.metadata).length > 0) {
+        errorInfo.extra = { metadata: error.metadata, ...extra }
+      }
+    }
+    else {
+      // 带 code 的普通错误（如 Node.js 系统错误）使用目录中登记的默认级别
+      const { code } = error as Error & { code?: unknown }
+      if (typeof code === 'string') {
+        errorInfo.code = code
+        errorInfo.level = defaultErrorCatalog.get(code)?.level ?? errorInfo.level
+      }
+    }
+
+    // cause 链与 AggregateError 内部错误
+    if (this.options.maxExceptionDepth > 0) {
+      const exceptions = getLinkedExceptions(error, this.options.maxExceptionDepth)
+      if (exceptions.length > 0) {
+        errorInfo.exceptions = exceptions
+      }
+    }
+
+    return this.prepareEvent(errorInfo)
+  }
+
+  /**
+   * 补全事件的公共信息（作用域、运行时上下文、指纹）
+   */
+  private prepareEvent(errorInfo: ErrorInfo): ErrorInfo {
+    // 合并作用域数据
+    this.getScope().applyToEvent(errorInfo)
+
+    // 运行环境上下文
+    if (Object.keys(this.environmentContexts).length > 0) {
+      errorInfo.contexts = { ...this.environmentContexts, ...errorInfo.contexts }
+    }
+
+    // 版本与 SDK 信息
+    this.applyReleaseInfo(errorInfo)
+
+    // 解析堆栈帧
+    this.applyFrames(errorInfo)
+
     // 生成指纹
-    errorInfo.fingerprint = generateFingerprint(errorInfo)
+    errorInfo.fingerprint = this.computeFingerprint(errorInfo)
 
     return errorInfo
   }
 
   /**
-   * 处理错误（包含去重、限流、过滤逻辑）
+   * 按配置生成指纹
+   */
+  private computeFingerprint(errorInfo: ErrorInfo): string {
+    return generateFingerprint(errorInfo, {
+      includeCauses: this.options.fingerprintCauses,
+      includeRelease: this.options.fingerprintRelease,
+      rules: this.options.fingerprintRules,
+    })
+  }
+
+  /**
+   * 解析堆栈帧并标记应用代码（已有帧时保留）
+   */
+  private applyFrames(errorInfo: ErrorInfo): void {
+    if (errorInfo.frames || !errorInfo.stack) {
+      return
+    }
+    errorInfo.frames = parseStack(errorInfo.stack, {
+      inAppInclude: this.options.inAppInclude,
+      inAppExclude: this.options.inAppExclude,
+    })
+  }
+
+  /**
+   * 写入版本、环境、构建标识与 SDK 信息（事件自身的值优先）
+   */
+  private applyReleaseInfo(errorInfo: ErrorInfo): void {
+    const { release, environment, dist } = this.options
+    errorInfo.release = errorInfo.release ?? release
+    errorInfo.environment = errorInfo.environment ?? environment
+    errorInfo.dist = errorInfo.dist ?? dist
+    errorInfo.sdk = errorInfo.sdk ?? this.getSdkInfo()
+  }
+
+  /**
+   * 处理 Worker 转发的错误
+   *
+   * @remarks
+   * 以 Worker 脚本地址打标签，合并主线程的作用域与面包屑后进入常规处理流程
+   */
+  private handleWorkerMessage(message: WorkerErrorMessage): void {
+    const { error, scriptUrl, workerType } = message
+
+    const breadcrumbs = [...this.breadcrumbs, ...(error.breadcrumbs ?? [])]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-this.options.maxBreadcrumbs)
+
+    const errorInfo: ErrorInfo = {
+      ...error,
+      url: getCurrentUrl() ?? error.url,
+      sessionId: this.sessions.getSessionId(),
+      breadcrumbs,
+      tags: { ...error.tags, worker: scriptUrl },
+      contexts: { ...error.contexts, worker: { type: workerType, scriptUrl } },
+    }
+
+    this.getScope().applyToEvent(errorInfo)
+    this.applyReleaseInfo(errorInfo)
+    this.applyFrames(errorInfo)
+    errorInfo.fingerprint = errorInfo.fingerprint ?? this.computeFingerprint(errorInfo)
+
+    this.processError(errorInfo)
+  }
+
+  /**
+   * 处理错误（包含分级、去重、限流、过滤逻辑）
    */
   private processError(errorInfo: ErrorInfo): void {
     // 检查是否应该忽略
     if (this.shouldIgnore(errorInfo)) {
+      this.emitter.emit('ignored', { error: errorInfo, reason: 'filtered' })
+      return
+    }
+
+    // 按规则分级，频繁出现时提升级别
+    const { level, baseLevel, escalated, escalatedNow } = this.classifier.classify(errorInfo, this.explicitLevels.has(errorInfo))
+    if (escalated) {
+      errorInfo.tags = { ...errorInfo.tags, escalatedFrom: baseLevel }
+    }
+    errorInfo.level = level
+
+    // 检查最低级别
+    if (!isLevelAtLeast(errorInfo.level, this.options.minLevel)) {
+      this.emitter.emit('ignored', { error: errorInfo, reason: 'minLevel' })
       return
     }
 
-    // 检查去重
+    // 检查去重并统计出现次数
     if (this.options.enableDeduplication && errorInfo.fingerprint) {
-      if (this.fingerprintCache.checkAndAdd(errorInfo.fingerprint)) {
-        // 重复错误，忽略
+      const { duplicate, occurrence } = this.fingerprintCache.record(errorInfo.fingerprint, errorInfo.timestamp)
+      errorInfo.count = occurrence.count
+      errorInfo.firstSeen = occurrence.firstSeen
+      errorInfo.lastSeen = occurrence.lastSeen
+
+      // 刚达到提升阈值的重复错误立即上报，其余留待汇总
+      if (duplicate && !escalatedNow) {
+        // 重复错误，留待汇总上报
+        this.fingerprintCache.suppress(errorInfo.fingerprint)
+        this.pendingOccurrences.set(errorInfo.fingerprint, errorInfo)
+        this.emitter.emit('ignored', { error: errorInfo, reason: 'duplicate' })
         return
       }
     }
 
     // 检查限流
-    if (this.options.enableRateLimit && !this.rateLimiter.tryAcquire()) {
+    const limit = this.options.enableRateLimit ? this.acquireRateLimit(errorInfo) : null
+    if (limit) {
       // 超过限流，忽略
+      this.emitter.emit('ignored', { error: errorInfo, reason: 'rateLimit', limit })
+      return
+    }
+
+    this.dispatch(errorInfo)
+  }
+
+  /**
+   * 依次检查指纹、来源与全局限额
+   *
+   * @remarks
+   * 先确认各限额均有余量再统一扣减，被某一限额拒绝的事件不消耗其他限额
+   *
+   * @returns 拒绝事件的限额，放行时返回 null
+   */
+  private acquireRateLimit(errorInfo: ErrorInfo): RateLimitScope | null {
+    const { fingerprint, source } = errorInfo
+
+    if (fingerprint && !this.fingerprintLimiter.canAcquire(fingerprint)) {
+      this.fingerprintLimiter.tryAcquire(fingerprint)
+      return 'fingerprint'
+    }
+
+    if (!this.sourceLimiter.canAcquire(source)) {
+      this.sourceLimiter.tryAcquire(source)
+      return 'source'
+    }
+
+    if (!this.rateLimiter.tryAcquire()) {
+      return 'global'
+    }
+
+    if (fingerprint) {
+      this.fingerprintLimiter.tryAcquire(fingerprint)
+    }
+    this.sourceLimiter.tryAcquire(source)
+    return null
+  }
+
+  /**
+   * 经集成、事件处理器与前置处理器后分发错误
+   *
+   * @remarks
+   * 处理顺序：集成 processEvent → 事件处理器（按优先级）→ beforeCapture；
+   * 存在异步处理器时在其完成后再触发回调
+   */
+  private dispatch(errorInfo: ErrorInfo): void {
+    // 集成处理
+    let event: ErrorInfo | null = errorInfo
+    for (const integration of this.integrations.values()) {
+      if (!integration.processEvent) {
+        continue
+      }
+      event = integration.processEvent(event)
+      if (!event) {
+        this.emitter.emit('ignored', { error: errorInfo, reason: 'filtered', processor: integration.name })
+        return
+      }
+    }
+
+    // 事件处理器
+    const result = this.processors.run(event)
+    if (!(result instanceof Promise)) {
+      this.finishDispatch(errorInfo, result)
+      return
+    }
+
+    const pending: Promise<void> = result
+      .then(processed => this.finishDispatch(errorInfo, processed))
+      .catch(() => {
+        // 忽略 beforeCapture/onError 等回调中的错误，避免产生未处理的拒绝
+      })
+      .finally(() => this.pendingDispatches.delete(pending))
+    this.pendingDispatches.add(pending)
+  }
+
+  /**
+   * 处理器完成后触发回调
+   */
+  private finishDispatch(errorInfo: ErrorInfo, result: EventProcessorResult): void {
+    const { event, droppedBy } = result
+    if (!event) {
+      this.emitter.emit('ignored', { error: errorInfo, reason: 'filtered', processor: droppedBy })
       return
     }
 
     // 调用前置处理器
-    const processed = this.options.beforeCapture(errorInfo)
+    const processed = this.options.beforeCapture(event)
     if (!processed) {
+      this.emitter.emit('ignored', { error: errorInfo, reason: 'filtered', processor: 'beforeCapture' })
       return
     }
 
+    // 规范化后清洗敏感信息
+    const normalized = this.options.normalize ? normalizeEvent(processed, this.options.normalize) : processed
+    const scrubbed = this.scrubber.scrubEvent(normalized)
+
+    // 更新会话状态并分配会话内序号
+    if (this.options.enableSession) {
+      scrubbed.sequence = this.sessions.recordError(scrubbed)
+      scrubbed.sessionId = this.sessions.getSessionId()
+    }
+
     // 触发错误回调
-    this.options.onError(processed)
+    this.options.onError(scrubbed)
+    this.emitter.emit('error', scrubbed)
+  }
+
+  /**
+   * 触发有变化的会话更新
+   */
+  private flushSession(): void {
+    const session = this.sessions.flush()
+    if (session) {
+      this.emitter.emit('session', session)
+    }
+  }
+
+  /**
+   * 上报重复错误的汇总事件
+   *
+   * @remarks
+   * 以最近一次被抑制的出现为样本，携带自上次汇总以来的抑制次数（suppressedCount）、
+   * 窗口内的累计次数与首末时间；不再经过去重与限流
+   */
+  private reportOccurrences(fingerprint: string, occurrence: FingerprintOccurrence): void {
+    const sample = this.pendingOccurrences.get(fingerprint)
+    if (!sample) {
+      return
+    }
+    this.pendingOccurrences.delete(fingerprint)
+
+    this.dispatch({
+      ...sample,
+      id: generateErrorId(),
+      timestamp: occurrence.lastSeen,
+      count: occurrence.count,
+      suppressedCount: occurrence.pending,
+      firstSeen: occurrence.firstSeen,
+      lastSeen: occurrence.lastSeen,
+    })
   }
 
   /**
@@ -329,8 +709,24 @@ export class ErrorCatcher {
   private shouldIgnore(errorInfo: ErrorInfo): boolean {
     const { message, stack } = errorInfo
     const textToCheck = `${message} ${stack || ''}`
+    const environment = errorInfo.environment ?? this.options.environment
+
+    for (const rule of this.options.ignorePatterns) {
+      let pattern: string | RegExp | undefined
+      if (typeof rule === 'string' || rule instanceof RegExp) {
+        pattern = rule
+      }
+      else {
+        // 限定环境的规则只在对应环境中生效
+        if (!rule.environments.includes(environment)) {
+          continue
+        }
+        if (!rule.pattern) {
+          return true
+        }
+        pattern = rule.pattern
+      }
 
-    for (const pattern of this.options.ignorePatterns) {
       if (typeof pattern === 'string') {
         if (textToCheck.includes(pattern)) {
           return true
@@ -349,20 +745,160 @@ export class ErrorCatcher {
   // =========================================================================
 
   /**
-   * 设置用户 ID
+   * 订阅事件
+   *
+   * @param event - 事件名（`error` / `ignored`）
+   * @param listener - 监听器
+   * @returns 取消订阅函数
+   */
+  on<K extends keyof ErrorEvents>(event: K, listener: ErrorEventListener<K>): () => void {
+    return this.emitter.on(event, listener)
+  }
+
+  /**
+   * 订阅一次事件
+   *
+   * @param event - 事件名
+   * @param listener - 监听器
+   * @returns 取消订阅函数
+   */
+  once<K extends keyof ErrorEvents>(event: K, listener: ErrorEventListener<K>): () => void {
+    return this.emitter.once(event, listener)
+  }
+
+  /**
+   * 取消订阅
    *
-   * @param userId - 用户 ID
+   * @param event - 事件名
+   * @param listener - 监听器，省略时移除该事件的全部监听器
    */
-  setUser(userId: string): this {
-    this.userId = userId
+  off<K extends keyof ErrorEvents>(event: K, listener?: ErrorEventListener<K>): this {
+    this.emitter.off(event, listener)
     return this
   }
 
   /**
-   * 清除用户 ID
+   * 获取当前作用域
+   */
+  getScope(): Scope {
+    return this.scopeStack[this.scopeStack.length - 1]
+  }
+
+  /**
+   * 压入新作用域
+   *
+   * @remarks
+   * 新作用域继承当前作用域的数据，之后的修改只作用于新作用域，直到 {@link ErrorCatcher.popScope}
+   *
+   * @returns 新作用域
+   */
+  pushScope(): Scope {
+    const scope = this.getScope().clone()
+    this.scopeStack.push(scope)
+    return scope
+  }
+
+  /**
+   * 弹出当前作用域
+   *
+   * @returns 是否弹出成功（根作用域不可弹出）
+   */
+  popScope(): boolean {
+    if (this.scopeStack.length <= 1) {
+      return false
+    }
+    this.scopeStack.pop()
+    return true
+  }
+
+  /**
+   * 在临时隔离的作用域中执行回调
+   *
+   * @remarks
+   * 回调同步执行期间捕获的错误使用临时作用域，回调结束后自动恢复
+   *
+   * @param callback - 回调，参数为临时作用域
+   * @returns 回调返回值
+   * @example
+   * ```ts
+   * catcher.withScope((scope) => {
+   *   scope.setTag('step', 'payment')
+   *   catcher.captureError(err)
+   * })
+   * ```
+   */
+  withScope<T>(callback: (scope: Scope) => T): T {
+    const scope = this.pushScope()
+    try {
+      return callback(scope)
+    }
+    finally {
+      // 仅弹出本次压入的作用域
+      const index = this.scopeStack.lastIndexOf(scope)
+      if (index > 0) {
+        this.scopeStack.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 设置标签
+   *
+   * @param key - 标签名
+   * @param value - 标签值
+   */
+  setTag(key: string, value: string): this {
+    this.getScope().setTag(key, value)
+    return this
+  }
+
+  /**
+   * 批量设置标签
+   *
+   * @param tags - 标签键值对
+   */
+  setTags(tags: Record<string, string>): this {
+    this.getScope().setTags(tags)
+    return this
+  }
+
+  /**
+   * 设置额外数据
+   *
+   * @param key - 键
+   * @param value - 值
+   */
+  setExtra(key: string, value: unknown): this {
+    this.getScope().setExtra(key, value)
+    return this
+  }
+
+  /**
+   * 设置命名上下文
+   *
+   * @param name - 上下文名称
+   * @param context - 上下文对象，传 null 移除
+   */
+  setContext(name: string, context: Record<string, unknown> | null): this {
+    this.getScope().setContext(name, context)
+    return this
+  }
+
+  /**
+   * 设置用户
+   *
+   * @param user - 用户 ID 或用户信息
+   */
+  setUser(user: string | UserInfo): this {
+    this.getScope().setUser(typeof user === 'string' ? { id: user } : user)
+    return this
+  }
+
+  /**
+   * 清除用户
    */
   clearUser(): this {
-    this.userId = undefined
+    this.getScope().setUser(null)
     return this
   }
 
@@ -379,6 +915,11 @@ export class ErrorCatcher {
 
     this.breadcrumbs.push(crumb)
 
+    // 用户操作视为会话活动
+    if (this.options.enableSession && ['click', 'input', 'navigation'].includes(crumb.type)) {
+      this.sessions.touch()
+    }
+
     // 保持面包屑数量在限制内
     while (this.breadcrumbs.length > this.options.maxBreadcrumbs) {
       this.breadcrumbs.shift()
@@ -404,6 +945,121 @@ export class ErrorCatcher {
     return [...this.breadcrumbs]
   }
 
+  /**
+   * 提交已构造的错误事件
+   *
+   * @remarks
+   * 事件依次经过忽略规则、去重、限流、集成处理与 beforeCapture
+   *
+   * @param errorInfo - 错误信息，通常由 {@link ErrorCatcher.createErrorInfo} 创建
+   * @param options - 选项
+   * @param options.explicitLevel - 事件级别是否为显式指定，为 true 时只被 `override` 分类规则覆盖
+   */
+  captureEvent(errorInfo: ErrorInfo, options: { explicitLevel?: boolean } = {}): this {
+    if (options.explicitLevel) {
+      this.explicitLevels.add(errorInfo)
+    }
+    this.processError(errorInfo)
+    return this
+  }
+
+  /**
+   * 添加事件处理器
+   *
+   * @remarks
+   * 对任意来源的每个事件生效（包括集成、手动捕获、Worker 转发与重复次数汇总），
+   * 在集成 processEvent 之后、beforeCapture 之前执行
+   *
+   * @example
+   * ```ts
+   * catcher.addEventProcessor(async (event) => {
+   *   event.tags = { ...event.tags, release: await getRelease() }
+   *   return event
+   * }, { name: 'release', priority: 10, timeout: 500 })
+   * ```
+   *
+   * @param processor - 处理器，返回 null 丢弃事件
+   * @param options - 名称、优先级与超时
+   * @returns 移除该处理器的函数
+   */
+  addEventProcessor(processor: EventProcessor, options?: EventProcessorOptions): () => void {
+    return this.processors.add(processor, options)
+  }
+
+  /**
+   * 移除事件处理器
+   *
+   * @param processor - 处理器函数或名称
+   * @returns 是否找到并移除
+   */
+  removeEventProcessor(processor: EventProcessor | string): boolean {
+    return this.processors.remove(processor)
+  }
+
+  /**
+   * 等待进行中的异步事件处理完成
+   *
+   * @remarks
+   * 退出进程或页面卸载前调用，确保异步处理器处理中的事件已触发 onError
+   */
+  async drainEvents(): Promise<void> {
+    while (this.pendingDispatches.size > 0) {
+      await Promise.all(this.pendingDispatches)
+    }
+  }
+
+  /**
+   * 添加集成
+   *
+   * @remarks
+   * 同名集成会先被卸载并替换；捕获器已安装时立即安装新集成
+   *
+   * @param integration - 集成实例
+   */
+  addIntegration(integration: Integration): this {
+    this.removeIntegration(integration.name)
+    this.integrations.set(integration.name, integration)
+    if (this.isInstalled) {
+      this.setupIntegration(integration)
+    }
+    return this
+  }
+
+  /**
+   * 移除集成
+   *
+   * @param name - 集成名称
+   * @returns 是否存在并已移除
+   */
+  removeIntegration(name: string): boolean {
+    const integration = this.integrations.get(name)
+    if (!integration) {
+      return false
+    }
+    if (this.isInstalled) {
+      this.teardownIntegration(integration)
+    }
+    this.integrations.delete(name)
+    return true
+  }
+
+  /**
+   * 获取集成
+   *
+   * @param name - 集成名称
+   * @returns 集成实例
+   */
+  getIntegration<T extends Integration = Integration>(name: string): T | undefined {
+    return this.integrations.get(name) as T | undefined
+  }
+
+  /**
+   * 获取所有集成（按安装顺序）
+   */
+  getIntegrations(): Integration[] {
+    return [...this.integrations.values()]
+  }
+
   /**
    * 手动捕获错误
    *
@@ -421,39 +1077,118 @@ export class ErrorCatcher {
    * 手动捕获消息
    *
    * @param message - 消息内容
-   * @param level - 错误级别
+   * @param level - 错误级别，指定时分类规则不覆盖（`override` 规则除外）@default 'info'
    * @param extra - 额外数据
    */
   captureMessage(
     message: string,
-    level: ErrorLevel = ErrorLevel.INFO,
+    level?: ErrorLevel,
     extra?: Record<string, unknown>,
   ): this {
     const errorInfo: ErrorInfo = {
       id: generateErrorId(),
       name: 'Message',
       message,
-      level,
+      level: level ?? ErrorLevel.INFO,
       source: ErrorSource.MANUAL,
       timestamp: Date.now(),
       url: getCurrentUrl(),
       userAgent: getUserAgent(),
-      sessionId: this.sessionId,
-      userId: this.userId,
+      sessionId: this.sessions.getSessionId(),
       extra,
       breadcrumbs: [...this.breadcrumbs],
     }
 
-    errorInfo.fingerprint = generateFingerprint(errorInfo)
-    this.processError(errorInfo)
+    if (level !== undefined) {
+      this.explicitLevels.add(errorInfo)
+    }
+    this.processError(this.prepareEvent(errorInfo))
     return this
   }
 
+  /**
+   * 接收 Worker 转发的错误
+   *
+   * @remarks
+   * Worker 端需使用 `installWorkerErrorCatcher({ mode: 'relay' })`；
+   * Shared Worker 会自动启动其 port，Service Worker 请传入 `navigator.serviceWorker`
+   *
+   * @param target - Worker、SharedWorker 或 ServiceWorkerContainer
+   * @returns 停止接收的函数
+   */
+  attachWorker(target: Worker | SharedWorker | ServiceWorkerContainer): () => void {
+    const source: Pick<MessagePort, 'addEventListener' | 'removeEventListener'> = 'port' in target
+      ? target.port
+      : target
+
+    const onMessage = (event: MessageEvent): void => {
+      if (isWorkerErrorMessage(event.data)) {
+        this.handleWorkerMessage(event.data)
+      }
+    }
+
+    source.addEventListener('message', onMessage as EventListener)
+    if ('port' in target) {
+      target.port.start()
+    }
+
+    const detach = (): void => {
+      source.removeEventListener('message', onMessage as EventListener)
+      this.workerDetachers = this.workerDetachers.filter(fn => fn !== detach)
+    }
+    this.workerDetachers.push(detach)
+    return detach
+  }
+
   /**
    * 获取会话 ID
    */
   getSessionId(): string {
-    return this.sessionId
+    return this.sessions.getSessionId()
+  }
+
+  /**
+   * 获取 SDK 信息
+   */
+  getSdkInfo(): SdkInfo {
+    return {
+      name: SDK_NAME,
+      version: VERSION,
+      integrations: [...this.integrations.keys()],
+    }
+  }
+
+  /**
+   * 获取当前会话
+   */
+  getSession(): Session {
+    return this.sessions.getSession()
+  }
+
+  /**
+   * 开始新会话（如用户登录后）
+   */
+  startSession(): this {
+    this.sessions.start()
+    return this
+  }
+
+  /**
+   * 结束当前会话
+   *
+   * @param status - 结束状态，默认保持 errored/crashed/abnormal，否则为 exited
+   */
+  endSession(status?: SessionStatus): this {
+    this.sessions.end(status)
+    return this
+  }
+
+  /**
+   * 将当前会话标记为异常（如检测到页面长时间无响应）
+   */
+  markSessionAbnormal(): this {
+    this.sessions.markAbnormal()
+    return this
   }
 
   /**
@@ -468,6 +1203,30 @@ export class ErrorCatcher {
    */
   resetRateLimiter(): this {
     this.rateLimiter.reset()
+    this.fingerprintLimiter.reset()
+    this.sourceLimiter.reset()
+    return this
+  }
+
+  /**
+   * 获取限流统计
+   *
+   * @returns 各限额累计抑制的事件数，调用 resetRateLimiter 后清零
+   */
+  getRateLimitStats(): RateLimitStats {
+    return {
+      global: this.rateLimiter.getState().suppressed,
+      fingerprint: this.fingerprintLimiter.getSuppressed(),
+      source: this.sourceLimiter.getSuppressed(),
+      sources: this.sourceLimiter.getSuppressedByKey() as RateLimitStats['sources'],
+    }
+  }
+
+  /**
+   * 重置级别提升的出现次数统计
+   */
+  resetEscalation(): this {
+    this.classifier.reset()
     return this
   }
 
@@ -476,6 +1235,20 @@ export class ErrorCatcher {
    */
   clearFingerprintCache(): this {
     this.fingerprintCache.clear()
+    this.pendingOccurrences.clear()
+    return this
+  }
+
+  /**
+   * 立即上报重复错误的汇总事件
+   *
+   * @remarks
+   * 通常由定时器（occurrenceFlushInterval）与 uninstall 自动调用
+   */
+  flushOccurrences(): this {
+    for (const [fingerprint, occurrence] of this.fingerprintCache.drainPending()) {
+      this.reportOccurrences(fingerprint, occurrence)
+    }
     return this
   }
 }
@@ -0,0 +1,251 @@
+/**
+ * 事件处理器管道
+ *
+ * @description 按优先级依次处理每个错误事件，处理器可修改、替换或丢弃事件，支持异步处理器
+ *
+ * @module catcher/event-processors
+ */
+
+import type { ErrorInfo } from '../types'
+
+/**
+ * 事件处理器
+ *
+ * @remarks
+ * 返回事件（可为原对象或新对象）继续处理，返回 null 丢弃事件；可返回 Promise
+ */
+export type EventProcessor = (event: ErrorInfo) => ErrorInfo | null | Promise<ErrorInfo | null>
+
+/**
+ * 事件处理器配置
+ */
+export interface EventProcessorOptions {
+  /** 名称，丢弃事件时记录在 `ignored` 事件中 @default 函数名 */
+  name?: string
+  /** 优先级，数值大的先执行，相同时按添加顺序 @default 0 */
+  priority?: number
+  /** 异步处理器的超时时间（毫秒），超时后跳过该处理器 @default 捕获器的 processorTimeout */
+  timeout?: number
+}
+
+/**
+ * 事件处理器管道配置
+ */
+export interface EventProcessorPipelineOptions {
+  /** 异步处理器的默认超时时间（毫秒） @default 1000 */
+  timeout?: number
+}
+
+/**
+ * 管道处理结果
+ */
+export interface EventProcessorResult {
+  /** 处理后的事件，被丢弃时为 null */
+  event: ErrorInfo | null
+  /** 丢弃事件的处理器名称 */
+  droppedBy?: string
+}
+
+/**
+ * 已注册的处理器
+ */
+interface RegisteredProcessor {
+  processor: EventProcessor
+  name: string
+  priority: number
+  timeout?: number
+}
+
+/**
+ * 超时标记
+ */
+const TIMEOUT = Symbol('timeout')
+
+/**
+ * 检查是否为 Promise
+ */
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return typeof value === 'object' && value !== null && typeof (value as { then?: unknown }).then === 'function'
+}
+
+/**
+ * 事件处理器管道
+ *
+ * @remarks
+ * - 全部处理器同步返回时管道同步完成，遇到异步处理器后转为异步
+ * - 处理器抛出异常或超时时跳过该处理器，事件保持处理前的状态继续传递
+ */
+export class EventProcessorPipeline {
+  /** 已注册的处理器（按执行顺序） */
+  private processors: RegisteredProcessor[] = []
+
+  /** 默认超时时间 */
+  private timeout: number
+
+  /**
+   * 创建事件处理器管道
+   *
+   * @param options - 配置选项
+   */
+  constructor(options: EventProcessorPipelineOptions = {}) {
+    this.timeout = options.timeout ?? 1000
+  }
+
+  /**
+   * 添加处理器
+   *
+   * @param processor - 处理器
+   * @param options - 处理器配置
+   * @returns 移除该处理器的函数
+   */
+  add(processor: EventProcessor, options: EventProcessorOptions = {}): () => void {
+    const registered: RegisteredProcessor = {
+      processor,
+      name: options.name ?? (processor.name || 'anonymous'),
+      priority: options.priority ?? 0,
+      timeout: options.timeout,
+    }
+
+    // 插入到第一个优先级更低的处理器之前，保持同优先级的添加顺序
+    const index = this.processors.findIndex(item => item.priority < registered.priority)
+    if (index === -1) {
+      this.processors.push(registered)
+    }
+    else {
+      this.processors.splice(index, 0, registered)
+    }
+
+    return () => {
+      const current = this.processors.indexOf(registered)
+      if (current !== -1) {
+        this.processors.splice(current, 1)
+      }
+    }
+  }
+
+  /**
+   * 移除处理器
+   *
+   * @param processor - 处理器函数或名称
+   * @returns 是否找到并移除
+   */
+  remove(processor: EventProcessor | string): boolean {
+    const index = this.processors.findIndex(item =>
+      typeof processor === 'string' ? item.name === processor : item.processor === processor,
+    )
+    if (index === -1) {
+      return false
+    }
+    this.processors.splice(index, 1)
+    return true
+  }
+
+  /**
+   * 获取处理器名称（按执行顺序）
+   */
+  getNames(): string[] {
+    return this.processors.map(item => item.name)
+  }
+
+  /**
+   * 清空处理器
+   */
+  clear(): this {
+    this.processors = []
+    return this
+  }
+
+  /**
+   * 依次执行处理器
+   *
+   * @param event - 错误事件
+   * @returns 处理结果；存在异步处理器时返回 Promise
+   */
+  run(event: ErrorInfo): EventProcessorResult | Promise<EventProcessorResult> {
+    // 复制列表，处理过程中增删处理器不影响本次执行
+    const processors = [...this.processors]
+    let current = event
+
+    for (let index = 0; index < processors.length; index++) {
+      const { processor, name } = processors[index]
+
+      let result: ReturnType<EventProcessor>
+      try {
+        result = processor(current)
+      }
+      catch {
+        // 忽略处理器异常
+        continue
+      }
+
+      if (isPromiseLike<ErrorInfo | null>(result)) {
+        return this.runAsync(processors, index, current, result)
+      }
+
+      if (!result) {
+        return { event: null, droppedBy: name }
+      }
+      current = result
+    }
+
+    return { event: current }
+  }
+
+  /**
+   * 从指定位置起异步执行剩余处理器
+   */
+  private async runAsync(
+    processors: RegisteredProcessor[],
+    start: number,
+    event: ErrorInfo,
+    pending: PromiseLike<ErrorInfo | null>,
+  ): Promise<EventProcessorResult> {
+    let current = event
+
+    for (let index = start; index < processors.length; index++) {
+      const { processor, name, timeout } = processors[index]
+
+      let result: ErrorInfo | null | typeof TIMEOUT
+      try {
+        const output = index === start ? pending : processor(current)
+        result = isPromiseLike<ErrorInfo | null>(output)
+          ? await this.withTimeout(output, timeout ?? this.timeout)
+          : output
+      }
+      catch {
+        // 忽略处理器异常
+        continue
+      }
+
+      if (result === TIMEOUT) {
+        continue
+      }
+
+      if (!result) {
+        return { event: null, droppedBy: name }
+      }
+      current = result
+    }
+
+    return { event: current }
+  }
+
+  /**
+   * 在超时时间内等待处理器结果
+   */
+  private withTimeout<T>(promise: PromiseLike<T>, timeout: number): Promise<T | typeof TIMEOUT> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve(TIMEOUT), timeout)
+      promise.then(
+        (value) => {
+          clearTimeout(timer)
+          resolve(value)
+        },
+        (error: unknown) => {
+          clearTimeout(timer)
+          reject(error)
+        },
+      )
+    })
+  }
+}
@@ -3,5 +3,9 @@
  * @packageDocumentation
  */
 
+export * from './console'
+export * from './dom-breadcrumbs'
 export * from './error-catcher'
-
+export * from './event-processors'
+export * from './network'
+export * from './node'
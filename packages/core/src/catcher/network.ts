@@ -0,0 +1,263 @@
+/**
+ * 网络请求拦截
+ *
+ * @description 包装 fetch 与 XMLHttpRequest，记录每个请求的方法、地址、状态码与耗时
+ *
+ * @module catcher/network
+ */
+
+/**
+ * 网络请求记录
+ */
+export interface NetworkRequestRecord {
+  /** 请求类型 */
+  type: 'fetch' | 'xhr'
+  /** 请求方法（大写） */
+  method: string
+  /** 请求地址 */
+  url: string
+  /** 响应状态码（网络失败时为 0） */
+  status: number
+  /** 请求耗时（毫秒） */
+  duration: number
+  /** 网络层错误（请求未获得响应） */
+  error?: Error
+  /** 是否被主动中止 */
+  aborted?: boolean
+}
+
+/**
+ * 网络请求回调
+ */
+export type NetworkRequestHandler = (record: NetworkRequestRecord) => void
+
+/** XHR 请求元数据 */
+interface XHRMeta {
+  method: string
+  url: string
+  startTime: number
+  aborted: boolean
+}
+
+/** XHR 实例与请求元数据的映射 */
+const xhrMetaMap = new WeakMap<XMLHttpRequest, XHRMeta>()
+
+/** 正在执行的 {@link withoutNetworkInstrumentation} 回调层数 */
+let suppressedDepth = 0
+
+/**
+ * 在回调中发起的请求不触发拦截回调
+ *
+ * @remarks
+ * 用于 SDK 自身的上报请求，避免上报失败被捕获后再次上报形成循环。
+ * 只对回调同步发起的 fetch 调用与 XHR `send` 生效
+ *
+ * @param callback - 发起请求的回调
+ * @returns 回调的返回值
+ *
+ * @example
+ * ```ts
+ * const response = await withoutNetworkInstrumentation(() => fetch('/api/errors', { method: 'POST', body }))
+ * ```
+ */
+export function withoutNetworkInstrumentation<T>(callback: () => T): T {
+  suppressedDepth++
+  try {
+    return callback()
+  }
+  finally {
+    suppressedDepth--
+  }
+}
+
+/**
+ * 解析 fetch 的请求参数
+ */
+function parseFetchArgs(input: RequestInfo | URL, init?: RequestInit): { method: string, url: string } {
+  let url: string
+  let method = init?.method
+
+  if (typeof input === 'string') {
+    url = input
+  }
+  else if (input instanceof URL) {
+    url = input.href
+  }
+  else {
+    url = input.url
+    method = method ?? input.method
+  }
+
+  return {
+    method: (method ?? 'GET').toUpperCase(),
+    url,
+  }
+}
+
+/**
+ * 判断是否为中止错误
+ */
+function isAbortError(error: unknown): boolean {
+  return typeof error === 'object'
+    && error !== null
+    && (error as { name?: unknown }).name === 'AbortError'
+}
+
+/**
+ * 调用请求回调，忽略回调中的错误，不影响应用自身的请求结果
+ */
+function safeHandle(handler: NetworkRequestHandler, record: NetworkRequestRecord): void {
+  try {
+    handler(record)
+  }
+  catch {
+    // 忽略回调中的错误
+  }
+}
+
+/**
+ * 拦截 fetch
+ *
+ * @param handler - 每个请求结束时的回调
+ * @returns 恢复原始 fetch 的函数
+ */
+export function instrumentFetch(handler: NetworkRequestHandler): () => void {
+  if (typeof globalThis.fetch !== 'function') {
+    return () => {}
+  }
+
+  const originalFetch = globalThis.fetch
+
+  const wrappedFetch = function (this: unknown, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    if (suppressedDepth > 0) {
+      return originalFetch.call(this ?? globalThis, input, init)
+    }
+
+    const { method, url } = parseFetchArgs(input, init)
+    const startTime = Date.now()
+
+    return originalFetch.call(this ?? globalThis, input, init).then(
+      (response) => {
+        safeHandle(handler, {
+          type: 'fetch',
+          method,
+          url,
+          status: response.status,
+          duration: Date.now() - startTime,
+        })
+        return response
+      },
+      (error: unknown) => {
+        const aborted = isAbortError(error)
+        safeHandle(handler, {
+          type: 'fetch',
+          method,
+          url,
+          status: 0,
+          duration: Date.now() - startTime,
+          error: error instanceof Error ? error : new Error(String(error)),
+          aborted,
+        })
+        throw error
+      },
+    )
+  } as typeof fetch
+
+  globalThis.fetch = wrappedFetch
+
+  return () => {
+    // 仅在未被其他代码再次包装时恢复
+    if (globalThis.fetch === wrappedFetch) {
+      globalThis.fetch = originalFetch
+    }
+  }
+}
+
+/**
+ * 拦截 XMLHttpRequest
+ *
+ * @param handler - 每个请求结束时的回调
+ * @returns 恢复原始 open/send 的函数
+ */
+export function instrumentXHR(handler: NetworkRequestHandler): () => void {
+  if (typeof XMLHttpRequest === 'undefined') {
+    return () => {}
+  }
+
+  const proto = XMLHttpRequest.prototype
+  const originalOpen = proto.open
+  const originalSend = proto.send
+
+  proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+    xhrMetaMap.set(this, {
+      method: String(method).toUpperCase(),
+      url: typeof url === 'string' ? url : url.href,
+      startTime: 0,
+      aborted: false,
+    })
+    return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest)
+  } as typeof proto.open
+
+  proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const meta = xhrMetaMap.get(this)
+
+    if (meta && suppressedDepth === 0) {
+      meta.startTime = Date.now()
+      meta.aborted = false
+
+      const onAbort = (): void => {
+        meta.aborted = true
+      }
+
+      const onLoadEnd = (): void => {
+        this.removeEventListener('abort', onAbort)
+        this.removeEventListener('loadend', onLoadEnd)
+
+        const status = this.status
+        safeHandle(handler, {
+          type: 'xhr',
+          method: meta.method,
+          url: meta.url,
+          status,
+          duration: Date.now() - meta.startTime,
+          error: status === 0 && !meta.aborted ? new Error('Network request failed') : undefined,
+          aborted: meta.aborted,
+        })
+      }
+
+      this.addEventListener('abort', onAbort)
+      this.addEventListener('loadend', onLoadEnd)
+    }
+
+    return originalSend.call(this, body)
+  }
+
+  return () => {
+    proto.open = originalOpen
+    proto.send = originalSend
+  }
+}
+
+/**
+ * 检查状态码是否落在任一区间内（闭区间）
+ *
+ * @param status - HTTP 状态码
+ * @param ranges - 状态码区间列表
+ * @returns 是否命中
+ */
+export function isStatusInRanges(status: number, ranges: readonly (readonly [number, number])[]): boolean {
+  return ranges.some(([min, max]) => status >= min && status <= max)
+}
+
+/**
+ * 检查 URL 是否匹配任一模式
+ *
+ * @param url - 请求地址
+ * @param patterns - 字符串（包含匹配）或正则
+ * @returns 是否命中
+ */
+export function matchesUrlPattern(url: string, patterns: readonly (string | RegExp)[]): boolean {
+  return patterns.some(pattern =>
+    typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url),
+  )
+}
@@ -0,0 +1,114 @@
+/**
+ * Node.js 进程错误监听
+ *
+ * @description 监听 `uncaughtException`、`unhandledRejection` 与 `warning` 事件
+ *
+ * @module catcher/node
+ */
+
+import { getNodeProcess } from '../utils/env'
+
+/**
+ * 未处理拒绝的处理模式，与 Node.js 的 `--unhandled-rejections` 一致
+ *
+ * - throw: 作为未捕获异常处理（Node.js 15+ 默认）
+ * - strict: 由 Node.js 直接作为未捕获异常抛出
+ * - warn / warn-with-error-code / none: 进程继续运行，后者将退出码设为 1
+ */
+export type UnhandledRejectionMode = 'throw' | 'strict' | 'warn' | 'warn-with-error-code' | 'none'
+
+/** 启动参数中的 `--unhandled-rejections` 模式 */
+const UNHANDLED_REJECTIONS_FLAG = /--unhandled-rejections[= ](throw|strict|warn-with-error-code|warn|none)\b/
+
+/**
+ * 读取进程启动参数与 `NODE_OPTIONS` 中的 `--unhandled-rejections` 模式
+ *
+ * @returns 未指定时返回默认模式 `throw`
+ */
+export function getUnhandledRejectionMode(): UnhandledRejectionMode {
+  const nodeProcess = getNodeProcess()
+  if (!nodeProcess) {
+    return 'throw'
+  }
+  const args = [...nodeProcess.execArgv, nodeProcess.env.NODE_OPTIONS ?? ''].join(' ')
+  return (UNHANDLED_REJECTIONS_FLAG.exec(args)?.[1] as UnhandledRejectionMode | undefined) ?? 'throw'
+}
+
+/**
+ * Node.js 进程事件回调
+ */
+export interface NodeProcessHandlers {
+  /** 未捕获异常 */
+  onUncaughtException?: (error: Error, origin: string) => void
+  /** 未处理的 Promise 拒绝 */
+  onUnhandledRejection?: (reason: unknown) => void
+  /** 进程警告 */
+  onWarning?: (warning: Error) => void
+}
+
+/**
+ * 监听 Node.js 进程错误事件
+ *
+ * @remarks
+ * 注册 `uncaughtException` 监听后 Node.js 不会再自动退出进程，
+ * 调用方需自行决定退出策略
+ *
+ * @param handlers - 事件回调
+ * @returns 移除监听的函数
+ */
+export function instrumentNodeProcess(handlers: NodeProcessHandlers): () => void {
+  const nodeProcess = getNodeProcess()
+  if (!nodeProcess) {
+    return () => {}
+  }
+
+  const { onUncaughtException, onUnhandledRejection, onWarning } = handlers
+  const listeners: [string, (...args: never[]) => void][] = []
+
+  if (onUncaughtException) {
+    const listener = (error: Error, origin: string): void => onUncaughtException(error, origin)
+    nodeProcess.on('uncaughtException', listener)
+    listeners.push(['uncaughtException', listener])
+  }
+
+  if (onUnhandledRejection) {
+    const listener = (reason: unknown): void => onUnhandledRejection(reason)
+    nodeProcess.on('unhandledRejection', listener)
+    listeners.push(['unhandledRejection', listener])
+  }
+
+  if (onWarning) {
+    const listener = (warning: Error): void => onWarning(warning)
+    nodeProcess.on('warning', listener)
+    listeners.push(['warning', listener])
+  }
+
+  return () => {
+    for (const [event, listener] of listeners) {
+      nodeProcess.removeListener(event, listener as (...args: unknown[]) => void)
+    }
+  }
+}
+
+/**
+ * 在超时时间内等待 Promise
+ *
+ * @param promise - 待等待的 Promise
+ * @param timeout - 超时时间（毫秒）
+ * @returns Promise 完成或超时后 resolve（不会 reject）
+ */
+export function settleWithin(promise: Promise<unknown>, timeout: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, timeout)
+    promise.then(
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+    )
+  })
+}
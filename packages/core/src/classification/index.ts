@@ -0,0 +1,6 @@
+/**
+ * 错误级别分类模块
+ * @packageDocumentation
+ */
+
+export * from './level-classifier'
@@ -0,0 +1,341 @@
+/**
+ * 错误级别分类
+ *
+ * @description 按来源、名称、消息、地址、HTTP 状态码与堆栈文件名为错误分配级别，
+ * 并在同一指纹短时间内频繁出现时提升级别
+ *
+ * @example
+ * ```ts
+ * const classifier = new LevelClassifier({
+ *   rules: [
+ *     { source: ErrorSource.RESOURCE, level: ErrorLevel.WARNING },
+ *     { status: [400, 499], level: ErrorLevel.WARNING },
+ *     { filename: /chrome-extension:\/\//, level: ErrorLevel.INFO },
+ *   ],
+ *   escalation: [
+ *     { threshold: 10, window: 60_000, level: ErrorLevel.FATAL },
+ *   ],
+ * })
+ *
+ * const { level, escalated } = classifier.classify(errorInfo)
+ * ```
+ */
+
+import type { ErrorInfo, ErrorLevelType, ErrorSource } from '../types'
+import { ERROR_LEVEL_WEIGHT } from '../constants'
+import { ErrorLevel } from '../types'
+import { parseStack } from '../utils/stack'
+
+/**
+ * 文本匹配条件：字符串为包含匹配，正则为模式匹配
+ */
+export type TextMatcher = string | RegExp
+
+/**
+ * 错误匹配条件
+ *
+ * @remarks
+ * 同一条件中的多个字段需同时满足；未设置的字段不参与匹配
+ */
+export interface ErrorMatcher {
+  /** 错误来源，可传多个 */
+  source?: ErrorSource | ErrorSource[]
+  /** 错误名称，如 `TypeError`、`HttpError` */
+  name?: TextMatcher
+  /** 错误消息 */
+  message?: TextMatcher
+  /** 地址：请求地址、资源地址，缺省时为页面地址 */
+  url?: TextMatcher
+  /** HTTP 状态码或闭区间 */
+  status?: number | [number, number]
+  /** 首个堆栈帧的文件名 */
+  filename?: TextMatcher
+}
+
+/**
+ * 级别分类规则
+ */
+export interface LevelRule extends ErrorMatcher {
+  /** 命中后分配的级别 */
+  level: ErrorLevel
+  /** 是否覆盖显式指定的级别（captureMessage 的 level、AppError.level、Node.js 致命错误）@default false */
+  override?: boolean
+}
+
+/**
+ * 级别提升规则
+ *
+ * @remarks
+ * 同一指纹在 `window` 毫秒内出现 `threshold` 次及以上时提升到 `level`
+ */
+export interface EscalationRule {
+  /** 触发次数 */
+  threshold: number
+  /** 统计窗口（毫秒） */
+  window: number
+  /** 提升后的级别 @default 'fatal' */
+  level?: ErrorLevel
+  /** 仅对满足条件的错误生效 */
+  match?: ErrorMatcher
+}
+
+/**
+ * 级别分类器配置
+ */
+export interface LevelClassifierOptions {
+  /** 分类规则，按顺序匹配，首个命中的规则生效 */
+  rules?: LevelRule[]
+  /** 提升规则，取所有命中规则中的最高级别 */
+  escalation?: EscalationRule[]
+  /** 最多跟踪的指纹数 @default 500 */
+  maxTrackedFingerprints?: number
+}
+
+/**
+ * 分类结果
+ */
+export interface LevelClassification {
+  /** 最终级别 */
+  level: ErrorLevel
+  /** 分类规则确定的级别（提升前） */
+  baseLevel: ErrorLevel
+  /** 是否由提升规则提升 */
+  escalated: boolean
+  /** 是否为本窗口内首次达到提升阈值 */
+  escalatedNow: boolean
+}
+
+/**
+ * 比较两个错误级别
+ *
+ * @param a - 级别 a
+ * @param b - 级别 b
+ * @returns a 比 b 严重时为正数，相同时为 0，否则为负数
+ */
+export function compareLevels(a: ErrorLevelType, b: ErrorLevelType): number {
+  return ERROR_LEVEL_WEIGHT[a] - ERROR_LEVEL_WEIGHT[b]
+}
+
+/**
+ * 检查级别是否达到阈值
+ *
+ * @param level - 错误级别
+ * @param minLevel - 最低级别
+ * @returns level 不低于 minLevel 时为 true
+ */
+export function isLevelAtLeast(level: ErrorLevelType, minLevel: ErrorLevelType): boolean {
+  return compareLevels(level, minLevel) >= 0
+}
+
+/**
+ * 文本匹配
+ */
+function matchText(value: string | undefined, matcher: TextMatcher): boolean {
+  if (value === undefined) {
+    return false
+  }
+  return typeof matcher === 'string' ? value.includes(matcher) : matcher.test(value)
+}
+
+/**
+ * 读取错误相关的地址：请求地址 → 资源地址 → 页面地址
+ */
+function getEventUrl(errorInfo: ErrorInfo): string | undefined {
+  const { extra } = errorInfo
+  if (typeof extra?.url === 'string') {
+    return extra.url
+  }
+  if (typeof extra?.resourceUrl === 'string') {
+    return extra.resourceUrl
+  }
+  return errorInfo.url
+}
+
+/**
+ * 读取 HTTP 状态码：网络错误的 `extra.status` 或应用错误的 `httpStatus` 标签
+ */
+function getEventStatus(errorInfo: ErrorInfo): number | undefined {
+  const status = errorInfo.extra?.status
+  if (typeof status === 'number' && status > 0) {
+    return status
+  }
+  const tag = errorInfo.tags?.httpStatus
+  return tag !== undefined && /^\d+$/.test(tag) ? Number(tag) : undefined
+}
+
+/**
+ * 读取首个堆栈帧的文件名，无堆栈时使用 window.onerror 提供的脚本地址
+ */
+function getEventFilename(errorInfo: ErrorInfo): string | undefined {
+  const frame = (errorInfo.frames ?? parseStack(errorInfo.stack)).find(frame => frame.fileName)
+  if (frame?.fileName) {
+    return frame.fileName
+  }
+  const source = errorInfo.extra?.source
+  return typeof source === 'string' ? source : undefined
+}
+
+/**
+ * 检查错误是否满足匹配条件
+ *
+ * @param errorInfo - 错误信息
+ * @param matcher - 匹配条件
+ * @returns 是否满足全部条件
+ */
+export function matchesError(errorInfo: ErrorInfo, matcher: ErrorMatcher): boolean {
+  const { source, name, message, url, status, filename } = matcher
+
+  if (source !== undefined) {
+    const sources = Array.isArray(source) ? source : [source]
+    if (!sources.includes(errorInfo.source)) {
+      return false
+    }
+  }
+
+  if (name !== undefined && !matchText(errorInfo.name, name)) {
+    return false
+  }
+
+  if (message !== undefined && !matchText(errorInfo.message, message)) {
+    return false
+  }
+
+  if (url !== undefined && !matchText(getEventUrl(errorInfo), url)) {
+    return false
+  }
+
+  if (status !== undefined) {
+    const eventStatus = getEventStatus(errorInfo)
+    if (eventStatus === undefined) {
+      return false
+    }
+    const [min, max] = Array.isArray(status) ? status : [status, status]
+    if (eventStatus < min || eventStatus > max) {
+      return false
+    }
+  }
+
+  if (filename !== undefined && !matchText(getEventFilename(errorInfo), filename)) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * 错误级别分类器
+ *
+ * @remarks
+ * - 分类规则只决定初始级别，首个命中的规则生效；无命中时保留原级别。显式指定的级别只被 `override` 规则覆盖
+ * - 提升规则按指纹统计窗口内的出现次数，可与去重配合：重复事件同样计数
+ */
+export class LevelClassifier {
+  /** 分类规则 */
+  private rules: LevelRule[]
+
+  /** 提升规则 */
+  private escalation: EscalationRule[]
+
+  /** 最多跟踪的指纹数 */
+  private maxTracked: number
+
+  /** 出现时间记录（`规则序号:指纹` → 最近 threshold 次的时间戳，按时间升序） */
+  private occurrences = new Map<string, number[]>()
+
+  /**
+   * 创建级别分类器
+   *
+   * @param options - 配置选项
+   */
+  constructor(options: LevelClassifierOptions = {}) {
+    this.rules = options.rules ?? []
+    this.escalation = options.escalation ?? []
+    this.maxTracked = options.maxTrackedFingerprints ?? 500
+  }
+
+  /**
+   * 按分类规则确定级别
+   *
+   * @param errorInfo - 错误信息
+   * @param explicit - 级别是否为显式指定，为 true 时只匹配 `override` 规则
+   * @returns 首个命中规则的级别，无命中时返回 undefined
+   */
+  match(errorInfo: ErrorInfo, explicit = false): ErrorLevel | undefined {
+    return this.rules.find(rule => (!explicit || rule.override) && matchesError(errorInfo, rule))?.level
+  }
+
+  /**
+   * 分类并记录出现次数
+   *
+   * @param errorInfo - 错误信息（需已生成指纹才会参与提升统计）
+   * @param explicit - 级别是否为显式指定
+   * @returns 分类结果
+   */
+  classify(errorInfo: ErrorInfo, explicit = false): LevelClassification {
+    const baseLevel = this.match(errorInfo, explicit) ?? errorInfo.level
+    let level = baseLevel
+    let escalated = false
+    let escalatedNow = false
+
+    const { fingerprint } = errorInfo
+    if (!fingerprint) {
+      return { level, baseLevel, escalated, escalatedNow }
+    }
+
+    this.escalation.forEach((rule, index) => {
+      if (rule.match && !matchesError(errorInfo, rule.match)) {
+        return
+      }
+
+      const count = this.record(`${index}:${fingerprint}`, errorInfo.timestamp, rule)
+      if (count < rule.threshold) {
+        return
+      }
+
+      const target = rule.level ?? ErrorLevel.FATAL
+      if (compareLevels(target, level) > 0) {
+        level = target
+        escalated = true
+        escalatedNow = escalatedNow || count === rule.threshold
+      }
+    })
+
+    return { level, baseLevel, escalated, escalatedNow }
+  }
+
+  /**
+   * 清空出现次数记录
+   */
+  reset(): this {
+    this.occurrences.clear()
+    return this
+  }
+
+  /**
+   * 记录一次出现并返回窗口内的次数
+   *
+   * @remarks
+   * 只保留最近 threshold 次的时间戳，超过阈值后返回 threshold + 1
+   */
+  private record(key: string, timestamp: number, { window, threshold }: EscalationRule): number {
+    const times = (this.occurrences.get(key) ?? []).filter(time => timestamp - time < window)
+    const count = times.length + 1
+    times.push(timestamp)
+    if (times.length > threshold) {
+      times.splice(0, times.length - threshold)
+    }
+
+    // 重新插入以保持最近使用的记录在末尾
+    this.occurrences.delete(key)
+    this.occurrences.set(key, times)
+
+    if (this.occurrences.size > this.maxTracked) {
+      const oldest = this.occurrences.keys().next().value
+      if (oldest !== undefined) {
+        this.occurrences.delete(oldest)
+      }
+    }
+
+    return count
+  }
+}
@@ -3,6 +3,8 @@
  * @module constants
  */
 
+import { ErrorLevel } from './types'
+
 /**
  * 默认错误捕获器配置
  */
@@ -17,16 +19,58 @@ export const DEFAULT_CATCHER_OPTIONS = {
   captureResourceErrors: true,
   /** 是否捕获网络错误 */
   captureNetworkErrors: true,
+  /** 视为错误的 HTTP 状态码区间 */
+  networkErrorStatusRanges: [[500, 599]],
+  /** 是否拦截控制台错误 */
+  captureConsoleErrors: false,
+  /** 作为错误事件上报的控制台级别 */
+  consoleLevels: ['error', 'warn'],
   /** 最大面包屑数量 */
   maxBreadcrumbs: 50,
+  /** 自动面包屑采集 */
+  autoBreadcrumbs: {
+    click: true,
+    input: true,
+    navigation: true,
+  },
   /** 是否启用去重 */
   enableDeduplication: true,
   /** 去重时间窗口（毫秒） */
   deduplicationWindow: 5 * 60 * 1000, // 5 分钟
+  /** 重复错误汇总上报间隔（毫秒） */
+  occurrenceFlushInterval: 60 * 1000,
+  /** cause 链与 AggregateError 的最大展开深度 */
+  maxExceptionDepth: 5,
+  /** 指纹是否包含关联异常 */
+  fingerprintCauses: true,
+  /** 指纹是否包含版本信息 */
+  fingerprintRelease: false,
+  /** 最低级别 */
+  minLevel: ErrorLevel.INFO,
+  /** 异步事件处理器的默认超时时间（毫秒） */
+  processorTimeout: 1000,
+  /** 是否启用会话跟踪 */
+  enableSession: true,
+  /** 会话无活动超时（毫秒） */
+  sessionTimeout: 30 * 60 * 1000, // 30 分钟
+  /** 会话更新间隔（毫秒） */
+  sessionUpdateInterval: 60 * 1000,
+  /** 是否持久化会话 */
+  persistSession: true,
   /** 是否启用限流 */
   enableRateLimit: true,
   /** 限流：每分钟最大错误数 */
   maxErrorsPerMinute: 100,
+  /** 限流：同一指纹每分钟最大错误数 */
+  maxErrorsPerFingerprint: 10,
+  /** 限流：同一来源每分钟最大错误数 */
+  maxErrorsPerSource: 50,
+  /** 是否捕获 Node.js 进程警告 */
+  captureWarnings: true,
+  /** 未捕获异常时是否退出进程（Node.js） */
+  exitOnFatal: true,
+  /** 致命错误退出前的最长等待时间（毫秒） */
+  fatalExitTimeout: 2000,
 } as const
 
 /**
@@ -47,6 +91,10 @@ export const DEFAULT_REPORTER_OPTIONS = {
   retryDelay: 1000,
   /** 采样率（0-1） */
   sampleRate: 1,
+  /** 是否按会话确定性采样 */
+  sessionSampling: true,
+  /** 新指纹的首次出现是否始终保留 */
+  keepNewFingerprints: false,
   /** 是否启用离线缓存 */
   enableOfflineCache: true,
   /** 离线缓存最大数量 */
@@ -57,6 +105,8 @@ export const DEFAULT_REPORTER_OPTIONS = {
   useBeacon: true,
   /** 是否在页面卸载时发送 */
   sendOnUnload: true,
+  /** 会话上报地址 */
+  sessionEndpoint: '/api/sessions',
 } as const
 
 /**
@@ -105,10 +155,55 @@ export const DEFAULT_IGNORE_PATTERNS = [
 ] as const
 
 /**
- * 最大堆栈长度
+ * 默认视为非应用代码的文件模式
+ *
+ * 第三方依赖、浏览器扩展与运行时内部模块
+ */
+export const DEFAULT_IN_APP_EXCLUDE = [
+  // 第三方依赖
+  /\/node_modules\//,
+  // 浏览器扩展
+  /^(?:chrome|moz|safari(?:-web)?)-extension:\/\//,
+  // Node.js 内部模块
+  /^node:/,
+  /^internal\//,
+  // 打包工具运行时
+  /^webpack\/runtime\//,
+] as const
+
+/**
+ * 默认清洗的键名（不区分大小写的包含匹配）
+ */
+export const DEFAULT_SCRUB_KEYS = [
+  'password',
+  'passwd',
+  'pwd',
+  'secret',
+  'token',
+  'authorization',
+  'cookie',
+  'apikey',
+  'api_key',
+  'credential',
+  'creditcard',
+  'card_number',
+  'cardnumber',
+  'cvv',
+  'ssn',
+  'idcard',
+  'id_card',
+] as const
+
+/**
+ * 最大堆栈长度（帧数）
  */
 export const MAX_STACK_LENGTH = 50
 
+/**
+ * 单个事件最多记录的关联异常数量
+ */
+export const MAX_LINKED_EXCEPTIONS = 20
+
 /**
  * 最大错误消息长度
  */
@@ -119,7 +214,37 @@ export const MAX_MESSAGE_LENGTH = 1000
  */
 export const MAX_EXTRA_SIZE = 10 * 1024 // 10KB
 
+/**
+ * 单个事件的最大大小（字节）
+ */
+export const MAX_EVENT_SIZE = 100 * 1024 // 100KB
+
+/**
+ * 默认事件规范化配置
+ */
+export const DEFAULT_NORMALIZE_OPTIONS = {
+  /** 对象最大深度 */
+  maxDepth: 5,
+  /** 对象最大键数与数组最大长度 */
+  maxBreadth: 100,
+  /** 字符串最大长度 */
+  maxStringLength: 1000,
+  /** 错误消息最大长度 */
+  maxMessageLength: MAX_MESSAGE_LENGTH,
+  /** 堆栈最大帧数 */
+  maxStackFrames: MAX_STACK_LENGTH,
+  /** extra 最大字节数 */
+  maxExtraSize: MAX_EXTRA_SIZE,
+  /** 事件最大字节数 */
+  maxEventSize: MAX_EVENT_SIZE,
+} as const
+
 /**
  * 版本号
  */
-export const VERSION = '1.0.0'
+export const VERSION = '2.0.0'
+
+/**
+ * SDK 名称
+ */
+export const SDK_NAME = '@ldesign/error-core'
@@ -0,0 +1,294 @@
+/**
+ * 应用错误类
+ *
+ * @description 携带错误码、级别、可重试标记、HTTP 状态码与元数据的可序列化错误，
+ * 可通过 toJSON/fromJSON 在 Worker 与网络之间往返传递
+ *
+ * @example
+ * ```ts
+ * throw new ValidationError('手机号格式不正确', {
+ *   code: 'PHONE_INVALID',
+ *   metadata: { field: 'phone' },
+ * })
+ *
+ * // 跨 Worker/网络传递
+ * const json = JSON.stringify(error)
+ * const restored = AppError.fromJSON(JSON.parse(json))
+ * restored instanceof ValidationError // true
+ * ```
+ */
+
+import { defaultErrorCatalog } from '../catalog/error-catalog'
+import { ErrorLevel } from '../types'
+
+/**
+ * 应用错误配置
+ */
+export interface AppErrorOptions {
+  /** 错误码 */
+  code?: string
+  /** 错误级别，默认取错误码目录中登记的级别 */
+  level?: ErrorLevel
+  /** 是否可重试 */
+  retryable?: boolean
+  /** 对应的 HTTP 状态码 */
+  httpStatus?: number
+  /** 元数据 */
+  metadata?: Record<string, unknown>
+  /** 原始错误 */
+  cause?: unknown
+}
+
+/**
+ * 应用错误的序列化形式
+ */
+export interface SerializedAppError {
+  /** 序列化标识 */
+  __appError: true
+  name: string
+  message: string
+  code: string
+  level: ErrorLevel
+  retryable: boolean
+  httpStatus?: number
+  metadata: Record<string, unknown>
+  stack?: string
+  /** 原始错误（AppError 递归序列化，其他错误仅保留 name/message/stack） */
+  cause?: unknown
+}
+
+/**
+ * 应用错误构造函数
+ */
+export type AppErrorConstructor = new (message?: string, options?: AppErrorOptions) => AppError
+
+/** 已注册的错误类（名称 → 构造函数），用于 fromJSON 还原具体子类 */
+const registry = new Map<string, AppErrorConstructor>()
+
+/**
+ * 获取错误码的默认级别（目录中登记的级别优先）
+ */
+function getDefaultLevel(code: string, fallback: ErrorLevel): ErrorLevel {
+  return defaultErrorCatalog.get(code)?.level ?? fallback
+}
+
+/**
+ * 序列化原始错误
+ */
+function serializeCause(cause: unknown): unknown {
+  if (cause instanceof AppError) {
+    return cause.toJSON()
+  }
+  if (cause instanceof Error) {
+    return { name: cause.name, message: cause.message, stack: cause.stack }
+  }
+  return cause
+}
+
+/**
+ * 还原原始错误
+ */
+function deserializeCause(cause: unknown): unknown {
+  if (AppError.isSerialized(cause)) {
+    return AppError.fromJSON(cause)
+  }
+  if (typeof cause === 'object' && cause !== null && typeof (cause as { message?: unknown }).message === 'string') {
+    const { name, message, stack } = cause as { name?: string, message: string, stack?: string }
+    const error = new Error(message)
+    error.name = name ?? 'Error'
+    error.stack = stack
+    return error
+  }
+  return cause
+}
+
+/**
+ * 应用错误基类
+ */
+export class AppError extends Error {
+  /** 错误码 */
+  readonly code: string
+
+  /** 错误级别 */
+  readonly level: ErrorLevel
+
+  /** 是否可重试 */
+  readonly retryable: boolean
+
+  /** 对应的 HTTP 状态码 */
+  readonly httpStatus?: number
+
+  /** 元数据 */
+  readonly metadata: Record<string, unknown>
+
+  /** 原始错误 */
+  readonly cause?: unknown
+
+  /**
+   * @param message - 错误消息
+   * @param options - 错误配置
+   */
+  constructor(message = 'Application error', options: AppErrorOptions = {}) {
+    super(message)
+    this.name = 'AppError'
+    this.code = options.code ?? 'APP_ERROR'
+    this.level = options.level ?? getDefaultLevel(this.code, ErrorLevel.ERROR)
+    this.retryable = options.retryable ?? false
+    this.httpStatus = options.httpStatus
+    this.metadata = { ...options.metadata }
+    if (options.cause !== undefined) {
+      this.cause = options.cause
+    }
+  }
+
+  /**
+   * 序列化为可 JSON 化的对象
+   *
+   * @remarks
+   * `JSON.stringify(error)` 会自动调用此方法
+   */
+  toJSON(): SerializedAppError {
+    return {
+      __appError: true,
+      name: this.name,
+      message: this.message,
+      code: this.code,
+      level: this.level,
+      retryable: this.retryable,
+      httpStatus: this.httpStatus,
+      metadata: { ...this.metadata },
+      stack: this.stack,
+      cause: this.cause === undefined ? undefined : serializeCause(this.cause),
+    }
+  }
+
+  /**
+   * 从序列化对象还原
+   *
+   * @remarks
+   * 按 name 查找已注册的子类，未注册时还原为 AppError 并保留原 name
+   *
+   * @param json - 序列化对象
+   * @returns 应用错误实例
+   */
+  static fromJSON(json: SerializedAppError): AppError {
+    const ErrorClass = registry.get(json.name) ?? AppError
+    const error = new ErrorClass(json.message, {
+      code: json.code,
+      level: json.level,
+      retryable: json.retryable,
+      httpStatus: json.httpStatus,
+      metadata: json.metadata,
+      cause: json.cause === undefined ? undefined : deserializeCause(json.cause),
+    })
+    error.name = json.name
+    if (json.stack !== undefined) {
+      error.stack = json.stack
+    }
+    return error
+  }
+
+  /**
+   * 检查值是否为 AppError 的序列化形式
+   *
+   * @param value - 任意值
+   */
+  static isSerialized(value: unknown): value is SerializedAppError {
+    return typeof value === 'object'
+      && value !== null
+      && (value as { __appError?: unknown }).__appError === true
+      && typeof (value as { name?: unknown }).name === 'string'
+  }
+
+  /**
+   * 注册错误类，使 fromJSON 能还原为该子类
+   *
+   * @param name - 错误名称（与实例的 name 一致）
+   * @param ErrorClass - 构造函数，签名需与 AppError 一致
+   */
+  static register(name: string, ErrorClass: AppErrorConstructor): void {
+    registry.set(name, ErrorClass)
+  }
+}
+
+/**
+ * 网络错误（默认可重试）
+ */
+export class NetworkError extends AppError {
+  constructor(message = 'Network request failed', options: AppErrorOptions = {}) {
+    super(message, { code: 'NETWORK_ERROR', retryable: true, ...options })
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * 超时错误（默认可重试）
+ */
+export class TimeoutError extends AppError {
+  constructor(message = 'Operation timed out', options: AppErrorOptions = {}) {
+    super(message, { code: 'TIMEOUT', retryable: true, ...options })
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * 校验错误（默认 WARNING，HTTP 400）
+ */
+export class ValidationError extends AppError {
+  constructor(message = 'Validation failed', options: AppErrorOptions = {}) {
+    super(message, {
+      code: 'VALIDATION_ERROR',
+      httpStatus: 400,
+      ...options,
+      level: options.level ?? getDefaultLevel(options.code ?? 'VALIDATION_ERROR', ErrorLevel.WARNING),
+    })
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * 认证/授权错误（默认 WARNING，HTTP 401）
+ */
+export class AuthError extends AppError {
+  constructor(message = 'Authentication required', options: AppErrorOptions = {}) {
+    super(message, {
+      code: 'AUTH_ERROR',
+      httpStatus: 401,
+      ...options,
+      level: options.level ?? getDefaultLevel(options.code ?? 'AUTH_ERROR', ErrorLevel.WARNING),
+    })
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * 资源不存在错误（默认 WARNING，HTTP 404）
+ */
+export class NotFoundError extends AppError {
+  constructor(message = 'Resource not found', options: AppErrorOptions = {}) {
+    super(message, {
+      code: 'NOT_FOUND',
+      httpStatus: 404,
+      ...options,
+      level: options.level ?? getDefaultLevel(options.code ?? 'NOT_FOUND', ErrorLevel.WARNING),
+    })
+    this.name = 'NotFoundError'
+  }
+}
+
+// 注册内置错误类
+AppError.register('AppError', AppError)
+AppError.register('NetworkError', NetworkError)
+AppError.register('TimeoutError', TimeoutError)
+AppError.register('ValidationError', ValidationError)
+AppError.register('AuthError', AuthError)
+AppError.register('NotFoundError', NotFoundError)
+
+/**
+ * 检查是否为应用错误
+ *
+ * @param error - 任意值
+ */
+export function isAppError(error: unknown): error is AppError {
+  return error instanceof AppError
+}
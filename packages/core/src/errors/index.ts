@@ -0,0 +1,6 @@
+/**
+ * 应用错误模块
+ * @packageDocumentation
+ */
+
+export * from './app-error'
@@ -25,18 +25,42 @@
  * ```
  */
 
-// 类型导出
-export * from './types'
+// 错误码目录
+export * from './catalog'
+
+// 错误捕获器
+export * from './catcher'
+
+// 错误级别分类
+export * from './classification'
 
 // 常量导出
 export * from './constants'
 
-// 工具函数导出
-export * from './utils'
+// 应用错误
+export * from './errors'
 
-// 错误捕获器
-export * from './catcher'
+// 集成
+export * from './integrations'
+
+// 隐私保护
+export * from './privacy'
 
 // 错误上报器
 export * from './reporter'
 
+// 作用域
+export * from './scope'
+
+// 会话
+export * from './session'
+
+// 类型导出
+export * from './types'
+
+// 工具函数导出
+export * from './utils'
+
+// Worker 错误捕获
+export * from './worker'
+
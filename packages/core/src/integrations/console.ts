@@ -0,0 +1,96 @@
+/**
+ * 控制台集成
+ *
+ * @description 拦截 console 方法：每次调用记录为面包屑，
+ * 命中配置级别时上报 CONSOLE 错误，参数中的 Error 对象直接上报（保留堆栈、cause 与内部错误）
+ *
+ * @module integrations/console
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { ConsoleLevel } from '../types'
+import type { Integration } from './integration'
+import { instrumentConsole, serializeConsoleArg, serializeConsoleArgs } from '../catcher/console'
+import { ErrorLevel, ErrorSource } from '../types'
+
+/**
+ * 控制台集成配置
+ */
+export interface ConsoleIntegrationOptions {
+  /** 作为错误事件上报的级别 @default ['error', 'warn'] */
+  levels?: ConsoleLevel[]
+}
+
+/**
+ * 控制台集成
+ */
+export class ConsoleIntegration implements Integration {
+  readonly name = 'Console'
+
+  /** 作为错误事件上报的级别 */
+  private levels: ConsoleLevel[]
+
+  /** 恢复函数 */
+  private restore: (() => void) | null = null
+
+  /**
+   * @param options - 集成配置
+   */
+  constructor(options: ConsoleIntegrationOptions = {}) {
+    this.levels = options.levels ?? ['error', 'warn']
+  }
+
+  setup(catcher: ErrorCatcher): void {
+    this.restore = instrumentConsole((level, args) => this.handleCall(catcher, level, args))
+  }
+
+  teardown(): void {
+    this.restore?.()
+    this.restore = null
+  }
+
+  /**
+   * 处理控制台调用
+   */
+  private handleCall(catcher: ErrorCatcher, level: ConsoleLevel, args: unknown[]): void {
+    const message = serializeConsoleArgs(args)
+    const crumbLevel = level === 'error'
+      ? ErrorLevel.ERROR
+      : level === 'warn' ? ErrorLevel.WARNING : ErrorLevel.INFO
+
+    catcher.addBreadcrumb({
+      type: 'console',
+      category: `console.${level}`,
+      message,
+      data: { level },
+      level: crumbLevel,
+    })
+
+    if (!this.levels.includes(level)) {
+      return
+    }
+
+    const errorArg = args.find((arg): arg is Error => arg instanceof Error)
+    const errorInfo = catcher.createErrorInfo(
+      errorArg ?? this.createConsoleError(level, message),
+      ErrorSource.CONSOLE,
+      {
+        level,
+        arguments: args.map(arg => serializeConsoleArg(arg)),
+      },
+    )
+    errorInfo.level = crumbLevel
+    catcher.captureEvent(errorInfo)
+  }
+
+  /**
+   * 为不含 Error 参数的调用创建错误
+   */
+  private createConsoleError(level: ConsoleLevel, message: string): Error {
+    const error = new Error(message || `console.${level}`)
+    error.name = 'ConsoleError'
+    // 非 Error 参数没有有意义的堆栈，避免记录拦截器自身的调用栈
+    error.stack = undefined
+    return error
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * 默认集成
+ *
+ * @module integrations/defaults
+ */
+
+import type { ResolvedErrorCatcherOptions } from '../types'
+import type { Integration, IntegrationsOption } from './integration'
+import { ConsoleIntegration } from './console'
+import { DeviceContextIntegration } from './device-context'
+import { DomBreadcrumbsIntegration } from './dom-breadcrumbs'
+import { GlobalErrorsIntegration } from './global-errors'
+import { NetworkIntegration } from './network'
+import { NodeProcessIntegration } from './node-process'
+import { PerformanceContextIntegration } from './performance-context'
+import { ResourceErrorsIntegration } from './resource-errors'
+import { UnhandledRejectionIntegration } from './unhandled-rejection'
+
+/**
+ * 根据捕获器配置创建默认集成
+ *
+ * @remarks
+ * 各 `capture*` 开关决定对应集成是否启用；集成自身会判断运行环境
+ *
+ * @param options - 已解析的捕获器配置
+ * @returns 默认集成列表
+ */
+export function getDefaultIntegrations(options: ResolvedErrorCatcherOptions): Integration[] {
+  const integrations: Integration[] = []
+
+  if (options.captureGlobalErrors) {
+    integrations.push(new GlobalErrorsIntegration())
+  }
+
+  if (options.captureUnhandledRejections) {
+    integrations.push(new UnhandledRejectionIntegration())
+  }
+
+  if (options.captureResourceErrors) {
+    integrations.push(new ResourceErrorsIntegration())
+  }
+
+  if (options.captureNetworkErrors) {
+    integrations.push(new NetworkIntegration({
+      statusRanges: options.networkErrorStatusRanges,
+      ignoreUrls: options.networkIgnoreUrls,
+    }))
+  }
+
+  if (options.captureConsoleErrors) {
+    integrations.push(new ConsoleIntegration({ levels: options.consoleLevels }))
+  }
+
+  const { click, input, navigation } = options.autoBreadcrumbs
+  if (click || input || navigation) {
+    integrations.push(new DomBreadcrumbsIntegration(options.autoBreadcrumbs))
+  }
+
+  if (options.deviceContext) {
+    integrations.push(new DeviceContextIntegration(options.deviceContext))
+  }
+
+  if (options.performanceContext) {
+    integrations.push(new PerformanceContextIntegration(options.performanceContext))
+  }
+
+  integrations.push(new NodeProcessIntegration({
+    uncaughtException: options.captureGlobalErrors,
+    unhandledRejection: options.captureUnhandledRejections,
+    warning: options.captureWarnings,
+    exitOnFatal: options.exitOnFatal,
+    fatalExitTimeout: options.fatalExitTimeout,
+    onFatalError: options.onFatalError,
+  }))
+
+  return integrations
+}
+
+/**
+ * 合并默认集成与用户配置
+ *
+ * @param defaults - 默认集成
+ * @param option - 用户配置
+ * @returns 按名称去重后的集成列表（后者替换前者并保留其位置）
+ */
+export function resolveIntegrations(defaults: Integration[], option?: IntegrationsOption): Integration[] {
+  const list = typeof option === 'function'
+    ? option(defaults)
+    : [...defaults, ...(option ?? [])]
+
+  const byName = new Map<string, Integration>()
+  for (const integration of list) {
+    byName.set(integration.name, integration)
+  }
+  return [...byName.values()]
+}
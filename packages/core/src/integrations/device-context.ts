@@ -0,0 +1,302 @@
+/**
+ * 设备上下文集成
+ *
+ * @description 为每个事件补充浏览器、操作系统、设备、语言区域与网络上下文，
+ * 后端无需解析 User-Agent 即可按这些维度聚合错误（浏览器与 Worker）
+ *
+ * @module integrations/device-context
+ */
+
+import type { ErrorContexts, ErrorInfo } from '../types'
+import type { ParsedUserAgent } from '../utils/user-agent'
+import type { Integration } from './integration'
+import { getUserAgent, isBrowser } from '../utils/env'
+import { parseUserAgent } from '../utils/user-agent'
+
+/**
+ * 设备上下文集成配置
+ */
+export interface DeviceContextOptions {
+  /** 是否采集屏幕、视口与像素比（仅浏览器）@default true */
+  screen?: boolean
+  /** 是否采集网络信息（`navigator.connection`）@default true */
+  network?: boolean
+  /** 是否请求高熵 userAgentData（设备型号、系统版本、完整浏览器版本）@default true */
+  highEntropy?: boolean
+}
+
+/**
+ * 品牌与版本（User-Agent Client Hints）
+ */
+interface UserAgentBrand {
+  brand: string
+  version: string
+}
+
+/**
+ * 高熵 userAgentData
+ */
+interface HighEntropyValues {
+  architecture?: string
+  bitness?: string
+  model?: string
+  platformVersion?: string
+  fullVersionList?: UserAgentBrand[]
+}
+
+/**
+ * `navigator.userAgentData`（仅 Chromium）
+ */
+interface UserAgentData {
+  brands: UserAgentBrand[]
+  mobile: boolean
+  platform: string
+  getHighEntropyValues?: (hints: string[]) => Promise<HighEntropyValues>
+}
+
+/**
+ * `navigator.connection`
+ */
+interface NetworkInformation {
+  type?: string
+  effectiveType?: string
+  downlink?: number
+  rtt?: number
+  saveData?: boolean
+}
+
+/**
+ * 包含实验性 API 的 navigator
+ */
+type ExtendedNavigator = Navigator & {
+  userAgentData?: UserAgentData
+  connection?: NetworkInformation
+  deviceMemory?: number
+}
+
+/** 请求的高熵字段 */
+const HIGH_ENTROPY_HINTS = ['architecture', 'bitness', 'model', 'platformVersion', 'fullVersionList']
+
+/** 浏览器为防止 UA 嗅探插入的占位品牌，如 `Not_A Brand` */
+const GREASE_BRAND = /not.?a.?brand/i
+
+/**
+ * 移除值为 undefined 的字段
+ */
+function compact(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined))
+}
+
+/**
+ * 获取时区（安全）
+ */
+function getTimezone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * 设备上下文集成
+ *
+ * @remarks
+ * 写入 `contexts` 的 browser、os、device、locale 与 network 字段，事件自身的同名上下文优先；
+ * User-Agent 只在 setup 时解析一次，视口与网络状态在每个事件中重新读取。
+ * 支持 User-Agent Client Hints 时以高熵值修正被冻结的系统版本（如 Windows 11、Android）与设备型号
+ *
+ * @example
+ * ```ts
+ * const catcher = new ErrorCatcher({ deviceContext: { network: false } })
+ * // event.contexts.browser => { name: 'WeChat', version: '8.0.44', engine: 'WebKit', webview: true, ... }
+ * ```
+ */
+export class DeviceContextIntegration implements Integration {
+  readonly name = 'DeviceContext'
+
+  /** 已解析的配置 */
+  private options: Required<DeviceContextOptions>
+
+  /** User-Agent 解析结果，未安装或非浏览器环境为 null */
+  private parsed: ParsedUserAgent | null = null
+
+  /** 高熵 userAgentData */
+  private highEntropy: HighEntropyValues = {}
+
+  /** 时区 */
+  private timezone: string | undefined
+
+  /**
+   * @param options - 集成配置
+   */
+  constructor(options: DeviceContextOptions = {}) {
+    this.options = {
+      screen: options.screen ?? true,
+      network: options.network ?? true,
+      highEntropy: options.highEntropy ?? true,
+    }
+  }
+
+  setup(): void {
+    const userAgent = getUserAgent()
+    if (!userAgent) {
+      return
+    }
+
+    const parsed = parseUserAgent(userAgent)
+    this.parsed = parsed
+    this.timezone = getTimezone()
+
+    const uaData = (navigator as ExtendedNavigator).userAgentData
+    if (this.options.highEntropy && typeof uaData?.getHighEntropyValues === 'function') {
+      uaData.getHighEntropyValues(HIGH_ENTROPY_HINTS).then(
+        (values) => {
+          // 请求期间被卸载时丢弃结果
+          if (this.parsed === parsed) {
+            this.highEntropy = values
+          }
+        },
+        () => {},
+      )
+    }
+  }
+
+  teardown(): void {
+    this.parsed = null
+    this.highEntropy = {}
+  }
+
+  processEvent(event: ErrorInfo): ErrorInfo {
+    if (this.parsed) {
+      event.contexts = { ...this.getContexts(), ...event.contexts }
+    }
+    return event
+  }
+
+  /**
+   * 获取当前的设备上下文
+   *
+   * @returns browser、os、device、locale 与 network 上下文，未安装时返回空对象
+   */
+  getContexts(): ErrorContexts {
+    if (!this.parsed) {
+      return {}
+    }
+
+    const contexts: ErrorContexts = {
+      browser: this.getBrowserContext(this.parsed),
+      os: this.getOsContext(this.parsed),
+      device: this.getDeviceContext(this.parsed),
+      locale: compact({
+        language: navigator.language,
+        languages: navigator.languages?.length ? [...navigator.languages] : undefined,
+        timezone: this.timezone,
+        // 与 UTC 的偏移（分钟），东八区为 480
+        utcOffset: -new Date().getTimezoneOffset(),
+      }),
+    }
+
+    if (this.options.network) {
+      const connection = (navigator as ExtendedNavigator).connection
+      contexts.network = compact({
+        online: navigator.onLine,
+        type: connection?.type,
+        effectiveType: connection?.effectiveType,
+        downlink: connection?.downlink,
+        rtt: connection?.rtt,
+        saveData: connection?.saveData,
+      })
+    }
+
+    return contexts
+  }
+
+  /**
+   * 浏览器上下文
+   */
+  private getBrowserContext({ browser, engine }: ParsedUserAgent): Record<string, unknown> {
+    const uaData = (navigator as ExtendedNavigator).userAgentData
+    const brands = uaData?.brands.filter(({ brand }) => !GREASE_BRAND.test(brand))
+
+    // 精简 UA 中的次版本号被冻结为 0，优先使用完整版本号
+    const fullVersion = browser.name
+      ? this.highEntropy.fullVersionList?.find(({ brand }) => brand.includes(browser.name!))?.version
+      : undefined
+
+    return compact({
+      name: browser.name,
+      version: fullVersion ?? browser.version,
+      engine: engine.name,
+      engineVersion: engine.version,
+      webview: browser.webview,
+      brands: brands?.length ? brands.map(({ brand, version }) => `${brand} ${version}`) : undefined,
+    })
+  }
+
+  /**
+   * 操作系统上下文
+   */
+  private getOsContext({ os }: ParsedUserAgent): Record<string, unknown> {
+    const uaData = (navigator as ExtendedNavigator).userAgentData
+    const { platformVersion, architecture, bitness } = this.highEntropy
+
+    let version = os.version
+    if (platformVersion) {
+      // Windows 的 platformVersion 主版本号 13 及以上为 Windows 11
+      if (os.name === 'Windows') {
+        const major = Number.parseInt(platformVersion, 10)
+        version = major >= 13 ? '11' : major > 0 ? '10' : version
+      }
+      else {
+        version = platformVersion
+      }
+    }
+
+    return compact({
+      name: os.name,
+      version,
+      platform: uaData?.platform || undefined,
+      architecture: architecture || undefined,
+      bitness: bitness || undefined,
+    })
+  }
+
+  /**
+   * 设备上下文
+   */
+  private getDeviceContext({ os, device }: ParsedUserAgent): Record<string, unknown> {
+    const nav = navigator as ExtendedNavigator
+    let { type, vendor, model } = device
+
+    // 桌面模式的 iPad 以 Macintosh 标识，通过触控点数区分
+    if (os.name === 'macOS' && nav.maxTouchPoints > 1) {
+      type = 'tablet'
+      vendor = 'Apple'
+      model = 'iPad'
+    }
+
+    const context: Record<string, unknown> = {
+      type: nav.userAgentData?.mobile && type === 'desktop' ? 'mobile' : type,
+      vendor,
+      model: this.highEntropy.model || model,
+      memory: nav.deviceMemory,
+      cores: nav.hardwareConcurrency || undefined,
+      touchPoints: nav.maxTouchPoints || undefined,
+    }
+
+    if (this.options.screen && isBrowser()) {
+      Object.assign(context, {
+        screenWidth: window.screen?.width,
+        screenHeight: window.screen?.height,
+        viewportWidth: window.innerWidth,
+        viewportHeight: window.innerHeight,
+        pixelRatio: window.devicePixelRatio,
+        orientation: window.screen?.orientation?.type,
+      })
+    }
+
+    return compact(context)
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * DOM 面包屑集成
+ *
+ * @description 自动采集点击、输入与路由导航面包屑（仅浏览器）
+ *
+ * @module integrations/dom-breadcrumbs
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { AutoBreadcrumbsOptions } from '../types'
+import type { Integration } from './integration'
+import { instrumentClicks, instrumentInputs, instrumentNavigation } from '../catcher/dom-breadcrumbs'
+import { isBrowser } from '../utils/env'
+
+/**
+ * DOM 面包屑集成
+ */
+export class DomBreadcrumbsIntegration implements Integration {
+  readonly name = 'DomBreadcrumbs'
+
+  /** 采集开关 */
+  private options: Required<AutoBreadcrumbsOptions>
+
+  /** 停止函数 */
+  private restorers: (() => void)[] = []
+
+  /**
+   * @param options - 采集开关，未指定的项默认开启
+   */
+  constructor(options: AutoBreadcrumbsOptions = {}) {
+    this.options = {
+      click: options.click ?? true,
+      input: options.input ?? true,
+      navigation: options.navigation ?? true,
+    }
+  }
+
+  setup(catcher: ErrorCatcher): void {
+    if (!isBrowser()) {
+      return
+    }
+
+    const addCrumb = catcher.addBreadcrumb.bind(catcher)
+    const { click, input, navigation } = this.options
+    if (click) {
+      this.restorers.push(instrumentClicks(addCrumb))
+    }
+    if (input) {
+      this.restorers.push(instrumentInputs(addCrumb))
+    }
+    if (navigation) {
+      this.restorers.push(instrumentNavigation(addCrumb))
+    }
+  }
+
+  teardown(): void {
+    this.restorers.forEach(restore => restore())
+    this.restorers = []
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * 全局错误集成
+ *
+ * @description 浏览器中接管 `window.onerror`（保留原处理器），Worker 中监听全局 `error` 事件
+ *
+ * @module integrations/global-errors
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { Integration } from './integration'
+import { ErrorSource } from '../types'
+import { isBrowser, isWorker } from '../utils/env'
+import { normalizeError } from '../utils/error'
+
+/**
+ * 全局错误集成
+ */
+export class GlobalErrorsIntegration implements Integration {
+  readonly name = 'GlobalErrors'
+
+  /** 卸载函数 */
+  private restore: (() => void) | null = null
+
+  setup(catcher: ErrorCatcher): void {
+    const handleError = (
+      message: string | Event,
+      source?: string,
+      lineno?: number,
+      colno?: number,
+      error?: Error,
+    ): void => {
+      const normalizedError = error ?? normalizeError(message)
+      const errorInfo = catcher.createErrorInfo(
+        normalizedError,
+        ErrorSource.RUNTIME,
+        {
+          source,
+          lineno,
+          colno,
+        },
+      )
+      catcher.captureEvent(errorInfo)
+    }
+
+    if (isBrowser()) {
+      const originalOnError = window.onerror
+      window.onerror = (message, source, lineno, colno, error) => {
+        handleError(message, source, lineno, colno, error)
+        if (originalOnError) {
+          return originalOnError(message, source, lineno, colno, error)
+        }
+        return false
+      }
+      this.restore = () => {
+        window.onerror = originalOnError
+      }
+    }
+    else if (isWorker()) {
+      const onError = (event: ErrorEvent): void => {
+        handleError(event.message, event.filename, event.lineno, event.colno, event.error)
+      }
+      globalThis.addEventListener('error', onError)
+      this.restore = () => globalThis.removeEventListener('error', onError)
+    }
+  }
+
+  teardown(): void {
+    this.restore?.()
+    this.restore = null
+  }
+}
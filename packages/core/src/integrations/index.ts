@@ -0,0 +1,16 @@
+/**
+ * 集成模块
+ * @packageDocumentation
+ */
+
+export * from './console'
+export * from './defaults'
+export * from './device-context'
+export * from './dom-breadcrumbs'
+export * from './global-errors'
+export * from './integration'
+export * from './network'
+export * from './node-process'
+export * from './performance-context'
+export * from './resource-errors'
+export * from './unhandled-rejection'
@@ -0,0 +1,71 @@
+/**
+ * 集成接口
+ *
+ * @description 集成是可插拔的捕获源或事件增强器：
+ * 在 `setup` 中挂载监听并通过捕获器公共 API 提交事件，在 `teardown` 中恢复现场
+ *
+ * @example
+ * ```ts
+ * class VisibilityIntegration implements Integration {
+ *   readonly name = 'Visibility'
+ *   private catcher: ErrorCatcher | null = null
+ *
+ *   setup(catcher: ErrorCatcher): void {
+ *     this.catcher = catcher
+ *   }
+ *
+ *   processEvent(event: ErrorInfo): ErrorInfo {
+ *     event.tags = { ...event.tags, visibility: document.visibilityState }
+ *     return event
+ *   }
+ * }
+ *
+ * catcher.addIntegration(new VisibilityIntegration())
+ * ```
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { ErrorInfo } from '../types'
+
+/**
+ * 集成
+ */
+export interface Integration {
+  /** 唯一名称，同名集成会相互替换 */
+  readonly name: string
+
+  /**
+   * 安装集成
+   *
+   * @remarks
+   * 捕获器 install 时调用；已安装的捕获器上 addIntegration 时立即调用
+   *
+   * @param catcher - 错误捕获器
+   */
+  setup: (catcher: ErrorCatcher) => void
+
+  /**
+   * 卸载集成，移除 setup 中挂载的监听
+   */
+  teardown?: () => void
+
+  /**
+   * 处理事件
+   *
+   * @remarks
+   * 在 beforeCapture 之前按集成顺序调用，返回 null 丢弃事件
+   *
+   * @param event - 错误信息
+   * @returns 处理后的错误信息
+   */
+  processEvent?: (event: ErrorInfo) => ErrorInfo | null
+}
+
+/**
+ * 集成配置
+ *
+ * @remarks
+ * - 数组：追加到默认集成之后，同名时替换默认集成
+ * - 函数：接收默认集成列表，返回最终使用的列表
+ */
+export type IntegrationsOption = Integration[] | ((defaults: Integration[]) => Integration[])
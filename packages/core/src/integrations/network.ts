@@ -0,0 +1,107 @@
+/**
+ * 网络请求集成
+ *
+ * @description 拦截 fetch 与 XMLHttpRequest：每个请求记录为面包屑，
+ * 网络失败或状态码命中配置区间时上报 NETWORK 错误
+ *
+ * @module integrations/network
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { NetworkRequestRecord } from '../catcher/network'
+import type { Integration } from './integration'
+import { instrumentFetch, instrumentXHR, isStatusInRanges, matchesUrlPattern } from '../catcher/network'
+import { ErrorLevel, ErrorSource } from '../types'
+
+/**
+ * 网络请求集成配置
+ */
+export interface NetworkIntegrationOptions {
+  /** 视为错误的 HTTP 状态码区间（闭区间）@default [[500, 599]] */
+  statusRanges?: [number, number][]
+  /** 忽略的请求地址 */
+  ignoreUrls?: (string | RegExp)[]
+}
+
+/**
+ * 网络请求集成
+ */
+export class NetworkIntegration implements Integration {
+  readonly name = 'Network'
+
+  /** 视为错误的状态码区间 */
+  private statusRanges: [number, number][]
+
+  /** 忽略的请求地址 */
+  private ignoreUrls: (string | RegExp)[]
+
+  /** 恢复函数 */
+  private restorers: (() => void)[] = []
+
+  /**
+   * @param options - 集成配置
+   */
+  constructor(options: NetworkIntegrationOptions = {}) {
+    this.statusRanges = options.statusRanges ?? [[500, 599]]
+    this.ignoreUrls = options.ignoreUrls ?? []
+  }
+
+  setup(catcher: ErrorCatcher): void {
+    const handler = (record: NetworkRequestRecord): void => this.handleRequest(catcher, record)
+    this.restorers.push(instrumentFetch(handler), instrumentXHR(handler))
+  }
+
+  teardown(): void {
+    this.restorers.forEach(restore => restore())
+    this.restorers = []
+  }
+
+  /**
+   * 处理网络请求
+   */
+  private handleRequest(catcher: ErrorCatcher, record: NetworkRequestRecord): void {
+    const { type, method, url, status, duration, error, aborted } = record
+
+    // 忽略上报地址等请求，避免循环上报
+    if (matchesUrlPattern(url, this.ignoreUrls)) {
+      return
+    }
+
+    const isHttpError = status > 0 && isStatusInRanges(status, this.statusRanges)
+    const isFailed = !!error && !aborted
+
+    catcher.addBreadcrumb({
+      type,
+      category: type,
+      message: `${method} ${url} [${aborted ? 'aborted' : status || 'failed'}]`,
+      data: { method, url, status, duration },
+      level: isFailed || isHttpError ? ErrorLevel.ERROR : ErrorLevel.INFO,
+    })
+
+    if (!isFailed && !isHttpError) {
+      return
+    }
+
+    let networkError: Error
+    if (isFailed) {
+      networkError = error
+    }
+    else {
+      networkError = new Error(`HTTP ${status}: ${method} ${url}`)
+      networkError.name = 'HttpError'
+    }
+
+    const errorInfo = catcher.createErrorInfo(
+      networkError,
+      ErrorSource.NETWORK,
+      {
+        type,
+        method,
+        url,
+        status,
+        duration,
+      },
+    )
+    catcher.captureEvent(errorInfo)
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Node.js 进程集成
+ *
+ * @description 监听 `uncaughtException`、`unhandledRejection` 与 `warning`；
+ * 未捕获异常以 FATAL 上报，并按配置在 onFatalError 完成（或超时）后退出进程；
+ * 未处理的拒绝按 `--unhandled-rejections` 模式处理，默认与未捕获异常相同
+ *
+ * @module integrations/node-process
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { UnhandledRejectionMode } from '../catcher/node'
+import type { ErrorInfo } from '../types'
+import type { Integration } from './integration'
+import { getUnhandledRejectionMode, instrumentNodeProcess, settleWithin } from '../catcher/node'
+import { ErrorLevel, ErrorSource } from '../types'
+import { getNodeProcess, isBrowser, isNode, isWorker } from '../utils/env'
+import { normalizeError } from '../utils/error'
+
+/**
+ * Node.js 进程集成配置
+ */
+export interface NodeProcessIntegrationOptions {
+  /** 捕获未捕获异常 @default true */
+  uncaughtException?: boolean
+  /** 捕获未处理的 Promise 拒绝 @default true */
+  unhandledRejection?: boolean
+  /** 未处理拒绝的处理模式 @default 进程的 `--unhandled-rejections` 参数，未指定时为 'throw' */
+  unhandledRejectionMode?: UnhandledRejectionMode
+  /** 捕获进程警告 @default true */
+  warning?: boolean
+  /** 未捕获异常时是否退出进程 @default true */
+  exitOnFatal?: boolean
+  /** 退出前等待 onFatalError 的最长时间（毫秒）@default 2000 */
+  fatalExitTimeout?: number
+  /** 致命错误回调，参数为经过处理后的最终事件，事件被去重、限流、过滤或最低级别丢弃时为 null */
+  onFatalError?: (error: ErrorInfo | null) => void | Promise<void>
+}
+
+/**
+ * Node.js 进程集成
+ */
+export class NodeProcessIntegration implements Integration {
+  readonly name = 'NodeProcess'
+
+  /** 已解析的配置 */
+  private options: Required<NodeProcessIntegrationOptions>
+
+  /** 移除监听的函数 */
+  private restore: (() => void) | null = null
+
+  /** 是否正在因致命错误退出 */
+  private isExiting = false
+
+  /**
+   * @param options - 集成配置
+   */
+  constructor(options: NodeProcessIntegrationOptions = {}) {
+    this.options = {
+      uncaughtException: options.uncaughtException ?? true,
+      unhandledRejection: options.unhandledRejection ?? true,
+      unhandledRejectionMode: options.unhandledRejectionMode ?? getUnhandledRejectionMode(),
+      warning: options.warning ?? true,
+      exitOnFatal: options.exitOnFatal ?? true,
+      fatalExitTimeout: options.fatalExitTimeout ?? 2000,
+      onFatalError: options.onFatalError ?? (() => {}),
+    }
+  }
+
+  setup(catcher: ErrorCatcher): void {
+    // 浏览器（含 jsdom、Electron 渲染进程）与 Worker 线程中由 GlobalErrors/UnhandledRejection 处理
+    if (!isNode() || isBrowser() || isWorker()) {
+      return
+    }
+
+    const mode = this.options.unhandledRejectionMode
+    this.restore = instrumentNodeProcess({
+      onUncaughtException: this.options.uncaughtException
+        ? (error, origin) => this.handleUncaughtException(catcher, error, origin)
+        : undefined,
+      // strict 模式下 Node.js 将拒绝作为未捕获异常抛出，由 onUncaughtException 处理
+      onUnhandledRejection: this.options.unhandledRejection && mode !== 'strict'
+        ? reason => this.handleUnhandledRejection(catcher, reason, mode)
+        : undefined,
+      onWarning: this.options.warning
+        ? (warning) => {
+            const errorInfo = catcher.createErrorInfo(warning, ErrorSource.RUNTIME)
+            errorInfo.level = ErrorLevel.WARNING
+            catcher.captureEvent(errorInfo)
+          }
+        : undefined,
+    })
+  }
+
+  teardown(): void {
+    this.restore?.()
+    this.restore = null
+  }
+
+  /**
+   * 处理未捕获异常
+   */
+  private handleUncaughtException(catcher: ErrorCatcher, error: Error, origin: string): void {
+    this.handleFatal(catcher, error, catcher.createErrorInfo(error, ErrorSource.RUNTIME, { origin }))
+  }
+
+  /**
+   * 处理未处理的拒绝
+   *
+   * @remarks
+   * throw 模式下与未捕获异常相同；其余模式以 ERROR 上报，进程继续运行
+   */
+  private handleUnhandledRejection(catcher: ErrorCatcher, reason: unknown, mode: UnhandledRejectionMode): void {
+    const error = normalizeError(reason)
+    const errorInfo = catcher.createErrorInfo(error, ErrorSource.PROMISE)
+
+    if (mode === 'throw') {
+      this.handleFatal(catcher, error, errorInfo)
+      return
+    }
+
+    catcher.captureEvent(errorInfo)
+    const nodeProcess = getNodeProcess()
+    if (mode === 'warn-with-error-code' && nodeProcess) {
+      nodeProcess.exitCode = 1
+    }
+  }
+
+  /**
+   * 上报致命错误
+   *
+   * @remarks
+   * 以 FATAL 级别上报；启用 exitOnFatal 时等待事件处理与 onFatalError（受 fatalExitTimeout 限制）后退出进程。
+   * onFatalError 收到经过处理器与 beforeCapture 后的最终事件，事件被丢弃时为 null
+   */
+  private handleFatal(catcher: ErrorCatcher, error: Error, errorInfo: ErrorInfo): void {
+    if (this.isExiting) {
+      return
+    }
+
+    errorInfo.level = ErrorLevel.FATAL
+    if (!this.options.exitOnFatal) {
+      catcher.captureEvent(errorInfo, { explicitLevel: true })
+      return
+    }
+
+    // 记录该事件的最终结果（与 errorInfo 同 ID 的 error 事件）
+    let finalEvent: ErrorInfo | null = null
+    const off = catcher.on('error', (event) => {
+      if (event.id === errorInfo.id) {
+        finalEvent = event
+      }
+    })
+    catcher.captureEvent(errorInfo, { explicitLevel: true })
+
+    this.isExiting = true
+    const nodeProcess = getNodeProcess()
+    // 保持 Node.js 默认行为：输出堆栈到 stderr
+    nodeProcess?.stderr.write(`${error.stack ?? `${error.name}: ${error.message}`}\n`)
+
+    // 等待异步事件处理器完成，确保致命错误已交给 onError
+    const fatalTask = catcher.drainEvents().then(() => {
+      off()
+      return this.options.onFatalError(finalEvent)
+    })
+    settleWithin(fatalTask, this.options.fatalExitTimeout).then(() => {
+      nodeProcess?.exit(1)
+    })
+  }
+}
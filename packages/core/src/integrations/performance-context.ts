@@ -0,0 +1,361 @@
+/**
+ * 性能上下文集成
+ *
+ * @description 通过 PerformanceObserver 采集 Core Web Vitals（LCP、CLS、INP、FCP、TTFB）、
+ * 导航计时、长任务与 `performance.memory`，为每个事件附加页面负载快照（浏览器与 Worker）
+ *
+ * @module integrations/performance-context
+ */
+
+import type { ErrorInfo } from '../types'
+import type { Integration } from './integration'
+import { ErrorLevel } from '../types'
+import { isBrowser, isWorker } from '../utils/env'
+
+/**
+ * 性能上下文集成配置
+ */
+export interface PerformanceContextOptions {
+  /** 是否采集 Core Web Vitals 与长任务 @default true */
+  webVitals?: boolean
+  /** 是否采集 JS 堆内存（仅 Chromium）@default true */
+  memory?: boolean
+  /** 附加完整快照（导航计时、内存详情、长任务、资源数）的事件级别 @default [ErrorLevel.FATAL] */
+  detailedLevels?: ErrorLevel[]
+}
+
+/**
+ * `performance.memory`（仅 Chromium）
+ */
+interface PerformanceMemory {
+  usedJSHeapSize: number
+  totalJSHeapSize: number
+  jsHeapSizeLimit: number
+}
+
+/**
+ * 布局偏移条目
+ */
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number
+  hadRecentInput: boolean
+}
+
+/**
+ * 事件计时条目
+ */
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number
+}
+
+/** 记录的最长交互数量，用于估算 INP */
+const MAX_INTERACTIONS = 10
+
+/** CLS 会话窗口：相邻偏移间隔上限与窗口总时长上限（毫秒） */
+const CLS_SESSION_GAP = 1000
+const CLS_SESSION_MAX = 5000
+
+/**
+ * 移除值为 undefined 的字段
+ */
+function compact(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined))
+}
+
+/**
+ * 取整（毫秒），无效值返回 undefined
+ */
+function round(value: number | undefined): number | undefined {
+  return value === undefined || !Number.isFinite(value) ? undefined : Math.round(value)
+}
+
+/**
+ * 计算两个时间点的差值，任一时间点未发生（为 0）时返回 undefined
+ */
+function span(start: number, end: number): number | undefined {
+  return start > 0 && end > 0 ? Math.max(0, Math.round(end - start)) : undefined
+}
+
+/**
+ * 性能上下文集成
+ *
+ * @remarks
+ * 写入 `contexts.performance`，事件自身的同名上下文优先：
+ * - 所有事件：距导航开始与页面加载完成的时间、Web Vitals 与已用堆内存
+ * - `detailedLevels` 中的级别：额外包含导航计时分解、内存详情、长任务统计与资源数量
+ *
+ * INP 按最长交互的第 98 百分位近似估算；CLS 按会话窗口（间隔 1 秒、最长 5 秒）取最大值
+ *
+ * @example
+ * ```ts
+ * const catcher = new ErrorCatcher({ performanceContext: { detailedLevels: [ErrorLevel.FATAL, ErrorLevel.ERROR] } })
+ * // event.contexts.performance => { timeSinceNavigation: 5321, lcp: 1840, cls: 0.02, inp: 96, fcp: 910, ttfb: 180, memoryUsed: 31457280 }
+ * ```
+ */
+export class PerformanceContextIntegration implements Integration {
+  readonly name = 'PerformanceContext'
+
+  /** 已解析的配置 */
+  private options: Required<PerformanceContextOptions>
+
+  /** 是否已安装且环境支持 */
+  private active = false
+
+  /** 性能观察器 */
+  private observers: PerformanceObserver[] = []
+
+  /** 已观察到的 Web Vitals */
+  private vitals: { lcp?: number, cls?: number, fcp?: number } = {}
+
+  /** 当前的 CLS 会话窗口 */
+  private clsSession = { value: 0, first: 0, last: 0 }
+
+  /** 最长的交互（按时长降序） */
+  private interactions: { id: number, duration: number }[] = []
+
+  /** 已观察到的交互数量 */
+  private interactionCount = 0
+
+  /** 最近一个交互 ID，用于统计交互数量 */
+  private lastInteractionId = 0
+
+  /** 长任务统计 */
+  private longTasks = { count: 0, totalDuration: 0 }
+
+  /**
+   * @param options - 集成配置
+   */
+  constructor(options: PerformanceContextOptions = {}) {
+    this.options = {
+      webVitals: options.webVitals ?? true,
+      memory: options.memory ?? true,
+      detailedLevels: options.detailedLevels ?? [ErrorLevel.FATAL],
+    }
+  }
+
+  setup(): void {
+    if (!(isBrowser() || isWorker()) || typeof performance === 'undefined') {
+      return
+    }
+
+    this.active = true
+    if (!this.options.webVitals) {
+      return
+    }
+
+    this.observe('largest-contentful-paint', (entries) => {
+      this.vitals.lcp = entries[entries.length - 1].startTime
+    })
+    this.observe('paint', (entries) => {
+      const fcp = entries.find(entry => entry.name === 'first-contentful-paint')
+      if (fcp) {
+        this.vitals.fcp = fcp.startTime
+      }
+    })
+    this.observe('layout-shift', entries => entries.forEach(entry => this.handleLayoutShift(entry as LayoutShiftEntry)))
+    this.observe('event', entries => entries.forEach(entry => this.handleInteraction(entry)), { durationThreshold: 40 })
+    this.observe('first-input', entries => entries.forEach(entry => this.handleInteraction(entry)))
+    this.observe('longtask', entries => entries.forEach((entry) => {
+      this.longTasks.count++
+      this.longTasks.totalDuration += entry.duration
+    }))
+  }
+
+  teardown(): void {
+    this.observers.forEach(observer => observer.disconnect())
+    this.observers = []
+    this.active = false
+    this.vitals = {}
+    this.clsSession = { value: 0, first: 0, last: 0 }
+    this.interactions = []
+    this.interactionCount = 0
+    this.lastInteractionId = 0
+    this.longTasks = { count: 0, totalDuration: 0 }
+  }
+
+  processEvent(event: ErrorInfo): ErrorInfo {
+    if (this.active) {
+      const detailed = this.options.detailedLevels.includes(event.level)
+      event.contexts = { performance: this.getSnapshot(detailed), ...event.contexts }
+    }
+    return event
+  }
+
+  /**
+   * 获取当前的性能快照
+   *
+   * @param detailed - 是否包含导航计时分解、内存详情、长任务统计与资源数量
+   * @returns 性能快照，未安装或环境不支持时返回空对象
+   */
+  getSnapshot(detailed = false): Record<string, unknown> {
+    if (!this.active) {
+      return {}
+    }
+
+    const elapsed = performance.now()
+    const navigation = this.getNavigationEntry()
+    const memory = this.options.memory
+      ? (performance as Performance & { memory?: PerformanceMemory }).memory
+      : undefined
+
+    const snapshot: Record<string, unknown> = {
+      timeSinceNavigation: Math.round(elapsed),
+      timeSinceLoad: navigation && navigation.loadEventEnd > 0 ? Math.round(elapsed - navigation.loadEventEnd) : undefined,
+      lcp: round(this.vitals.lcp),
+      cls: this.vitals.cls !== undefined ? Number(this.vitals.cls.toFixed(4)) : undefined,
+      inp: round(this.getInp()),
+      fcp: round(this.vitals.fcp),
+      ttfb: navigation && navigation.responseStart > 0
+        ? Math.max(0, Math.round(navigation.responseStart - this.getActivationStart(navigation)))
+        : undefined,
+      memoryUsed: memory?.usedJSHeapSize,
+    }
+
+    if (detailed) {
+      Object.assign(snapshot, {
+        navigation: navigation ? this.getNavigationTiming(navigation) : undefined,
+        memory: memory
+          ? {
+              used: memory.usedJSHeapSize,
+              total: memory.totalJSHeapSize,
+              limit: memory.jsHeapSizeLimit,
+              usage: Number((memory.usedJSHeapSize / memory.jsHeapSizeLimit).toFixed(4)),
+            }
+          : undefined,
+        longTasks: this.options.webVitals
+          ? { count: this.longTasks.count, totalDuration: Math.round(this.longTasks.totalDuration) }
+          : undefined,
+        resourceCount: typeof performance.getEntriesByType === 'function'
+          ? performance.getEntriesByType('resource').length
+          : undefined,
+      })
+    }
+
+    return compact(snapshot)
+  }
+
+  /**
+   * 观察性能条目，环境不支持该类型时跳过
+   */
+  private observe(type: string, callback: (entries: PerformanceEntry[]) => void, init: Record<string, unknown> = {}): void {
+    if (typeof PerformanceObserver === 'undefined' || !PerformanceObserver.supportedEntryTypes?.includes(type)) {
+      return
+    }
+
+    try {
+      const observer = new PerformanceObserver((list) => {
+        const entries = list.getEntries()
+        if (entries.length > 0) {
+          callback(entries)
+        }
+      })
+      observer.observe({ type, buffered: true, ...init } as PerformanceObserverInit)
+      this.observers.push(observer)
+    }
+    catch {
+      // 部分浏览器不支持 buffered 或 durationThreshold
+    }
+  }
+
+  /**
+   * 按会话窗口累计布局偏移
+   */
+  private handleLayoutShift(entry: LayoutShiftEntry): void {
+    // 用户输入后 500ms 内的偏移是预期行为
+    if (entry.hadRecentInput) {
+      return
+    }
+
+    const session = this.clsSession
+    if (
+      session.value > 0
+      && entry.startTime - session.last < CLS_SESSION_GAP
+      && entry.startTime - session.first < CLS_SESSION_MAX
+    ) {
+      session.value += entry.value
+      session.last = entry.startTime
+    }
+    else {
+      this.clsSession = { value: entry.value, first: entry.startTime, last: entry.startTime }
+    }
+
+    this.vitals.cls = Math.max(this.vitals.cls ?? 0, this.clsSession.value)
+  }
+
+  /**
+   * 记录交互时长（同一交互的多个事件取最长）
+   */
+  private handleInteraction(entry: EventTimingEntry): void {
+    const id = entry.interactionId
+    if (!id) {
+      return
+    }
+
+    if (id !== this.lastInteractionId) {
+      this.lastInteractionId = id
+      this.interactionCount++
+    }
+
+    const existing = this.interactions.find(interaction => interaction.id === id)
+    if (existing) {
+      existing.duration = Math.max(existing.duration, entry.duration)
+    }
+    else if (
+      this.interactions.length < MAX_INTERACTIONS
+      || entry.duration > this.interactions[this.interactions.length - 1].duration
+    ) {
+      this.interactions.push({ id, duration: entry.duration })
+    }
+
+    this.interactions.sort((a, b) => b.duration - a.duration)
+    this.interactions.length = Math.min(this.interactions.length, MAX_INTERACTIONS)
+  }
+
+  /**
+   * 估算 INP：每 50 次交互忽略一次最长的交互
+   */
+  private getInp(): number | undefined {
+    if (this.interactions.length === 0) {
+      return undefined
+    }
+    const index = Math.min(this.interactions.length - 1, Math.floor(this.interactionCount / 50))
+    return this.interactions[index].duration
+  }
+
+  /**
+   * 获取导航计时条目
+   */
+  private getNavigationEntry(): PerformanceNavigationTiming | undefined {
+    if (typeof performance.getEntriesByType !== 'function') {
+      return undefined
+    }
+    return performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined
+  }
+
+  /**
+   * 预渲染页面的激活时间，普通页面为 0
+   */
+  private getActivationStart(navigation: PerformanceNavigationTiming): number {
+    return (navigation as PerformanceNavigationTiming & { activationStart?: number }).activationStart ?? 0
+  }
+
+  /**
+   * 导航计时分解（毫秒）
+   */
+  private getNavigationTiming(navigation: PerformanceNavigationTiming): Record<string, unknown> {
+    return compact({
+      type: navigation.type,
+      protocol: navigation.nextHopProtocol || undefined,
+      redirect: span(navigation.redirectStart, navigation.redirectEnd),
+      dns: span(navigation.domainLookupStart, navigation.domainLookupEnd),
+      tcp: span(navigation.connectStart, navigation.connectEnd),
+      tls: span(navigation.secureConnectionStart, navigation.connectEnd),
+      request: span(navigation.requestStart, navigation.responseStart),
+      response: span(navigation.responseStart, navigation.responseEnd),
+      domInteractive: round(navigation.domInteractive) || undefined,
+      domContentLoaded: round(navigation.domContentLoadedEventEnd) || undefined,
+      load: round(navigation.loadEventEnd) || undefined,
+      transferSize: navigation.transferSize || undefined,
+    })
+  }
+}
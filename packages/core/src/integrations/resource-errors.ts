@@ -0,0 +1,71 @@
+/**
+ * 资源加载错误集成
+ *
+ * @description 在捕获阶段监听 script/link/img/video/audio 的加载失败（仅浏览器）
+ *
+ * @module integrations/resource-errors
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { Integration } from './integration'
+import { ErrorSource } from '../types'
+import { isBrowser } from '../utils/env'
+
+/**
+ * 资源加载错误集成
+ */
+export class ResourceErrorsIntegration implements Integration {
+  readonly name = 'ResourceErrors'
+
+  /** 事件处理器引用（用于移除监听） */
+  private handler: ((event: Event) => void) | null = null
+
+  setup(catcher: ErrorCatcher): void {
+    if (!isBrowser()) {
+      return
+    }
+
+    this.handler = (event: Event) => {
+      const target = event.target as HTMLElement
+
+      // 忽略非资源元素的错误
+      if (!target || target === (window as unknown as HTMLElement)) {
+        return
+      }
+
+      // 只处理资源元素
+      const isResourceElement = target instanceof HTMLScriptElement
+        || target instanceof HTMLLinkElement
+        || target instanceof HTMLImageElement
+        || target instanceof HTMLVideoElement
+        || target instanceof HTMLAudioElement
+
+      if (!isResourceElement) {
+        return
+      }
+
+      const resourceUrl = (target as HTMLScriptElement | HTMLImageElement).src
+        || (target as HTMLLinkElement).href
+        || 'unknown'
+
+      const errorInfo = catcher.createErrorInfo(
+        new Error(`Resource failed to load: ${resourceUrl}`),
+        ErrorSource.RESOURCE,
+        {
+          tagName: target.tagName.toLowerCase(),
+          resourceUrl,
+        },
+      )
+      catcher.captureEvent(errorInfo)
+    }
+
+    window.addEventListener('error', this.handler, true)
+  }
+
+  teardown(): void {
+    if (this.handler) {
+      window.removeEventListener('error', this.handler, true)
+      this.handler = null
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * 未处理 Promise 拒绝集成
+ *
+ * @description 浏览器中接管 `window.onunhandledrejection`（保留原处理器），
+ * Worker 中监听全局 `unhandledrejection` 事件
+ *
+ * @module integrations/unhandled-rejection
+ */
+
+import type { ErrorCatcher } from '../catcher/error-catcher'
+import type { Integration } from './integration'
+import { ErrorSource } from '../types'
+import { isBrowser, isWorker } from '../utils/env'
+import { normalizeError } from '../utils/error'
+
+/**
+ * 未处理 Promise 拒绝集成
+ */
+export class UnhandledRejectionIntegration implements Integration {
+  readonly name = 'UnhandledRejection'
+
+  /** 卸载函数 */
+  private restore: (() => void) | null = null
+
+  setup(catcher: ErrorCatcher): void {
+    const handleRejection = (event: PromiseRejectionEvent): void => {
+      const error = normalizeError(event.reason)
+      catcher.captureEvent(catcher.createErrorInfo(error, ErrorSource.PROMISE))
+    }
+
+    if (isBrowser()) {
+      const original = window.onunhandledrejection
+      window.onunhandledrejection = (event: PromiseRejectionEvent) => {
+        handleRejection(event)
+        if (original) {
+          original.call(window, event)
+        }
+      }
+      this.restore = () => {
+        window.onunhandledrejection = original
+      }
+    }
+    else if (isWorker()) {
+      globalThis.addEventListener('unhandledrejection', handleRejection)
+      this.restore = () => globalThis.removeEventListener('unhandledrejection', handleRejection)
+    }
+  }
+
+  teardown(): void {
+    this.restore?.()
+    this.restore = null
+  }
+}
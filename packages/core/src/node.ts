@@ -0,0 +1,19 @@
+/**
+ * @ldesign/error-core/node
+ *
+ * 仅用于 Node.js 的功能（离线符号化），不包含在主入口中，避免进入浏览器构建
+ *
+ * @packageDocumentation
+ * @module @ldesign/error-core/node
+ *
+ * @example
+ * ```ts
+ * import { Symbolicator } from '@ldesign/error-core/node'
+ *
+ * const symbolicator = new Symbolicator({ directory: './dist/assets' })
+ * const resolved = await symbolicator.symbolicate(errorInfo)
+ * ```
+ */
+
+// 符号化
+export * from './symbolication'
@@ -0,0 +1,6 @@
+/**
+ * 隐私保护模块
+ * @packageDocumentation
+ */
+
+export * from './scrubber'
@@ -0,0 +1,371 @@
+/**
+ * 敏感信息清洗
+ *
+ * @description 按键名黑名单与值模式（邮箱、手机号、身份证号、银行卡号、Bearer 令牌、JWT）清洗事件中的个人信息，
+ * 支持掩码、哈希与移除三种替换策略
+ *
+ * @example
+ * ```ts
+ * const scrubber = new Scrubber({
+ *   strategy: 'mask',
+ *   denyKeys: ['password', /^x-api-/i],
+ *   patterns: ['email', 'phone', 'jwt'],
+ * })
+ *
+ * const safe = scrubber.scrubEvent(errorInfo)
+ * scrubber.scrubString('联系 13812345678') // => '联系 13*******78'
+ * ```
+ */
+
+import type { Breadcrumb, ErrorInfo } from '../types'
+import { DEFAULT_SCRUB_KEYS } from '../constants'
+import { hashString } from '../utils/fingerprint'
+
+/**
+ * 替换策略
+ *
+ * - mask: 保留首尾各 2 个字符，其余替换为 `*`；非字符串值替换为 `[Filtered]`
+ * - hash: 替换为 `[hash:<16 位十六进制>]`，相同的值得到相同的结果，便于关联
+ * - remove: 命中键名的字段被删除，字符串中命中模式的片段替换为 `[Filtered]`
+ */
+export type ScrubStrategy = 'mask' | 'hash' | 'remove'
+
+/**
+ * 内置的值模式
+ */
+export type ScrubPatternName = 'email' | 'phone' | 'idCard' | 'creditCard' | 'bearerToken' | 'jwt'
+
+/**
+ * 清洗配置
+ */
+export interface ScrubberOptions {
+  /** 是否启用 @default true */
+  enabled?: boolean
+  /** 替换策略 @default 'mask' */
+  strategy?: ScrubStrategy
+  /** 键名黑名单，字符串为不区分大小写的包含匹配 @default DEFAULT_SCRUB_KEYS */
+  denyKeys?: (string | RegExp)[]
+  /** 键名白名单，优先于 denyKeys */
+  allowKeys?: (string | RegExp)[]
+  /** 启用的内置值模式 @default 全部 */
+  patterns?: ScrubPatternName[]
+  /** 自定义值模式 */
+  customPatterns?: RegExp[]
+  /** 对象的最大清洗深度，更深的值替换为 `[Filtered]` @default 10 */
+  maxDepth?: number
+}
+
+/** 替换占位符 */
+const FILTERED = '[Filtered]'
+
+/** 哈希结果前缀 */
+const HASH_PREFIX = '[hash:'
+
+/**
+ * 内置值模式
+ *
+ * @remarks
+ * Safari 与 iOS 16.4 之前不支持后行断言，需要排除的前缀改为首个捕获组匹配，替换时原样保留（见 {@link PREFIXED_PATTERNS}）
+ */
+const SCRUB_PATTERNS: Record<ScrubPatternName, RegExp> = {
+  // JWT：header.payload.signature
+  jwt: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+  // Authorization 头中的令牌（保留认证方式）
+  bearerToken: /(\b(?:Bearer|Basic|Token)\s)[\w~+/.-]{8,}=*/gi,
+  // 邮箱
+  email: /[\w.+-]+@[a-z\d-]+(?:\.[a-z\d-]+)+/gi,
+  // 中国大陆身份证号（18 位）
+  idCard: /(^|\D)[1-9]\d{5}(?:19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3}[\dX](?![\dX])/gi,
+  // 银行卡号（13-19 位，通过 Luhn 校验）
+  creditCard: /(^|\D)[3-6]\d{3}(?:[ -]?\d){9,15}(?!\d)/g,
+  // 手机号（中国大陆）
+  phone: /(^|\D)(?:\+?86[\s-]?)?1[3-9]\d{9}(?!\d)/g,
+}
+
+/** 首个捕获组为保留前缀的内置模式 */
+const PREFIXED_PATTERNS = new Set<string>(['bearerToken', 'idCard', 'creditCard', 'phone'])
+
+/** URL 查询参数与表单编码的键值对 */
+const QUERY_PARAM = /([?&;])([^=&#\s]+)=([^&#\s]*)/g
+
+/**
+ * Luhn 校验
+ */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * 键名匹配：字符串为不区分大小写的包含匹配，正则为模式匹配
+ */
+function matchesKey(key: string, patterns: (string | RegExp)[]): boolean {
+  const lower = key.toLowerCase()
+  return patterns.some(pattern =>
+    typeof pattern === 'string' ? lower.includes(pattern.toLowerCase()) : pattern.test(key),
+  )
+}
+
+/**
+ * 解码查询参数键名，失败时返回原值
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  }
+  catch {
+    return value
+  }
+}
+
+/**
+ * 敏感信息清洗器
+ *
+ * @remarks
+ * - 清洗事件的 message、stack、url（含查询参数）、frames、extra、面包屑、componentInfo.props、tags 与关联异常
+ * - 返回新对象，不修改传入的事件与其引用的数据
+ * - 已清洗的值（`[Filtered]`、哈希结果）不会被再次处理，可安全地多次清洗
+ */
+export class Scrubber {
+  /** 已解析的配置 */
+  private options: Required<Omit<ScrubberOptions, 'patterns'>>
+
+  /** 启用的值模式 */
+  private patterns: { name: string, pattern: RegExp }[]
+
+  /**
+   * 创建清洗器
+   *
+   * @param options - 配置选项
+   */
+  constructor(options: ScrubberOptions = {}) {
+    this.options = {
+      enabled: options.enabled ?? true,
+      strategy: options.strategy ?? 'mask',
+      denyKeys: options.denyKeys ?? [...DEFAULT_SCRUB_KEYS],
+      allowKeys: options.allowKeys ?? [],
+      customPatterns: options.customPatterns ?? [],
+      maxDepth: options.maxDepth ?? 10,
+    }
+
+    const names = options.patterns ?? (Object.keys(SCRUB_PATTERNS) as ScrubPatternName[])
+    this.patterns = [
+      ...names.map(name => ({ name, pattern: SCRUB_PATTERNS[name] })),
+      // 自定义模式需要全局匹配
+      ...this.options.customPatterns.map(pattern => ({
+        name: 'custom',
+        pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+      })),
+    ]
+  }
+
+  /**
+   * 检查键名是否需要清洗
+   *
+   * @param key - 键名
+   */
+  isDeniedKey(key: string): boolean {
+    return !matchesKey(key, this.options.allowKeys) && matchesKey(key, this.options.denyKeys)
+  }
+
+  /**
+   * 清洗字符串中命中值模式的片段与敏感的查询参数
+   *
+   * @param value - 字符串
+   * @returns 清洗后的字符串
+   */
+  scrubString(value: string): string {
+    if (!this.options.enabled || !value) {
+      return value
+    }
+
+    let result = value.replace(QUERY_PARAM, (match, separator: string, key: string, paramValue: string) => {
+      if (!paramValue || !this.isDeniedKey(safeDecode(key))) {
+        return match
+      }
+      return `${separator}${key}=${this.replaceText(paramValue)}`
+    })
+
+    for (const { name, pattern } of this.patterns) {
+      result = result.replace(pattern, (match: string, ...groups: unknown[]) => {
+        const prefix = PREFIXED_PATTERNS.has(name) ? groups[0] as string : ''
+        const text = match.slice(prefix.length)
+        if (name === 'creditCard' && !passesLuhn(text)) {
+          return match
+        }
+        return `${prefix}${this.replaceText(text)}`
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * 深度清洗任意值
+   *
+   * @param value - 任意值
+   * @returns 清洗后的副本
+   */
+  scrubValue<T>(value: T): T {
+    if (!this.options.enabled) {
+      return value
+    }
+    return this.scrubNode(value, 0, new WeakSet()) as T
+  }
+
+  /**
+   * 清洗错误事件
+   *
+   * @param event - 错误事件
+   * @returns 清洗后的事件副本
+   */
+  scrubEvent(event: ErrorInfo): ErrorInfo {
+    if (!this.options.enabled) {
+      return event
+    }
+
+    const result: ErrorInfo = {
+      ...event,
+      message: this.scrubString(event.message),
+      stack: event.stack !== undefined ? this.scrubString(event.stack) : undefined,
+      url: event.url !== undefined ? this.scrubString(event.url) : undefined,
+    }
+
+    if (event.frames) {
+      result.frames = event.frames.map(frame => ({
+        ...frame,
+        fileName: frame.fileName !== undefined ? this.scrubString(frame.fileName) : undefined,
+        raw: this.scrubString(frame.raw),
+      }))
+    }
+
+    if (event.extra) {
+      result.extra = this.scrubValue(event.extra)
+    }
+
+    if (event.breadcrumbs) {
+      result.breadcrumbs = event.breadcrumbs.map(breadcrumb => this.scrubBreadcrumb(breadcrumb))
+    }
+
+    if (event.componentInfo?.props) {
+      result.componentInfo = { ...event.componentInfo, props: this.scrubValue(event.componentInfo.props) }
+    }
+
+    if (event.tags) {
+      result.tags = this.scrubValue(event.tags)
+    }
+
+    if (event.exceptions) {
+      result.exceptions = event.exceptions.map(exception => ({
+        ...exception,
+        message: this.scrubString(exception.message),
+        stack: exception.stack !== undefined ? this.scrubString(exception.stack) : undefined,
+      }))
+    }
+
+    return result
+  }
+
+  /**
+   * 清洗面包屑
+   */
+  private scrubBreadcrumb(breadcrumb: Breadcrumb): Breadcrumb {
+    return {
+      ...breadcrumb,
+      message: this.scrubString(breadcrumb.message),
+      ...(breadcrumb.data ? { data: this.scrubValue(breadcrumb.data) } : {}),
+    }
+  }
+
+  /**
+   * 递归清洗
+   */
+  private scrubNode(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.scrubString(value)
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value
+    }
+    if (depth >= this.options.maxDepth || seen.has(value)) {
+      return FILTERED
+    }
+
+    // 非普通对象（Date、Map 等）保持原样
+    const proto = Object.getPrototypeOf(value)
+    if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) {
+      return value
+    }
+
+    seen.add(value)
+    try {
+      if (Array.isArray(value)) {
+        return value.map(item => this.scrubNode(item, depth + 1, seen))
+      }
+
+      const result: Record<string, unknown> = {}
+      for (const [key, item] of Object.entries(value)) {
+        if (!this.isDeniedKey(key)) {
+          result[key] = this.scrubNode(item, depth + 1, seen)
+          continue
+        }
+        if (this.options.strategy !== 'remove') {
+          result[key] = this.replaceValue(item)
+        }
+      }
+      return result
+    }
+    finally {
+      // 只检测祖先链上的循环，同一对象被多处引用时各自清洗
+      seen.delete(value)
+    }
+  }
+
+  /**
+   * 按策略替换命中键名的值
+   */
+  private replaceValue(value: unknown): unknown {
+    if (value === undefined || value === null || value === '') {
+      return value
+    }
+    if (typeof value === 'string') {
+      return this.replaceText(value)
+    }
+    if (this.options.strategy === 'hash' && (typeof value === 'number' || typeof value === 'bigint')) {
+      return this.replaceText(String(value))
+    }
+    return FILTERED
+  }
+
+  /**
+   * 按策略替换文本
+   */
+  private replaceText(text: string): string {
+    // 已清洗的值保持不变
+    if (text === FILTERED || text.startsWith(HASH_PREFIX)) {
+      return text
+    }
+
+    switch (this.options.strategy) {
+      case 'hash':
+        return `${HASH_PREFIX}${hashString(text)}]`
+      case 'remove':
+        return FILTERED
+      default:
+        return text.length <= 4
+          ? '*'.repeat(text.length)
+          : `${text.slice(0, 2)}${'*'.repeat(text.length - 4)}${text.slice(-2)}`
+    }
+  }
+}
@@ -17,9 +17,15 @@
  * ```
  */
 
-import type { ErrorInfo, ErrorReporterOptions, ResolvedErrorReporterOptions } from '../types'
+import type { Session } from '../session/session-manager'
+import type { ErrorEventListener, ErrorEvents, ErrorInfo, ErrorReporterOptions, ResolvedErrorReporterOptions } from '../types'
+import { withoutNetworkInstrumentation } from '../catcher/network'
 import { DEFAULT_REPORTER_OPTIONS, INDEXED_DB_CONFIG } from '../constants'
-import { isBrowser, supportsBeacon, supportsIndexedDB, supportsFetch } from '../utils/env'
+import { Scrubber } from '../privacy/scrubber'
+import { TypedEventEmitter } from '../utils/emitter'
+import { isBrowser, supportsBeacon, supportsFetch, supportsIndexedDB } from '../utils/env'
+import { normalizeEvent } from '../utils/normalize'
+import { ErrorSampler } from './sampler'
 
 /**
  * 错误上报器
@@ -30,7 +36,8 @@ import { isBrowser, supportsBeacon, supportsIndexedDB, supportsFetch } from '../
  * - 离线缓存，网络恢复后自动重发
  * - 自动重试，指数退避
  * - Beacon API，页面卸载时可靠发送
- * - 采样率控制
+ * - 采样：按级别/来源/回调确定采样率，按会话确定性采样，新指纹必采
+ * - 会话上报，用于统计无崩溃会话率
  */
 export class ErrorReporter {
   /** 已解析的配置选项 */
@@ -57,6 +64,15 @@ export class ErrorReporter {
   /** 页面卸载处理器引用 */
   private boundUnloadHandler: (() => void) | null = null
 
+  /** 事件发射器 */
+  private emitter = new TypedEventEmitter<ErrorEvents>()
+
+  /** 采样器 */
+  private sampler: ErrorSampler
+
+  /** 敏感信息清洗器 */
+  private scrubber: Scrubber
+
   /**
    * 创建错误上报器实例
    *
@@ -71,17 +87,28 @@ export class ErrorReporter {
       maxRetries: options.maxRetries ?? DEFAULT_REPORTER_OPTIONS.maxRetries,
       retryDelay: options.retryDelay ?? DEFAULT_REPORTER_OPTIONS.retryDelay,
       sampleRate: options.sampleRate ?? DEFAULT_REPORTER_OPTIONS.sampleRate,
+      levelSampleRates: options.levelSampleRates ?? {},
+      sourceSampleRates: options.sourceSampleRates ?? {},
+      sessionSampling: options.sessionSampling ?? DEFAULT_REPORTER_OPTIONS.sessionSampling,
+      keepNewFingerprints: options.keepNewFingerprints ?? DEFAULT_REPORTER_OPTIONS.keepNewFingerprints,
+      normalize: options.normalize ?? {},
+      scrub: options.scrub ?? {},
+      sampler: options.sampler,
       enableOfflineCache: options.enableOfflineCache ?? DEFAULT_REPORTER_OPTIONS.enableOfflineCache,
       maxOfflineCacheSize: options.maxOfflineCacheSize ?? DEFAULT_REPORTER_OPTIONS.maxOfflineCacheSize,
       headers: options.headers ?? {},
       timeout: options.timeout ?? DEFAULT_REPORTER_OPTIONS.timeout,
       useBeacon: options.useBeacon ?? DEFAULT_REPORTER_OPTIONS.useBeacon,
       sendOnUnload: options.sendOnUnload ?? DEFAULT_REPORTER_OPTIONS.sendOnUnload,
+      sessionEndpoint: options.sessionEndpoint ?? DEFAULT_REPORTER_OPTIONS.sessionEndpoint,
       beforeSend: options.beforeSend ?? (e => e),
       onSuccess: options.onSuccess ?? (() => {}),
       onError: options.onError ?? (() => {}),
     }
 
+    this.sampler = new ErrorSampler(this.options)
+    this.scrubber = new Scrubber(this.options.scrub || { enabled: false })
+
     // 异步初始化
     this.initPromise = this.init()
   }
@@ -317,10 +344,11 @@ export class ErrorReporter {
         xhr.setRequestHeader(key, value)
       }
 
-      xhr.send(JSON.stringify({
+      // 不被网络拦截捕获，避免上报失败再次触发上报
+      withoutNetworkInstrumentation(() => xhr.send(JSON.stringify({
         errors,
         timestamp: Date.now(),
-      }))
+      })))
 
       if (xhr.status >= 200 && xhr.status < 300) {
         this.queue = []
@@ -362,7 +390,8 @@ export class ErrorReporter {
     const timeoutId = setTimeout(() => controller.abort(), this.options.timeout)
 
     try {
-      const response = await fetch(this.options.endpoint, {
+      // 不被网络拦截捕获，避免上报失败再次触发上报
+      const response = await withoutNetworkInstrumentation(() => fetch(this.options.endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -375,7 +404,7 @@ export class ErrorReporter {
         signal: controller.signal,
         // 保持连接（如果浏览器支持）
         keepalive: true,
-      })
+      }))
 
       if (!response.ok) {
         throw new Error(`Report failed: ${response.status} ${response.statusText}`)
@@ -390,6 +419,39 @@ export class ErrorReporter {
   // 公共 API
   // =========================================================================
 
+  /**
+   * 订阅事件
+   *
+   * @param event - 事件名（`reported` / `reportFailed`）
+   * @param listener - 监听器
+   * @returns 取消订阅函数
+   */
+  on<K extends keyof ErrorEvents>(event: K, listener: ErrorEventListener<K>): () => void {
+    return this.emitter.on(event, listener)
+  }
+
+  /**
+   * 订阅一次事件
+   *
+   * @param event - 事件名
+   * @param listener - 监听器
+   * @returns 取消订阅函数
+   */
+  once<K extends keyof ErrorEvents>(event: K, listener: ErrorEventListener<K>): () => void {
+    return this.emitter.once(event, listener)
+  }
+
+  /**
+   * 取消订阅
+   *
+   * @param event - 事件名
+   * @param listener - 监听器，省略时移除该事件的全部监听器
+   */
+  off<K extends keyof ErrorEvents>(event: K, listener?: ErrorEventListener<K>): this {
+    this.emitter.off(event, listener)
+    return this
+  }
+
   /**
    * 上报错误
    *
@@ -400,12 +462,17 @@ export class ErrorReporter {
       return this
     }
 
-    // 采样率控制
-    if (Math.random() > this.options.sampleRate) {
+    // 采样，保留的事件记录实际采样率
+    const sampleRate = this.sampler.sample(error)
+    if (sampleRate === null) {
       return this
     }
 
-    this.queue.push(error)
+    // 规范化并清洗敏感信息后再进入队列（离线缓存保存的是队列中的数据），不修改调用方的事件
+    const normalized = this.options.normalize ? normalizeEvent(error, this.options.normalize) : error
+    const event = { ...this.scrubber.scrubEvent(normalized), sampleRate }
+
+    this.queue.push(event)
 
     // 达到批量大小时立即发送
     if (this.queue.length >= this.options.batchSize) {
@@ -418,6 +485,59 @@ export class ErrorReporter {
     return this
   }
 
+  /**
+   * 上报会话
+   *
+   * @remarks
+   * 会话更新不进入错误队列、不采样；页面隐藏时优先使用 Beacon API，发送失败时忽略
+   *
+   * @param session - 会话
+   * @returns 是否发送成功
+   */
+  async sendSession(session: Session): Promise<boolean> {
+    if (!this.options.enabled) {
+      return false
+    }
+
+    const payload = JSON.stringify({ session, timestamp: Date.now() })
+
+    // 页面隐藏时 fetch 可能被中断，使用 Beacon API
+    const hidden = isBrowser() && document.visibilityState === 'hidden'
+    if (hidden && this.options.useBeacon && supportsBeacon()) {
+      return navigator.sendBeacon(
+        this.options.sessionEndpoint,
+        new Blob([payload], { type: 'application/json' }),
+      )
+    }
+
+    if (!supportsFetch()) {
+      return false
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout)
+
+    try {
+      const response = await withoutNetworkInstrumentation(() => fetch(this.options.sessionEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.options.headers,
+        },
+        body: payload,
+        signal: controller.signal,
+        keepalive: true,
+      }))
+      return response.ok
+    }
+    catch {
+      return false
+    }
+    finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
   /**
    * 批量上报错误
    *
@@ -464,6 +584,7 @@ export class ErrorReporter {
 
       // 调用成功回调
       this.options.onSuccess(processed)
+      this.emitter.emit('reported', processed)
     }
     catch (err) {
       // 保存到离线缓存
@@ -471,6 +592,7 @@ export class ErrorReporter {
 
       // 调用错误回调
       this.options.onError(err as Error, processed)
+      this.emitter.emit('reportFailed', { error: err as Error, errors: processed })
     }
     finally {
       this.isProcessing = false
@@ -519,6 +641,10 @@ export class ErrorReporter {
       onSuccess: options.onSuccess ?? this.options.onSuccess,
       onError: options.onError ?? this.options.onError,
     } as ResolvedErrorReporterOptions
+    this.sampler.setOptions(options)
+    if (options.scrub !== undefined) {
+      this.scrubber = new Scrubber(options.scrub || { enabled: false })
+    }
 
     return this
   }
@@ -4,4 +4,5 @@
  */
 
 export * from './error-reporter'
+export * from './sampler'
 
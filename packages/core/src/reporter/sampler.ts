@@ -0,0 +1,185 @@
+/**
+ * 错误采样
+ *
+ * @description 按级别、来源或自定义回调确定采样率，支持按会话确定性采样与新指纹必采
+ *
+ * @example
+ * ```ts
+ * const sampler = new ErrorSampler({
+ *   sampleRate: 0.1,
+ *   levelSampleRates: { fatal: 1 },
+ *   sourceSampleRates: { console: 0.01 },
+ * })
+ *
+ * const rate = sampler.sample(errorInfo) // 保留时返回采样率，丢弃时返回 null
+ * ```
+ */
+
+import type { ErrorInfo, ErrorLevelType, ErrorSourceType } from '../types'
+
+/**
+ * 采样配置
+ */
+export interface ErrorSamplerOptions {
+  /** 全局采样率（0-1）@default 1 */
+  sampleRate?: number
+  /** 按级别的采样率，优先于 sourceSampleRates 与 sampleRate */
+  levelSampleRates?: Partial<Record<ErrorLevelType, number>>
+  /** 按来源的采样率，优先于 sampleRate */
+  sourceSampleRates?: Partial<Record<ErrorSourceType, number>>
+  /** 自定义采样率回调，返回 undefined 时使用上述配置 */
+  sampler?: (error: ErrorInfo) => number | undefined
+  /** 按会话确定性采样：同一会话同一采样率下的事件全部保留或全部丢弃 @default true */
+  sessionSampling?: boolean
+  /** 新指纹的首次出现始终保留，会使按会话采样的结果不再一致 @default false */
+  keepNewFingerprints?: boolean
+  /** 记录已见指纹的最大数量 @default 1000 */
+  maxTrackedFingerprints?: number
+}
+
+/**
+ * 将采样率限制在 0-1 之间
+ */
+function clampRate(rate: number): number {
+  if (Number.isNaN(rate)) {
+    return 1
+  }
+  return Math.min(1, Math.max(0, rate))
+}
+
+/**
+ * 将字符串映射为 [0, 1) 区间内的确定值（FNV-1a）
+ *
+ * @param value - 输入字符串
+ * @returns 0（含）到 1（不含）之间的数
+ */
+export function hashToUnitInterval(value: string): number {
+  let hash = 0x811C9DC5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) / 0x100000000
+}
+
+/**
+ * 错误采样器
+ *
+ * @remarks
+ * 采样率优先级：sampler 回调 > 级别采样率 > 来源采样率 > 全局采样率。
+ * 保留的事件写入实际采样率（新指纹必采时为 1），供服务端按 `1 / sampleRate` 推算总量
+ */
+export class ErrorSampler {
+  /** 已解析的配置 */
+  private options: Required<Omit<ErrorSamplerOptions, 'sampler'>> & Pick<ErrorSamplerOptions, 'sampler'>
+
+  /** 已见指纹（按首次出现顺序） */
+  private seenFingerprints = new Set<string>()
+
+  /**
+   * 创建错误采样器
+   *
+   * @param options - 采样配置
+   */
+  constructor(options: ErrorSamplerOptions = {}) {
+    this.options = {
+      sampleRate: options.sampleRate ?? 1,
+      levelSampleRates: options.levelSampleRates ?? {},
+      sourceSampleRates: options.sourceSampleRates ?? {},
+      sampler: options.sampler,
+      sessionSampling: options.sessionSampling ?? true,
+      keepNewFingerprints: options.keepNewFingerprints ?? false,
+      maxTrackedFingerprints: options.maxTrackedFingerprints ?? 1000,
+    }
+  }
+
+  /**
+   * 更新采样配置
+   *
+   * @param options - 新配置，未提供的字段保持不变
+   */
+  setOptions(options: ErrorSamplerOptions): this {
+    this.options = {
+      ...this.options,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+    }
+    return this
+  }
+
+  /**
+   * 计算事件的采样率
+   *
+   * @param error - 错误信息
+   * @returns 0-1 之间的采样率
+   */
+  getRate(error: ErrorInfo): number {
+    const { sampler, levelSampleRates, sourceSampleRates, sampleRate } = this.options
+
+    const custom = sampler?.(error)
+    if (typeof custom === 'number') {
+      return clampRate(custom)
+    }
+
+    return clampRate(
+      levelSampleRates[error.level]
+      ?? sourceSampleRates[error.source]
+      ?? sampleRate,
+    )
+  }
+
+  /**
+   * 采样决策
+   *
+   * @param error - 错误信息
+   * @returns 保留时返回应写入事件的采样率，丢弃时返回 null
+   */
+  sample(error: ErrorInfo): number | null {
+    // 新指纹的首次出现始终保留
+    if (this.options.keepNewFingerprints && error.fingerprint && this.markSeen(error.fingerprint)) {
+      return 1
+    }
+
+    const rate = this.getRate(error)
+    if (rate >= 1) {
+      return 1
+    }
+    if (rate <= 0) {
+      return null
+    }
+
+    // 同一会话使用固定的随机值，保证会话内的采样结果一致
+    const roll = this.options.sessionSampling && error.sessionId
+      ? hashToUnitInterval(error.sessionId)
+      : Math.random()
+
+    return roll < rate ? rate : null
+  }
+
+  /**
+   * 清空已见指纹
+   */
+  reset(): this {
+    this.seenFingerprints.clear()
+    return this
+  }
+
+  /**
+   * 记录指纹
+   *
+   * @returns 是否为首次出现
+   */
+  private markSeen(fingerprint: string): boolean {
+    if (this.seenFingerprints.has(fingerprint)) {
+      return false
+    }
+
+    this.seenFingerprints.add(fingerprint)
+    if (this.seenFingerprints.size > this.options.maxTrackedFingerprints) {
+      const oldest = this.seenFingerprints.values().next().value
+      if (oldest !== undefined) {
+        this.seenFingerprints.delete(oldest)
+      }
+    }
+    return true
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * 作用域模块
+ * @packageDocumentation
+ */
+
+export * from './scope'
@@ -0,0 +1,200 @@
+/**
+ * 错误作用域
+ *
+ * @description 保存标签、额外数据、上下文和用户信息，在创建错误时合并到 ErrorInfo
+ *
+ * @example
+ * ```ts
+ * const scope = new Scope()
+ *   .setTag('module', 'checkout')
+ *   .setContext('order', { id: 'o_1', amount: 99 })
+ *   .setUser({ id: 'u_1', email: 'a@b.com' })
+ *
+ * const enriched = scope.applyToEvent(errorInfo)
+ * ```
+ */
+
+import type { ErrorContexts, ErrorInfo, UserInfo } from '../types'
+
+/**
+ * 错误作用域
+ *
+ * @remarks
+ * 事件自身的字段优先于作用域中的同名字段
+ */
+export class Scope {
+  /** 标签 */
+  private tags: Record<string, string> = {}
+
+  /** 额外数据 */
+  private extras: Record<string, unknown> = {}
+
+  /** 命名上下文 */
+  private contexts: ErrorContexts = {}
+
+  /** 用户信息 */
+  private user: UserInfo | null = null
+
+  /**
+   * 设置标签
+   *
+   * @param key - 标签名
+   * @param value - 标签值
+   */
+  setTag(key: string, value: string): this {
+    this.tags[key] = value
+    return this
+  }
+
+  /**
+   * 批量设置标签
+   *
+   * @param tags - 标签键值对
+   */
+  setTags(tags: Record<string, string>): this {
+    Object.assign(this.tags, tags)
+    return this
+  }
+
+  /**
+   * 移除标签
+   *
+   * @param key - 标签名
+   */
+  removeTag(key: string): this {
+    delete this.tags[key]
+    return this
+  }
+
+  /**
+   * 设置额外数据
+   *
+   * @param key - 键
+   * @param value - 值
+   */
+  setExtra(key: string, value: unknown): this {
+    this.extras[key] = value
+    return this
+  }
+
+  /**
+   * 批量设置额外数据
+   *
+   * @param extras - 额外数据
+   */
+  setExtras(extras: Record<string, unknown>): this {
+    Object.assign(this.extras, extras)
+    return this
+  }
+
+  /**
+   * 设置命名上下文
+   *
+   * @param name - 上下文名称，如 `app`、`order`
+   * @param context - 上下文对象，传 null 移除
+   */
+  setContext(name: string, context: Record<string, unknown> | null): this {
+    if (context === null) {
+      delete this.contexts[name]
+    }
+    else {
+      this.contexts[name] = { ...context }
+    }
+    return this
+  }
+
+  /**
+   * 设置用户信息
+   *
+   * @param user - 用户信息，传 null 清除
+   */
+  setUser(user: UserInfo | null): this {
+    this.user = user ? { ...user } : null
+    return this
+  }
+
+  /**
+   * 获取用户信息
+   */
+  getUser(): UserInfo | null {
+    return this.user ? { ...this.user } : null
+  }
+
+  /**
+   * 获取标签（副本）
+   */
+  getTags(): Record<string, string> {
+    return { ...this.tags }
+  }
+
+  /**
+   * 获取额外数据（副本）
+   */
+  getExtras(): Record<string, unknown> {
+    return { ...this.extras }
+  }
+
+  /**
+   * 获取上下文（副本）
+   */
+  getContexts(): ErrorContexts {
+    return { ...this.contexts }
+  }
+
+  /**
+   * 清空作用域
+   */
+  clear(): this {
+    this.tags = {}
+    this.extras = {}
+    this.contexts = {}
+    this.user = null
+    return this
+  }
+
+  /**
+   * 复制作用域
+   *
+   * @returns 独立的作用域副本，修改副本不影响原作用域
+   */
+  clone(): Scope {
+    const scope = new Scope()
+    scope.tags = { ...this.tags }
+    scope.extras = { ...this.extras }
+    scope.contexts = Object.fromEntries(
+      Object.entries(this.contexts).map(([name, context]) => [name, { ...context }]),
+    )
+    scope.user = this.user ? { ...this.user } : null
+    return scope
+  }
+
+  /**
+   * 将作用域数据合并到错误信息
+   *
+   * @param errorInfo - 错误信息
+   * @returns 合并后的错误信息（原对象被修改并返回）
+   */
+  applyToEvent(errorInfo: ErrorInfo): ErrorInfo {
+    if (Object.keys(this.tags).length > 0) {
+      errorInfo.tags = { ...this.tags, ...errorInfo.tags }
+    }
+
+    if (Object.keys(this.extras).length > 0) {
+      errorInfo.extra = { ...this.extras, ...errorInfo.extra }
+    }
+
+    if (Object.keys(this.contexts).length > 0) {
+      errorInfo.contexts = { ...this.contexts, ...errorInfo.contexts }
+    }
+
+    if (this.user && !errorInfo.user) {
+      errorInfo.user = { ...this.user }
+    }
+
+    if (!errorInfo.userId && errorInfo.user?.id !== undefined) {
+      errorInfo.userId = String(errorInfo.user.id)
+    }
+
+    return errorInfo
+  }
+}
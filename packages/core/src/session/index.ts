@@ -0,0 +1,6 @@
+/**
+ * 会话管理模块
+ * @packageDocumentation
+ */
+
+export * from './session-manager'
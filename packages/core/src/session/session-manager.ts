@@ -0,0 +1,331 @@
+/**
+ * 会话管理
+ *
+ * @description 跟踪会话的开始、结束与状态变化，用于计算无崩溃会话率（Release Health）
+ *
+ * @example
+ * ```ts
+ * const sessions = new SessionManager({
+ *   inactivityTimeout: 30 * 60 * 1000,
+ *   onChange: session => reporter.sendSession(session),
+ * })
+ *
+ * sessions.touch()              // 记录用户活动，超时后自动轮换会话
+ * sessions.recordError(error)   // 根据错误级别更新会话状态
+ * sessions.end()                // 正常结束会话
+ * ```
+ */
+
+import type { ErrorInfo } from '../types'
+import { ErrorLevel } from '../types'
+import { generateSessionId } from '../utils/id'
+
+/**
+ * 会话状态
+ *
+ * - ok: 进行中，未发生错误
+ * - errored: 发生过错误
+ * - crashed: 发生过致命错误
+ * - abnormal: 异常结束（如页面无响应后被关闭）
+ * - exited: 正常结束
+ */
+export type SessionStatus = 'ok' | 'errored' | 'crashed' | 'abnormal' | 'exited'
+
+/**
+ * 会话
+ */
+export interface Session {
+  /** 会话 ID */
+  sid: string
+  /** 状态 */
+  status: SessionStatus
+  /** 开始时间 */
+  started: number
+  /** 最后更新时间 */
+  timestamp: number
+  /** 最后活动时间 */
+  lastActivity: number
+  /** 持续时间（毫秒，结束时写入） */
+  duration?: number
+  /** 错误数 */
+  errors: number
+  /** 已分配的事件序号（下一个事件的序号为 sequence + 1） */
+  sequence: number
+  /** 是否为本次页面加载新建的会话（恢复的会话为 false） */
+  init: boolean
+}
+
+/**
+ * 会话管理器配置
+ */
+export interface SessionManagerOptions {
+  /** 无活动超时（毫秒），超时后下次活动时开启新会话 @default 1800000 (30分钟) */
+  inactivityTimeout?: number
+  /** 是否持久化到 sessionStorage，刷新页面后恢复会话 @default true */
+  persist?: boolean
+  /** sessionStorage 键名 @default 'ldesign_error_session' */
+  storageKey?: string
+  /** 会话开始、状态变化或结束时的回调 */
+  onChange?: (session: Session) => void
+}
+
+/**
+ * 状态严重程度（只升不降）
+ */
+const STATUS_SEVERITY: Record<SessionStatus, number> = {
+  ok: 0,
+  exited: 0,
+  errored: 1,
+  abnormal: 2,
+  crashed: 3,
+}
+
+/**
+ * 读取 sessionStorage（不可用时返回 null）
+ */
+function getStorage(): Storage | null {
+  try {
+    return typeof sessionStorage !== 'undefined' ? sessionStorage : null
+  }
+  catch {
+    // 部分浏览器隐私模式下访问即抛出
+    return null
+  }
+}
+
+/**
+ * 会话管理器
+ *
+ * @remarks
+ * - 会话在创建管理器时开始（或从 sessionStorage 恢复）
+ * - 活动间隔超过 inactivityTimeout 时结束旧会话并开启新会话
+ * - 状态只会向更严重的方向变化：ok → errored → abnormal → crashed
+ */
+export class SessionManager {
+  /** 已解析的配置 */
+  private options: Required<Omit<SessionManagerOptions, 'onChange'>> & Pick<SessionManagerOptions, 'onChange'>
+
+  /** 当前会话 */
+  private session: Session
+
+  /** 自上次 flush 以来是否有变化 */
+  private dirty = false
+
+  /**
+   * 创建会话管理器
+   *
+   * @param options - 配置选项
+   */
+  constructor(options: SessionManagerOptions = {}) {
+    this.options = {
+      inactivityTimeout: options.inactivityTimeout ?? 30 * 60 * 1000,
+      persist: options.persist ?? true,
+      storageKey: options.storageKey ?? 'ldesign_error_session',
+      onChange: options.onChange,
+    }
+
+    this.session = this.restore() ?? this.createSession()
+    this.persist()
+  }
+
+  /**
+   * 获取当前会话（副本）
+   */
+  getSession(): Session {
+    return { ...this.session }
+  }
+
+  /**
+   * 获取当前会话 ID
+   */
+  getSessionId(): string {
+    return this.session.sid
+  }
+
+  /**
+   * 开始新会话
+   *
+   * @remarks
+   * 当前会话未结束时先以 exited 结束
+   */
+  start(): this {
+    if (!this.isEnded()) {
+      this.end()
+    }
+    this.session = this.createSession()
+    this.persist()
+    this.notify()
+    return this
+  }
+
+  /**
+   * 结束当前会话
+   *
+   * @param status - 结束状态，默认保持 errored/crashed/abnormal，否则为 exited
+   */
+  end(status?: SessionStatus): this {
+    if (this.isEnded()) {
+      return this
+    }
+
+    const now = Date.now()
+    const { session } = this
+    session.status = status ?? (session.status === 'ok' ? 'exited' : session.status)
+    session.timestamp = now
+    session.duration = session.lastActivity - session.started
+    this.persist()
+    this.notify()
+    return this
+  }
+
+  /**
+   * 记录用户活动
+   *
+   * @remarks
+   * 距上次活动超过 inactivityTimeout 或会话已结束时开启新会话
+   */
+  touch(): this {
+    const now = Date.now()
+    if (this.isEnded() || now - this.session.lastActivity > this.options.inactivityTimeout) {
+      this.start()
+    }
+    this.session.lastActivity = now
+    this.persist()
+    return this
+  }
+
+  /**
+   * 记录错误并更新会话状态
+   *
+   * @remarks
+   * FATAL 级别标记为 crashed，ERROR 级别标记为 errored，警告与信息不计入
+   *
+   * @param error - 错误信息
+   * @returns 分配给该事件的会话序号
+   */
+  recordError(error: ErrorInfo): number {
+    this.touch()
+
+    const { session } = this
+    session.sequence++
+
+    if (error.level === ErrorLevel.FATAL || error.level === ErrorLevel.ERROR) {
+      session.errors++
+      this.setStatus(error.level === ErrorLevel.FATAL ? 'crashed' : 'errored')
+    }
+
+    this.persist()
+    return session.sequence
+  }
+
+  /**
+   * 标记会话异常（如检测到页面长时间无响应）
+   */
+  markAbnormal(): this {
+    this.setStatus('abnormal')
+    return this
+  }
+
+  /**
+   * 取出自上次调用以来有变化的会话
+   *
+   * @returns 有未通知的变化时返回会话副本，否则返回 null
+   */
+  flush(): Session | null {
+    if (!this.dirty) {
+      return null
+    }
+    this.dirty = false
+    return this.getSession()
+  }
+
+  /**
+   * 检查当前会话是否已结束
+   */
+  isEnded(): boolean {
+    return this.session.status === 'exited' || this.session.duration !== undefined
+  }
+
+  /**
+   * 升级会话状态
+   */
+  private setStatus(status: SessionStatus): void {
+    if (STATUS_SEVERITY[status] <= STATUS_SEVERITY[this.session.status]) {
+      return
+    }
+    this.session.status = status
+    this.session.timestamp = Date.now()
+    this.persist()
+    this.notify()
+  }
+
+  /**
+   * 创建新会话
+   */
+  private createSession(): Session {
+    const now = Date.now()
+    this.dirty = true
+    return {
+      sid: generateSessionId(),
+      status: 'ok',
+      started: now,
+      timestamp: now,
+      lastActivity: now,
+      errors: 0,
+      sequence: 0,
+      init: true,
+    }
+  }
+
+  /**
+   * 从 sessionStorage 恢复未超时的会话
+   */
+  private restore(): Session | null {
+    if (!this.options.persist) {
+      return null
+    }
+
+    try {
+      const raw = getStorage()?.getItem(this.options.storageKey)
+      if (!raw) {
+        return null
+      }
+
+      const session = JSON.parse(raw) as Session
+      const expired = Date.now() - session.lastActivity > this.options.inactivityTimeout
+      if (typeof session.sid !== 'string' || expired || session.duration !== undefined) {
+        return null
+      }
+
+      return { ...session, init: false }
+    }
+    catch {
+      return null
+    }
+  }
+
+  /**
+   * 写入 sessionStorage
+   */
+  private persist(): void {
+    this.dirty = true
+    if (!this.options.persist) {
+      return
+    }
+
+    try {
+      getStorage()?.setItem(this.options.storageKey, JSON.stringify(this.session))
+    }
+    catch {
+      // 忽略存储已满等错误
+    }
+  }
+
+  /**
+   * 通知会话变化
+   */
+  private notify(): void {
+    this.dirty = false
+    this.options.onChange?.(this.getSession())
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * 符号化模块
+ * @packageDocumentation
+ */
+
+export * from './source-map'
+export * from './symbolicator'
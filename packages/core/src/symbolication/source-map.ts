@@ -0,0 +1,322 @@
+/**
+ * Source Map 解析
+ *
+ * @description 解析 Source Map v3（含分段索引格式），将压缩代码中的位置映射回原始源码
+ *
+ * @example
+ * ```ts
+ * const map = SourceMap.parse(readFileSync('app.js.map', 'utf8'))
+ * map.originalPositionFor(1, 1024)
+ * // => { source: 'src/app.ts', line: 42, column: 8, name: 'handleClick' }
+ * ```
+ */
+
+/**
+ * Source Map v3
+ */
+export interface RawSourceMap {
+  version: number
+  file?: string
+  sourceRoot?: string
+  sources: (string | null)[]
+  sourcesContent?: (string | null)[]
+  names?: string[]
+  mappings: string
+}
+
+/**
+ * 分段索引格式的 Source Map
+ */
+export interface RawIndexMap {
+  version: number
+  file?: string
+  sections: {
+    /** 分段在生成代码中的起始位置（从 0 开始） */
+    offset: { line: number, column: number }
+    map: RawSourceMap
+  }[]
+}
+
+/**
+ * 原始位置
+ */
+export interface OriginalPosition {
+  /** 源文件（已拼接 sourceRoot） */
+  source: string
+  /** 行号（从 1 开始） */
+  line: number
+  /** 列号（从 1 开始） */
+  column: number
+  /** 该位置对应的原始标识符名称 */
+  name?: string
+}
+
+/**
+ * 映射段：[生成列, 源文件序号, 原始行, 原始列, 名称序号]，均从 0 开始
+ */
+type Segment = [number, number, number, number, number?]
+
+/** Base64 字符到数值的映射 */
+const BASE64_VALUES: Record<string, number> = Object.fromEntries(
+  [...'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'].map((char, index) => [char, index]),
+)
+
+/**
+ * 解码一个映射段中的 Base64 VLQ 数值
+ *
+ * @param segment - 映射段字符串，如 `AAgBC`
+ * @returns 解码后的数值列表
+ * @throws 包含非法字符或数值不完整时抛出
+ */
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES[char]
+    if (digit === undefined) {
+      throw new Error(`Invalid VLQ character: ${char}`)
+    }
+
+    // 低 5 位为数据，第 6 位为继续位
+    value += (digit & 31) * 2 ** shift
+    if (digit & 32) {
+      shift += 5
+      continue
+    }
+
+    // 最低位为符号位
+    values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2)
+    value = 0
+    shift = 0
+  }
+
+  if (shift !== 0) {
+    throw new Error('Incomplete VLQ sequence')
+  }
+
+  return values
+}
+
+/**
+ * 解码 mappings 字段
+ *
+ * @remarks
+ * 生成列在每行内相对累加，其余字段在整个文件内相对累加；只含生成列的映射段被丢弃
+ *
+ * @param mappings - mappings 字符串
+ * @returns 按生成行分组、按生成列升序排列的映射段
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = []
+  let sourceIndex = 0
+  let originalLine = 0
+  let originalColumn = 0
+  let nameIndex = 0
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = []
+    let generatedColumn = 0
+
+    for (const encoded of line.split(',')) {
+      if (!encoded) {
+        continue
+      }
+
+      const values = decodeVlq(encoded)
+      generatedColumn += values[0]
+      if (values.length < 4) {
+        continue
+      }
+
+      sourceIndex += values[1]
+      originalLine += values[2]
+      originalColumn += values[3]
+      const segment: Segment = [generatedColumn, sourceIndex, originalLine, originalColumn]
+      if (values.length >= 5) {
+        nameIndex += values[4]
+        segment[4] = nameIndex
+      }
+      segments.push(segment)
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]))
+  }
+
+  return lines
+}
+
+/**
+ * 拼接 sourceRoot 与源文件路径
+ */
+function joinSourceRoot(sourceRoot: string | undefined, source: string): string {
+  if (!sourceRoot || /^[a-z][\w+.-]*:/i.test(source) || source.startsWith('/')) {
+    return source
+  }
+  // 保留 `webpack:///` 等协议前缀中的斜杠
+  return sourceRoot.endsWith('/') ? `${sourceRoot}${source}` : `${sourceRoot}/${source}`
+}
+
+/**
+ * Source Map
+ *
+ * @remarks
+ * 行号与列号均从 1 开始，与堆栈帧保持一致
+ */
+export class SourceMap {
+  /** 生成代码的文件名 */
+  readonly file?: string
+
+  /** 源文件（已拼接 sourceRoot） */
+  readonly sources: string[]
+
+  /** 源文件内容 */
+  private sourcesContent: (string | null)[]
+
+  /** 标识符名称 */
+  private names: string[]
+
+  /** 按生成行分组的映射段 */
+  private lines: Segment[][]
+
+  /** 分段索引格式的子映射 */
+  private sections: { line: number, column: number, map: SourceMap }[] = []
+
+  /**
+   * 创建 Source Map
+   *
+   * @param raw - Source Map 对象
+   */
+  constructor(raw: RawSourceMap | RawIndexMap) {
+    this.file = raw.file
+
+    if ('sections' in raw) {
+      this.sources = []
+      this.sourcesContent = []
+      this.names = []
+      this.lines = []
+      this.sections = raw.sections.map(section => ({
+        line: section.offset.line,
+        column: section.offset.column,
+        map: new SourceMap(section.map),
+      }))
+      return
+    }
+
+    this.sources = raw.sources.map(source => joinSourceRoot(raw.sourceRoot, source ?? ''))
+    this.sourcesContent = raw.sourcesContent ?? []
+    this.names = raw.names ?? []
+    this.lines = decodeMappings(raw.mappings)
+  }
+
+  /**
+   * 解析 Source Map
+   *
+   * @param raw - JSON 字符串或 Source Map 对象
+   * @returns Source Map 实例
+   * @throws JSON 无效或不是 v3 格式时抛出
+   */
+  static parse(raw: string | RawSourceMap | RawIndexMap): SourceMap {
+    // 去除防 XSSI 前缀 `)]}'`
+    const map = typeof raw === 'string'
+      ? JSON.parse(raw.replace(/^\)\]\}'[^\n]*\n/, '')) as RawSourceMap | RawIndexMap
+      : raw
+
+    if (map.version !== 3) {
+      throw new Error(`Unsupported source map version: ${String(map.version)}`)
+    }
+
+    return new SourceMap(map)
+  }
+
+  /**
+   * 查找生成代码位置对应的原始位置
+   *
+   * @param line - 生成代码行号（从 1 开始）
+   * @param column - 生成代码列号（从 1 开始）
+   * @returns 原始位置，无映射时返回 null
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    if (this.sections.length > 0) {
+      return this.sectionPositionFor(line - 1, column - 1)
+    }
+
+    const segments = this.lines[line - 1]
+    if (!segments || segments.length === 0) {
+      return null
+    }
+
+    // 二分查找生成列不大于目标列的最后一个映射段
+    const target = column - 1
+    let low = 0
+    let high = segments.length - 1
+    let found = -1
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (segments[mid][0] <= target) {
+        found = mid
+        low = mid + 1
+      }
+      else {
+        high = mid - 1
+      }
+    }
+
+    if (found === -1) {
+      return null
+    }
+
+    const [, sourceIndex, originalLine, originalColumn, nameIndex] = segments[found]
+    const source = this.sources[sourceIndex]
+    if (!source) {
+      return null
+    }
+
+    return {
+      source,
+      line: originalLine + 1,
+      column: originalColumn + 1,
+      name: nameIndex !== undefined ? this.names[nameIndex] : undefined,
+    }
+  }
+
+  /**
+   * 获取源文件内容
+   *
+   * @param source - 源文件（{@link SourceMap.sources} 中的值）
+   * @returns 源码，Source Map 未内嵌时返回 undefined
+   */
+  sourceContentFor(source: string): string | undefined {
+    for (const section of this.sections) {
+      const content = section.map.sourceContentFor(source)
+      if (content !== undefined) {
+        return content
+      }
+    }
+
+    const index = this.sources.indexOf(source)
+    return index === -1 ? undefined : this.sourcesContent[index] ?? undefined
+  }
+
+  /**
+   * 在分段索引格式中查找原始位置（行列从 0 开始）
+   */
+  private sectionPositionFor(line: number, column: number): OriginalPosition | null {
+    let section: SourceMap['sections'][number] | undefined
+    for (const item of this.sections) {
+      if (item.line > line || (item.line === line && item.column > column)) {
+        break
+      }
+      section = item
+    }
+
+    if (!section) {
+      return null
+    }
+
+    // 分段首行的列号相对分段起始列计算
+    const relativeColumn = line === section.line ? column - section.column : column
+    return section.map.originalPositionFor(line - section.line + 1, relativeColumn + 1)
+  }
+}
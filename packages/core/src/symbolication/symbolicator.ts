@@ -0,0 +1,447 @@
+/**
+ * 离线符号化
+ *
+ * @description 使用本地 Source Map 将压缩代码的堆栈帧还原为原始文件、行列号与函数名，
+ * 并附带出错位置前后的源码。不发起网络请求，适用于服务端数据处理任务与测试
+ *
+ * @example
+ * ```ts
+ * const symbolicator = new Symbolicator({ directory: './dist/assets', contextLines: 5 })
+ *
+ * const resolved = await symbolicator.symbolicate(errorInfo)
+ * resolved.frames?.[0]
+ * // => { functionName: 'handleClick', fileName: 'src/App.vue', lineNumber: 42, contextLine: '...', ... }
+ * ```
+ */
+
+import type { ErrorInfo } from '../types'
+import type { StackFrame, StackParseOptions } from '../utils/stack'
+import type { OriginalPosition, RawIndexMap, RawSourceMap } from './source-map'
+import { DEFAULT_IN_APP_EXCLUDE } from '../constants'
+import { getNodeProcess } from '../utils/env'
+import { isInAppFile, parseStack } from '../utils/stack'
+import { SourceMap } from './source-map'
+
+/**
+ * 符号化配置
+ */
+export interface SymbolicatorOptions extends StackParseOptions {
+  /** Source Map 所在目录，按 `<脚本文件名>.map` 或脚本中的 sourceMappingURL 查找（仅 Node.js）。只读取该目录内的文件 */
+  directory?: string
+  /**
+   * 是否按堆栈中的绝对路径与 `file://` 地址读取脚本旁的 Source Map 与源文件（仅 Node.js）
+   *
+   * @remarks
+   * 这些读取不受 `directory` 限制，只应在堆栈来源可信时开启
+   * @default false
+   */
+  allowLocalPaths?: boolean
+  /** 内存中的 Source Map，键为脚本地址、脚本文件名或 Source Map 文件名 */
+  maps?: Record<string, string | RawSourceMap | RawIndexMap>
+  /** 出错行前后各附带的源码行数，0 为不附带 @default 5 */
+  contextLines?: number
+}
+
+/**
+ * 已加载的 Source Map
+ */
+interface LoadedSourceMap {
+  map: SourceMap
+  /** Source Map 文件所在目录，用于读取未内嵌的源文件 */
+  directory?: string
+  /** 允许读取源文件的根目录，未设置时不限制 */
+  root?: string
+}
+
+/**
+ * 单个帧的符号化结果
+ */
+interface ResolvedFrame {
+  frame: StackFrame
+  position: OriginalPosition
+}
+
+/** 脚本末尾的 sourceMappingURL 注释 */
+const SOURCE_MAPPING_URL = /[#@]\s*sourceMappingURL=(\S+)\s*$/
+
+/** 带协议的地址，如 `https://`、`webpack://` */
+const URL_SCHEME = /^[a-z][\w+.-]*:\/\//i
+
+/**
+ * 加载 Node.js 文件模块
+ *
+ * @remarks
+ * 优先通过 getBuiltinModule 获取，避免浏览器构建静态引入 Node 依赖
+ */
+async function loadNodeModules() {
+  const nodeProcess = getNodeProcess()
+  if (!nodeProcess) {
+    return null
+  }
+  if (typeof nodeProcess.getBuiltinModule === 'function') {
+    return { fs: nodeProcess.getBuiltinModule('node:fs/promises'), path: nodeProcess.getBuiltinModule('node:path') }
+  }
+  const [fs, path] = await Promise.all([import('node:fs/promises'), import('node:path')])
+  return { fs, path }
+}
+
+/**
+ * 去除地址中的查询参数与哈希
+ */
+function stripQuery(fileName: string): string {
+  return fileName.replace(/[?#].*$/, '')
+}
+
+/**
+ * 获取地址或路径的文件名部分
+ */
+function getBasename(fileName: string): string {
+  return stripQuery(fileName).split(/[/\\]/).pop() ?? fileName
+}
+
+/**
+ * 将本地文件地址转换为路径，不是本地文件时返回 undefined
+ */
+function toLocalPath(fileName: string): string | undefined {
+  const stripped = stripQuery(fileName)
+  if (stripped.startsWith('file://')) {
+    return decodeURIComponent(stripped.slice('file://'.length)).replace(/^\/([a-z]:)/i, '$1')
+  }
+  if (stripped.startsWith('/') || /^[a-z]:[/\\]/i.test(stripped)) {
+    return stripped
+  }
+  return undefined
+}
+
+/**
+ * 解析相对路径，结果越出根目录时返回 undefined
+ *
+ * @param path - Node.js path 模块
+ * @param base - 基准目录
+ * @param target - 相对或绝对路径
+ * @param root - 根目录（已解析为绝对路径），未设置时不限制
+ */
+function resolveWithin(path: typeof import('node:path'), base: string, target: string, root?: string): string | undefined {
+  const resolved = path.resolve(base, target)
+  return !root || resolved.startsWith(`${root}${path.sep}`) ? resolved : undefined
+}
+
+/**
+ * 解码 data URL 中的 Source Map
+ */
+function decodeDataUrl(url: string): string | null {
+  const match = /^data:[^,]*?(;base64)?,(.*)$/.exec(url)
+  if (!match) {
+    return null
+  }
+  if (!match[1]) {
+    return decodeURIComponent(match[2])
+  }
+  const binary = atob(match[2])
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+/**
+ * 离线符号化器
+ *
+ * @remarks
+ * - Source Map 查找顺序：`maps` 配置 → `directory` 下的 `<脚本文件名>.map` → 本地脚本旁的 `.map`（需开启 `allowLocalPaths`）
+ *   → 脚本末尾的 sourceMappingURL（支持 data URL）
+ * - 从 `directory` 加载时，sourceMappingURL 与未内嵌的源文件只在该目录内读取，越出目录的路径被忽略
+ * - 函数名取调用方调用位置映射到的原始标识符，无法确定时保留压缩后的函数名
+ * - 找不到 Source Map 或位置无映射的帧保持不变；已加载的 Source Map 会被缓存
+ */
+export class Symbolicator {
+  /** 已解析的配置 */
+  private options: Required<Omit<SymbolicatorOptions, 'directory' | 'maps'>> & Pick<SymbolicatorOptions, 'directory'>
+
+  /** 内存中的 Source Map */
+  private inlineMaps: Map<string, string | RawSourceMap | RawIndexMap>
+
+  /** Source Map 缓存（脚本地址 → 加载结果） */
+  private mapCache = new Map<string, Promise<LoadedSourceMap | null>>()
+
+  /** 外部源文件缓存（文件路径 → 按行拆分的内容） */
+  private sourceCache = new Map<string, Promise<string[] | null>>()
+
+  /** Node.js 文件模块 */
+  private nodeModules?: ReturnType<typeof loadNodeModules>
+
+  /**
+   * 创建符号化器
+   *
+   * @param options - 配置选项
+   */
+  constructor(options: SymbolicatorOptions = {}) {
+    this.options = {
+      directory: options.directory,
+      allowLocalPaths: options.allowLocalPaths ?? false,
+      contextLines: options.contextLines ?? 5,
+      inAppInclude: options.inAppInclude ?? [],
+      inAppExclude: options.inAppExclude ?? DEFAULT_IN_APP_EXCLUDE,
+    }
+    this.inlineMaps = new Map(Object.entries(options.maps ?? {}))
+  }
+
+  /**
+   * 添加内存中的 Source Map
+   *
+   * @param fileName - 脚本地址、脚本文件名或 Source Map 文件名
+   * @param map - JSON 字符串或 Source Map 对象
+   */
+  addSourceMap(fileName: string, map: string | RawSourceMap | RawIndexMap): this {
+    this.inlineMaps.set(fileName, map)
+    this.mapCache.clear()
+    return this
+  }
+
+  /**
+   * 清空已加载的 Source Map 与源文件缓存
+   */
+  clearCache(): this {
+    this.mapCache.clear()
+    this.sourceCache.clear()
+    return this
+  }
+
+  /**
+   * 符号化错误事件
+   *
+   * @remarks
+   * 重写 `frames` 与 `stack`，关联异常的堆栈一并还原；不修改传入的对象
+   *
+   * @param errorInfo - 错误信息
+   * @returns 符号化后的错误信息
+   */
+  async symbolicate(errorInfo: ErrorInfo): Promise<ErrorInfo> {
+    const frames = errorInfo.frames ?? parseStack(errorInfo.stack, this.options)
+    const symbolicated = await this.symbolicateFrames(frames)
+
+    const result: ErrorInfo = {
+      ...errorInfo,
+      frames: symbolicated,
+      stack: this.formatStack(errorInfo, frames, symbolicated),
+    }
+
+    if (errorInfo.exceptions) {
+      result.exceptions = await Promise.all(errorInfo.exceptions.map(async (exception) => {
+        const original = parseStack(exception.stack, this.options)
+        return { ...exception, stack: this.formatStack(exception, original, await this.symbolicateFrames(original)) }
+      }))
+    }
+
+    return result
+  }
+
+  /**
+   * 符号化堆栈帧
+   *
+   * @param frames - 堆栈帧（最内层调用在前）
+   * @returns 符号化后的堆栈帧，无法还原的帧保持不变
+   */
+  async symbolicateFrames(frames: StackFrame[]): Promise<StackFrame[]> {
+    const resolved = await Promise.all(frames.map(frame => this.resolveFrame(frame)))
+
+    return frames.map((frame, index) => {
+      const current = resolved[index]
+      if (!current) {
+        return frame
+      }
+
+      // 调用方的调用位置指向被调函数的标识符
+      const callerName = resolved[index + 1]?.position.name
+      return callerName ? { ...current.frame, functionName: callerName } : current.frame
+    })
+  }
+
+  /**
+   * 还原单个帧的位置与上下文
+   */
+  private async resolveFrame(frame: StackFrame): Promise<ResolvedFrame | null> {
+    if (!frame.fileName || frame.lineNumber === undefined) {
+      return null
+    }
+
+    const loaded = await this.getSourceMap(frame.fileName)
+    const position = loaded?.map.originalPositionFor(frame.lineNumber, frame.columnNumber ?? 1)
+    if (!loaded || !position) {
+      return null
+    }
+
+    const resolved: StackFrame = {
+      ...frame,
+      fileName: position.source,
+      lineNumber: position.line,
+      columnNumber: position.column,
+      inApp: isInAppFile(position.source, this.options),
+    }
+
+    const lines = await this.getSourceLines(loaded, position.source)
+    const { contextLines } = this.options
+    const index = position.line - 1
+    if (lines && contextLines > 0 && index < lines.length) {
+      resolved.preContext = lines.slice(Math.max(0, index - contextLines), index)
+      resolved.contextLine = lines[index]
+      resolved.postContext = lines.slice(index + 1, index + 1 + contextLines)
+    }
+
+    return { frame: resolved, position }
+  }
+
+  /**
+   * 获取脚本对应的 Source Map（带缓存）
+   */
+  private getSourceMap(fileName: string): Promise<LoadedSourceMap | null> {
+    const key = stripQuery(fileName)
+    let pending = this.mapCache.get(key)
+    if (!pending) {
+      pending = this.loadSourceMap(fileName).catch(() => null)
+      this.mapCache.set(key, pending)
+    }
+    return pending
+  }
+
+  /**
+   * 按查找顺序加载 Source Map
+   */
+  private async loadSourceMap(fileName: string): Promise<LoadedSourceMap | null> {
+    const basename = getBasename(fileName)
+
+    for (const key of [fileName, stripQuery(fileName), basename, `${basename}.map`]) {
+      const inline = this.inlineMaps.get(key)
+      if (inline !== undefined) {
+        return { map: SourceMap.parse(inline) }
+      }
+    }
+
+    const node = await this.getNodeModules()
+    if (!node) {
+      return null
+    }
+
+    const { path } = node
+    const scripts: { script: string, root?: string }[] = []
+    if (this.options.directory) {
+      const root = path.resolve(this.options.directory)
+      const script = resolveWithin(path, root, basename, root)
+      if (script) {
+        scripts.push({ script, root })
+      }
+    }
+    const localPath = this.options.allowLocalPaths ? toLocalPath(fileName) : undefined
+    if (localPath) {
+      scripts.push({ script: localPath })
+    }
+
+    // 脚本旁的 .map 文件
+    for (const { script, root } of scripts) {
+      const content = await this.readFile(`${script}.map`)
+      if (content !== null) {
+        return { map: SourceMap.parse(content), directory: path.dirname(script), root }
+      }
+    }
+
+    // 脚本末尾的 sourceMappingURL
+    for (const { script, root } of scripts) {
+      const code = await this.readFile(script)
+      const url = code !== null ? SOURCE_MAPPING_URL.exec(code)?.[1] : undefined
+      if (!url) {
+        continue
+      }
+
+      if (url.startsWith('data:')) {
+        const content = decodeDataUrl(url)
+        if (content !== null) {
+          return { map: SourceMap.parse(content), directory: path.dirname(script), root }
+        }
+        continue
+      }
+
+      if (URL_SCHEME.test(url)) {
+        continue
+      }
+
+      const mapPath = resolveWithin(path, path.dirname(script), stripQuery(url), root)
+      const content = mapPath ? await this.readFile(mapPath) : null
+      if (mapPath && content !== null) {
+        return { map: SourceMap.parse(content), directory: path.dirname(mapPath), root }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * 获取源文件内容：优先使用 Source Map 内嵌的 sourcesContent，否则从 Source Map 所在目录读取
+   */
+  private async getSourceLines(loaded: LoadedSourceMap, source: string): Promise<string[] | null> {
+    const content = loaded.map.sourceContentFor(source)
+    if (content !== undefined) {
+      return content.split(/\r?\n/)
+    }
+
+    const node = await this.getNodeModules()
+    if (!node || !loaded.directory || URL_SCHEME.test(source)) {
+      return null
+    }
+
+    const filePath = resolveWithin(node.path, loaded.directory, source, loaded.root)
+    if (!filePath) {
+      return null
+    }
+
+    let pending = this.sourceCache.get(filePath)
+    if (!pending) {
+      pending = this.readFile(filePath).then(text => text?.split(/\r?\n/) ?? null)
+      this.sourceCache.set(filePath, pending)
+    }
+    return pending
+  }
+
+  /**
+   * 读取文本文件，不存在或无法读取时返回 null
+   */
+  private async readFile(filePath: string): Promise<string | null> {
+    const node = await this.getNodeModules()
+    if (!node) {
+      return null
+    }
+    try {
+      return await node.fs.readFile(filePath, 'utf8')
+    }
+    catch {
+      return null
+    }
+  }
+
+  /**
+   * 获取 Node.js 文件模块（首次调用时加载）
+   */
+  private getNodeModules(): ReturnType<typeof loadNodeModules> {
+    this.nodeModules = this.nodeModules ?? loadNodeModules().catch(() => null)
+    return this.nodeModules
+  }
+
+  /**
+   * 按 V8 格式重建堆栈字符串，未还原的帧保留原始行
+   */
+  private formatStack(
+    error: Pick<ErrorInfo, 'name' | 'message' | 'stack'>,
+    original: StackFrame[],
+    symbolicated: StackFrame[],
+  ): string | undefined {
+    if (!error.stack || symbolicated.every((frame, index) => frame === original[index])) {
+      return error.stack
+    }
+
+    const lines = symbolicated.map((frame, index) => {
+      if (frame === original[index]) {
+        return frame.raw
+      }
+      const column = frame.columnNumber !== undefined ? `:${frame.columnNumber}` : ''
+      return `    at ${frame.functionName ?? '<anonymous>'} (${frame.fileName}:${frame.lineNumber}${column})`
+    })
+
+    return [`${error.name}: ${error.message}`, ...lines].join('\n')
+  }
+}
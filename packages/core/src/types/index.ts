@@ -3,6 +3,16 @@
  * @packageDocumentation
  */
 
+import type { EscalationRule, LevelRule } from '../classification/level-classifier'
+import type { DeviceContextOptions } from '../integrations/device-context'
+import type { IntegrationsOption } from '../integrations/integration'
+import type { PerformanceContextOptions } from '../integrations/performance-context'
+import type { ScrubberOptions } from '../privacy/scrubber'
+import type { Session } from '../session/session-manager'
+import type { FingerprintRule } from '../utils/fingerprint'
+import type { NormalizeOptions } from '../utils/normalize'
+import type { StackFrame } from '../utils/stack'
+
 // ============================================================================
 // 枚举类型
 // ============================================================================
@@ -61,6 +71,11 @@ export enum ErrorSource {
  */
 export type ErrorSourceType = `${ErrorSource}`
 
+/**
+ * 控制台方法级别
+ */
+export type ConsoleLevel = 'debug' | 'log' | 'info' | 'warn' | 'error'
+
 // ============================================================================
 // 面包屑类型
 // ============================================================================
@@ -105,6 +120,18 @@ export interface Breadcrumb {
  */
 export type BreadcrumbInput = Omit<Breadcrumb, 'timestamp'>
 
+/**
+ * 自动面包屑采集配置
+ */
+export interface AutoBreadcrumbsOptions {
+  /** 点击（含 CSS 选择器与裁剪后的文本）@default true */
+  click?: boolean
+  /** 输入框聚焦与变更（不记录输入值）@default true */
+  input?: boolean
+  /** 导航（pushState/replaceState/popstate/hashchange）@default true */
+  navigation?: boolean
+}
+
 // ============================================================================
 // 组件信息类型
 // ============================================================================
@@ -128,6 +155,34 @@ export interface ComponentInfo {
   lifecycle?: string
 }
 
+// ============================================================================
+// 用户与上下文类型
+// ============================================================================
+
+/**
+ * 用户信息
+ */
+export interface UserInfo {
+  /** 用户 ID */
+  id?: string | number
+  /** 用户名 */
+  username?: string
+  /** 邮箱 */
+  email?: string
+  /** IP 地址 */
+  ipAddress?: string
+  /** 其他自定义字段 */
+  [key: string]: unknown
+}
+
+/**
+ * 命名上下文集合
+ *
+ * @remarks
+ * 键为上下文名称（如 `app`、`order`），值为该上下文的数据
+ */
+export type ErrorContexts = Record<string, Record<string, unknown>>
+
 // ============================================================================
 // 错误信息类型
 // ============================================================================
@@ -145,6 +200,8 @@ export interface ErrorInfo {
   name: string
   /** 错误消息 */
   message: string
+  /** 错误码（来自 AppError） */
+  code?: string
   /** 错误堆栈 */
   stack?: string
   /** 错误级别 */
@@ -161,22 +218,90 @@ export interface ErrorInfo {
   userAgent?: string
   /** 用户 ID */
   userId?: string
+  /** 用户信息 */
+  user?: UserInfo
   /** 会话 ID */
   sessionId?: string
   /** 额外数据 */
   extra?: Record<string, unknown>
+  /** 命名上下文 */
+  contexts?: ErrorContexts
   /** 面包屑（操作历史） */
   breadcrumbs?: Breadcrumb[]
-  /** 标签列表 */
-  tags?: string[]
+  /** 标签（键值对，便于检索） */
+  tags?: Record<string, string>
   /** 组件信息（Vue/React） */
   componentInfo?: ComponentInfo
-  /** 发生次数（去重后） */
+  /** 关联异常（`cause` 链与 AggregateError 内部错误，按广度优先排列） */
+  exceptions?: LinkedException[]
+  /** 去重窗口内的累计发生次数（首次为 1，汇总事件为累计值，包含已单独上报的次数） */
   count?: number
+  /** 汇总事件代表的被抑制次数（自上次汇总以来未单独上报的重复次数），服务端累加该值即可得到总量 */
+  suppressedCount?: number
   /** 首次发生时间 */
   firstSeen?: number
   /** 最后发生时间 */
   lastSeen?: number
+  /** 上报时采用的采样率（0-1），服务端可按 `1 / sampleRate` 推算总量 */
+  sampleRate?: number
+  /** 会话内的事件序号（从 1 开始） */
+  sequence?: number
+  /** 应用版本（发布标识），如 `my-app@1.2.3` */
+  release?: string
+  /** 运行环境，如 `production`、`staging` */
+  environment?: string
+  /** 构建标识（同一版本的不同构建） */
+  dist?: string
+  /** 解析后的堆栈帧（最内层调用在前） */
+  frames?: StackFrame[]
+  /** 采集 SDK 信息 */
+  sdk?: SdkInfo
+}
+
+/**
+ * 采集 SDK 信息
+ */
+export interface SdkInfo {
+  /** SDK 名称 */
+  name: string
+  /** SDK 版本 */
+  version: string
+  /** 已启用的集成名称 */
+  integrations: string[]
+}
+
+/**
+ * 忽略规则
+ *
+ * @remarks
+ * 仅在 `environments` 列出的环境中生效；省略 `pattern` 时忽略这些环境中的全部错误
+ */
+export interface IgnoreRule {
+  /** 匹配错误消息与堆栈的模式（字符串包含匹配或正则） */
+  pattern?: string | RegExp
+  /** 生效的环境 */
+  environments: string[]
+}
+
+/**
+ * 关联异常
+ *
+ * @remarks
+ * 根错误即 ErrorInfo 自身，不在列表中
+ */
+export interface LinkedException {
+  /** 错误名称 */
+  name: string
+  /** 错误消息 */
+  message: string
+  /** 错误堆栈 */
+  stack?: string
+  /** 与父异常的关系：`cause` 链接或 AggregateError 的内部错误 */
+  relation: 'cause' | 'aggregate'
+  /** 父异常在列表中的下标，根错误的直接关联为 -1 */
+  parentIndex: number
+  /** 距根错误的深度（从 1 开始） */
+  depth: number
 }
 
 /**
@@ -210,32 +335,150 @@ export interface ErrorCatcherOptions {
   captureResourceErrors?: boolean
   /** 是否捕获网络错误 @default true */
   captureNetworkErrors?: boolean
+  /** 视为错误的 HTTP 状态码区间（闭区间）@default [[500, 599]] */
+  networkErrorStatusRanges?: [number, number][]
+  /** 不拦截的请求地址（字符串包含匹配或正则），如上报地址 */
+  networkIgnoreUrls?: (string | RegExp)[]
   /** 是否拦截控制台错误 @default false */
   captureConsoleErrors?: boolean
+  /** 作为错误事件上报的控制台级别 @default ['error', 'warn'] */
+  consoleLevels?: ConsoleLevel[]
   /** 最大面包屑数量 @default 50 */
   maxBreadcrumbs?: number
-  /** 忽略的错误模式（字符串或正则） */
-  ignorePatterns?: (string | RegExp)[]
+  /** 自动面包屑采集，传 false 全部关闭 @default true */
+  autoBreadcrumbs?: boolean | AutoBreadcrumbsOptions
+  /** 设备上下文（浏览器、系统、设备、语言区域与网络），false 为关闭 @default {} */
+  deviceContext?: DeviceContextOptions | false
+  /** 性能上下文（Web Vitals、导航计时与内存），FATAL 事件附加完整快照，false 为关闭 @default {} */
+  performanceContext?: PerformanceContextOptions | false
+  /**
+   * 忽略的错误模式（字符串或正则），规则对象可限定生效的环境
+   * @example
+   * ```ts
+   * ignorePatterns: [/ResizeObserver/, { environments: ['development'] }]
+   * ```
+   */
+  ignorePatterns?: (string | RegExp | IgnoreRule)[]
+  /** 应用版本（发布标识），写入每个事件 */
+  release?: string
+  /** 运行环境 @default 开发环境为 'development'，否则为 'production' */
+  environment?: string
+  /** 构建标识，写入每个事件 */
+  dist?: string
+  /** 指纹是否包含 release、dist 与 environment（不同版本的同一错误分开聚合）@default false */
+  fingerprintRelease?: boolean
+  /**
+   * 自定义指纹规则，按顺序匹配，首个命中的规则决定分组依据
+   * @example
+   * ```ts
+   * fingerprintRules: [
+   *   { status: 504, fingerprint: ['gateway-timeout'] },
+   *   { name: 'QuotaError', fingerprint: ['{{ default }}', '{{ tags.tenant }}'] },
+   * ]
+   * ```
+   */
+  fingerprintRules?: FingerprintRule[]
+  /** 事件规范化配置（长度、深度、宽度与字节预算），在清洗之前执行，false 为关闭 @default {} */
+  normalize?: NormalizeOptions | false
+  /** 敏感信息清洗配置，在 beforeCapture 之后、onError 之前执行，false 为关闭 @default {} */
+  scrub?: ScrubberOptions | false
+  /** 视为应用代码的堆栈文件模式，命中时优先于 inAppExclude */
+  inAppInclude?: (string | RegExp)[]
+  /** 视为第三方代码的堆栈文件模式 @default DEFAULT_IN_APP_EXCLUDE */
+  inAppExclude?: (string | RegExp)[]
   /** 是否启用去重 @default true */
   enableDeduplication?: boolean
   /** 去重时间窗口（毫秒）@default 300000 (5分钟) */
   deduplicationWindow?: number
+  /**
+   * 重复错误汇总上报间隔（毫秒），0 表示仅在窗口结束与 uninstall 时汇总
+   * @default 60000
+   */
+  occurrenceFlushInterval?: number
+  /** 是否启用会话跟踪（状态、序号与定期更新）@default true */
+  enableSession?: boolean
+  /** 会话无活动超时（毫秒），超时后开启新会话 @default 1800000 (30分钟) */
+  sessionTimeout?: number
+  /** 会话更新间隔（毫秒），有变化时触发 `session` 事件 @default 60000 */
+  sessionUpdateInterval?: number
+  /** 是否将会话持久化到 sessionStorage @default true */
+  persistSession?: boolean
   /** 是否启用限流 @default true */
   enableRateLimit?: boolean
-  /** 每分钟最大错误数 @default 100 */
+  /** 每分钟最大错误数（令牌补充速率）@default 100 */
   maxErrorsPerMinute?: number
+  /** 全局允许的最大突发错误数（令牌桶容量）@default maxErrorsPerMinute */
+  rateLimitBurst?: number
+  /** 同一指纹每分钟最大错误数，0 表示不限制 @default 10 */
+  maxErrorsPerFingerprint?: number
+  /**
+   * 同一来源每分钟最大错误数，可按来源分别配置（未配置的来源使用 `default`），0 表示不限制
+   * @default 50
+   * @example
+   * ```ts
+   * maxErrorsPerSource: { console: 10, network: 30, default: 50 }
+   * ```
+   */
+  maxErrorsPerSource?: number | Partial<Record<ErrorSourceType | 'default', number>>
+  /** 是否捕获 Node.js 进程警告（仅 Node.js）@default true */
+  captureWarnings?: boolean
+  /** 未捕获异常时是否上报后退出进程（仅 Node.js）@default true */
+  exitOnFatal?: boolean
+  /** 致命错误退出前等待 onFatalError 的最长时间（毫秒）@default 2000 */
+  fatalExitTimeout?: number
+  /**
+   * 集成：数组追加到默认集成（同名替换），函数可对默认集成增删改
+   * @example
+   * ```ts
+   * integrations: defaults => defaults.filter(i => i.name !== 'Console')
+   * ```
+   */
+  integrations?: IntegrationsOption
+  /** cause 链与 AggregateError 的最大展开深度，0 表示不记录 @default 5 */
+  maxExceptionDepth?: number
+  /** 指纹是否包含关联异常（不同根因的同名错误分开聚合）@default true */
+  fingerprintCauses?: boolean
+  /**
+   * 级别分类规则，按顺序匹配，首个命中的规则决定级别
+   * @example
+   * ```ts
+   * levelRules: [
+   *   { source: ErrorSource.RESOURCE, level: ErrorLevel.WARNING },
+   *   { status: [400, 499], level: ErrorLevel.WARNING },
+   * ]
+   * ```
+   */
+  levelRules?: LevelRule[]
+  /**
+   * 级别提升规则：同一指纹在窗口内达到次数后提升级别
+   * @example
+   * ```ts
+   * escalationRules: [{ threshold: 10, window: 60_000, level: ErrorLevel.FATAL }]
+   * ```
+   */
+  escalationRules?: EscalationRule[]
+  /** 最低级别，低于该级别的错误被忽略 @default 'info' */
+  minLevel?: ErrorLevel
+  /** 异步事件处理器的默认超时时间（毫秒），超时后跳过该处理器 @default 1000 */
+  processorTimeout?: number
   /** 错误过滤器（返回 null 则忽略） */
   beforeCapture?: (error: ErrorInfo) => ErrorInfo | null
   /** 错误回调 */
   onError?: (error: ErrorInfo) => void
+  /** 致命错误回调（仅 Node.js），可在此刷新上报队列，完成后进程退出；参数为最终事件，事件被丢弃时为 null */
+  onFatalError?: (error: ErrorInfo | null) => void | Promise<void>
 }
 
 /**
  * 已解析的错误捕获器配置（所有字段必填）
  */
-export type ResolvedErrorCatcherOptions = Required<Omit<ErrorCatcherOptions, 'beforeCapture' | 'onError'>> & {
+export type ResolvedErrorCatcherOptions = Required<Omit<ErrorCatcherOptions, 'autoBreadcrumbs' | 'integrations' | 'release' | 'dist' | 'beforeCapture' | 'onError' | 'onFatalError'>> & {
+  autoBreadcrumbs: Required<AutoBreadcrumbsOptions>
+  release?: string
+  dist?: string
   beforeCapture: (error: ErrorInfo) => ErrorInfo | null
   onError: (error: ErrorInfo) => void
+  onFatalError: (error: ErrorInfo | null) => void | Promise<void>
 }
 
 /**
@@ -256,6 +499,20 @@ export interface ErrorReporterOptions {
   retryDelay?: number
   /** 采样率（0-1）@default 1 */
   sampleRate?: number
+  /** 按级别的采样率，优先于 sourceSampleRates 与 sampleRate，如 `{ fatal: 1 }` */
+  levelSampleRates?: Partial<Record<ErrorLevelType, number>>
+  /** 按来源的采样率，优先于 sampleRate，如 `{ console: 0.01 }` */
+  sourceSampleRates?: Partial<Record<ErrorSourceType, number>>
+  /** 自定义采样率回调（优先级最高），返回 undefined 时使用上述配置 */
+  sampler?: (error: ErrorInfo) => number | undefined
+  /** 按会话确定性采样，同一会话的事件全部保留或全部丢弃 @default true */
+  sessionSampling?: boolean
+  /** 新指纹的首次出现始终保留，会使按会话采样的结果不再一致 @default false */
+  keepNewFingerprints?: boolean
+  /** 事件规范化配置，在进入队列与离线缓存之前执行，false 为关闭 @default {} */
+  normalize?: NormalizeOptions | false
+  /** 敏感信息清洗配置，在进入队列与离线缓存之前执行，false 为关闭 @default {} */
+  scrub?: ScrubberOptions | false
   /** 是否启用离线缓存 @default true */
   enableOfflineCache?: boolean
   /** 离线缓存最大数量 @default 100 */
@@ -268,6 +525,8 @@ export interface ErrorReporterOptions {
   useBeacon?: boolean
   /** 是否在页面卸载时发送 @default true */
   sendOnUnload?: boolean
+  /** 会话上报地址 @default '/api/sessions' */
+  sessionEndpoint?: string
   /** 上报前处理（返回 null 则取消上报） */
   beforeSend?: (errors: ErrorInfo[]) => ErrorInfo[] | null
   /** 上报成功回调 */
@@ -279,8 +538,9 @@ export interface ErrorReporterOptions {
 /**
  * 已解析的错误上报器配置（所有字段必填）
  */
-export type ResolvedErrorReporterOptions = Required<Omit<ErrorReporterOptions, 'beforeSend' | 'onSuccess' | 'onError' | 'headers'>> & {
+export type ResolvedErrorReporterOptions = Required<Omit<ErrorReporterOptions, 'beforeSend' | 'onSuccess' | 'onError' | 'headers' | 'sampler'>> & {
   headers: Record<string, string>
+  sampler?: (error: ErrorInfo) => number | undefined
   beforeSend: (errors: ErrorInfo[]) => ErrorInfo[] | null
   onSuccess: (errors: ErrorInfo[]) => void
   onError: (error: Error, failedErrors: ErrorInfo[]) => void
@@ -398,6 +658,25 @@ export type AsyncErrorHandler = (error: ErrorInfo) => Promise<void>
 // 事件类型
 // ============================================================================
 
+/**
+ * 限流范围
+ */
+export type RateLimitScope = 'global' | 'fingerprint' | 'source'
+
+/**
+ * 限流统计（各限额累计抑制的事件数）
+ */
+export interface RateLimitStats {
+  /** 全局限额 */
+  global: number
+  /** 指纹限额 */
+  fingerprint: number
+  /** 来源限额 */
+  source: number
+  /** 来源限额按来源的明细 */
+  sources: Partial<Record<ErrorSourceType, number>>
+}
+
 /**
  * 错误事件类型
  */
@@ -408,8 +687,17 @@ export interface ErrorEvents {
   reported: ErrorInfo[]
   /** 上报失败 */
   reportFailed: { error: Error, errors: ErrorInfo[] }
+  /** 会话开始、状态变化、定期更新或结束 */
+  session: Session
   /** 错误被忽略（去重/限流） */
-  ignored: { error: ErrorInfo, reason: 'duplicate' | 'rateLimit' | 'filtered' }
+  ignored: {
+    error: ErrorInfo
+    reason: 'duplicate' | 'rateLimit' | 'filtered' | 'minLevel'
+    /** 触发限流的限额（reason 为 `rateLimit` 时） */
+    limit?: RateLimitScope
+    /** 丢弃事件的集成或事件处理器名称（beforeCapture 丢弃时为 `beforeCapture`） */
+    processor?: string
+  }
 }
 
 /**
@@ -0,0 +1,133 @@
+/**
+ * 类型安全的事件发射器
+ * @module utils/emitter
+ */
+
+/**
+ * 事件监听器
+ */
+type Listener<T> = (payload: T) => void
+
+/**
+ * 类型安全的事件发射器
+ *
+ * 事件名与载荷类型由 `Events` 映射约束，支持多个订阅者
+ *
+ * @example
+ * ```ts
+ * const emitter = new TypedEventEmitter<{ ready: number }>()
+ * const off = emitter.on('ready', n => console.log(n))
+ * emitter.emit('ready', 1)
+ * off()
+ * ```
+ */
+export class TypedEventEmitter<Events extends object> {
+  /** 事件监听器映射 */
+  private listeners = new Map<keyof Events, Set<Listener<never>>>()
+
+  /** once 包装函数与原始监听器的映射（用于 off 移除） */
+  private onceWrappers = new WeakMap<Listener<never>, Listener<never>>()
+
+  /**
+   * 订阅事件
+   *
+   * @param event - 事件名
+   * @param listener - 监听器
+   * @returns 取消订阅函数
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners.get(event)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(event, set)
+    }
+    set.add(listener as Listener<never>)
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * 订阅一次事件，触发后自动取消
+   *
+   * @param event - 事件名
+   * @param listener - 监听器
+   * @returns 取消订阅函数
+   */
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const wrapper: Listener<Events[K]> = (payload) => {
+      this.off(event, listener)
+      listener(payload)
+    }
+    this.onceWrappers.set(listener as Listener<never>, wrapper as Listener<never>)
+    return this.on(event, wrapper)
+  }
+
+  /**
+   * 取消订阅
+   *
+   * @param event - 事件名
+   * @param listener - 监听器，省略时移除该事件的全部监听器
+   */
+  off<K extends keyof Events>(event: K, listener?: Listener<Events[K]>): void {
+    const set = this.listeners.get(event)
+    if (!set) {
+      return
+    }
+
+    if (!listener) {
+      this.listeners.delete(event)
+      return
+    }
+
+    const wrapper = this.onceWrappers.get(listener as Listener<never>)
+    if (wrapper) {
+      set.delete(wrapper)
+      this.onceWrappers.delete(listener as Listener<never>)
+    }
+    set.delete(listener as Listener<never>)
+
+    if (set.size === 0) {
+      this.listeners.delete(event)
+    }
+  }
+
+  /**
+   * 触发事件
+   *
+   * @remarks
+   * 单个监听器抛出的异常不会影响其他监听器
+   *
+   * @param event - 事件名
+   * @param payload - 事件载荷
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event)
+    if (!set) {
+      return
+    }
+
+    for (const listener of [...set]) {
+      try {
+        (listener as Listener<Events[K]>)(payload)
+      }
+      catch {
+        // 忽略监听器错误
+      }
+    }
+  }
+
+  /**
+   * 获取监听器数量
+   *
+   * @param event - 事件名
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0
+  }
+
+  /**
+   * 移除全部监听器
+   */
+  removeAllListeners(): void {
+    this.listeners.clear()
+  }
+}
@@ -21,6 +21,107 @@ export function isBrowser(): boolean {
   return typeof window !== 'undefined' && typeof document !== 'undefined'
 }
 
+/**
+ * Worker 类型
+ */
+export type WorkerType = 'dedicated' | 'shared' | 'service'
+
+/**
+ * 获取当前 Worker 类型
+ *
+ * @returns Worker 类型，非 Worker 环境返回 undefined
+ */
+export function getWorkerType(): WorkerType | undefined {
+  if (isBrowser()) {
+    return undefined
+  }
+
+  const scopes = globalThis as unknown as Record<string, (abstract new () => unknown) | undefined>
+  const is = (name: string): boolean => {
+    const ctor = scopes[name]
+    return typeof ctor === 'function' && globalThis instanceof ctor
+  }
+
+  if (is('ServiceWorkerGlobalScope')) {
+    return 'service'
+  }
+  if (is('SharedWorkerGlobalScope')) {
+    return 'shared'
+  }
+  if (is('DedicatedWorkerGlobalScope')) {
+    return 'dedicated'
+  }
+  return undefined
+}
+
+/**
+ * 检查是否在 Worker 环境（Dedicated/Shared/Service Worker）
+ *
+ * @returns 是否为 Worker 环境
+ */
+export function isWorker(): boolean {
+  return getWorkerType() !== undefined
+}
+
+/**
+ * 获取 Node.js 的 process 对象
+ *
+ * @remarks
+ * 通过 globalThis 读取而不是静态引入 `node:process`，避免浏览器构建引入 Node 依赖
+ *
+ * @returns Node.js 环境中返回 process，否则返回 undefined
+ */
+export function getNodeProcess(): NodeJS.Process | undefined {
+  // eslint-disable-next-line node/prefer-global/process
+  const nodeProcess = globalThis.process as NodeJS.Process | undefined
+  return typeof nodeProcess?.versions === 'object'
+    && nodeProcess.versions !== null
+    && typeof nodeProcess.versions.node === 'string'
+    ? nodeProcess
+    : undefined
+}
+
+/**
+ * 检查是否在 Node.js 环境
+ *
+ * @returns 是否为 Node.js 环境
+ */
+export function isNode(): boolean {
+  return getNodeProcess() !== undefined
+}
+
+/**
+ * 获取 Node.js 运行时上下文
+ *
+ * @returns 运行时信息（Node 版本、平台、主机名、进程 ID），非 Node 环境返回 undefined
+ */
+export function getNodeRuntimeContext(): Record<string, unknown> | undefined {
+  const nodeProcess = getNodeProcess()
+  if (!nodeProcess) {
+    return undefined
+  }
+
+  let hostname: string | undefined
+  try {
+    // 通过 getBuiltinModule 获取 os 模块，避免浏览器构建引入 Node 依赖
+    hostname = typeof nodeProcess.getBuiltinModule === 'function'
+      ? nodeProcess.getBuiltinModule('node:os').hostname()
+      : undefined
+  }
+  catch {
+    hostname = undefined
+  }
+
+  return {
+    name: 'node',
+    version: nodeProcess.version,
+    platform: nodeProcess.platform,
+    arch: nodeProcess.arch,
+    hostname: hostname ?? nodeProcess.env.HOSTNAME ?? nodeProcess.env.COMPUTERNAME,
+    pid: nodeProcess.pid,
+  }
+}
+
 /**
  * 检查是否支持 IndexedDB
  *
@@ -71,7 +172,11 @@ export function isDev(): boolean {
  * @returns 当前页面 URL 或 undefined
  */
 export function getCurrentUrl(): string | undefined {
-  return isBrowser() ? window.location.href : undefined
+  if (isBrowser()) {
+    return window.location.href
+  }
+  // Worker 中为脚本地址
+  return isWorker() ? globalThis.location.href : undefined
 }
 
 /**
@@ -80,7 +185,7 @@ export function getCurrentUrl(): string | undefined {
  * @returns 用户代理字符串或 undefined
  */
 export function getUserAgent(): string | undefined {
-  return isBrowser() && typeof navigator !== 'undefined'
+  return (isBrowser() || isWorker()) && typeof navigator !== 'undefined'
     ? navigator.userAgent
     : undefined
 }
@@ -3,6 +3,10 @@
  * @module utils/error
  */
 
+import type { LinkedException } from '../types'
+import { MAX_LINKED_EXCEPTIONS } from '../constants'
+import { AppError } from '../errors/app-error'
+
 /**
  * 规范化错误对象
  *
@@ -28,6 +32,11 @@ export function normalizeError(error: unknown): Error {
     return new Error(error)
   }
 
+  // 跨 Worker/网络传递的 AppError
+  if (AppError.isSerialized(error)) {
+    return AppError.fromJSON(error)
+  }
+
   if (typeof error === 'object' && error !== null) {
     // 尝试获取 message 属性
     const errorObj = error as Record<string, unknown>
@@ -39,6 +48,13 @@ export function normalizeError(error: unknown): Error {
       if (typeof errorObj.stack === 'string') {
         err.stack = errorObj.stack
       }
+      // 保留 cause 链与 AggregateError 风格的内部错误
+      if (errorObj.cause !== undefined) {
+        (err as Error & { cause?: unknown }).cause = errorObj.cause
+      }
+      if (Array.isArray(errorObj.errors)) {
+        (err as Error & { errors?: unknown[] }).errors = errorObj.errors
+      }
       return err
     }
 
@@ -79,6 +95,70 @@ export function getErrorMessage(error: unknown): string {
   return String(error)
 }
 
+/**
+ * 展开错误的关联异常
+ *
+ * 按广度优先遍历 ES2022 `cause` 链与 AggregateError 的 `errors`，自动跳过循环引用
+ *
+ * @param error - 根错误
+ * @param maxDepth - 最大展开深度，默认 5
+ * @returns 关联异常列表（不含根错误），最多 {@link MAX_LINKED_EXCEPTIONS} 个
+ * @example
+ * ```ts
+ * const err = new Error('Checkout failed', { cause: new TypeError('price is undefined') })
+ * getLinkedExceptions(err)
+ * // => [{ name: 'TypeError', message: 'price is undefined', relation: 'cause', parentIndex: -1, depth: 1 }]
+ * ```
+ */
+export function getLinkedExceptions(error: unknown, maxDepth = 5): LinkedException[] {
+  const exceptions: LinkedException[] = []
+  const seen = new Set<unknown>([error])
+  const queue: { value: unknown, index: number, depth: number }[] = [{ value: error, index: -1, depth: 0 }]
+
+  while (queue.length > 0) {
+    const { value, index, depth } = queue.shift()!
+    if (depth >= maxDepth || typeof value !== 'object' || value === null) {
+      continue
+    }
+
+    const { cause, errors } = value as { cause?: unknown, errors?: unknown }
+    const children: [unknown, LinkedException['relation']][] = []
+    if (cause !== undefined && cause !== null) {
+      children.push([cause, 'cause'])
+    }
+    if (Array.isArray(errors)) {
+      errors.forEach(inner => children.push([inner, 'aggregate']))
+    }
+
+    for (const [child, relation] of children) {
+      if (seen.has(child)) {
+        continue
+      }
+      if (exceptions.length >= MAX_LINKED_EXCEPTIONS) {
+        return exceptions
+      }
+      seen.add(child)
+
+      const normalized = normalizeError(child)
+      // 非 Error 值没有有意义的堆栈，不记录 normalizeError 生成的堆栈
+      const stack = typeof child === 'object' && child !== null
+        ? (child as { stack?: unknown }).stack
+        : undefined
+      exceptions.push({
+        name: normalized.name || 'Error',
+        message: normalized.message,
+        stack: typeof stack === 'string' ? stack : undefined,
+        relation,
+        parentIndex: index,
+        depth: depth + 1,
+      })
+      queue.push({ value: child, index: exceptions.length - 1, depth: depth + 1 })
+    }
+  }
+
+  return exceptions
+}
+
 /**
  * 获取错误堆栈
  *
@@ -99,67 +179,6 @@ export function getErrorStack(error: Error, maxLines = 20): string | undefined {
   return lines.slice(0, maxLines).join('\n') + `\n... (${lines.length - maxLines} more lines)`
 }
 
-/**
- * 解析堆栈信息
- *
- * @param stack - 堆栈字符串
- * @returns 解析后的堆栈帧数组
- */
-export interface StackFrame {
-  /** 函数名 */
-  functionName?: string
-  /** 文件名 */
-  fileName?: string
-  /** 行号 */
-  lineNumber?: number
-  /** 列号 */
-  columnNumber?: number
-  /** 原始行 */
-  raw: string
-}
-
-/**
- * 解析错误堆栈
- *
- * @param stack - 堆栈字符串
- * @returns 解析后的堆栈帧数组
- */
-export function parseStack(stack?: string): StackFrame[] {
-  if (!stack) {
-    return []
-  }
-
-  const lines = stack.split('\n').slice(1) // 跳过第一行（错误消息）
-  const frames: StackFrame[] = []
-
-  // Chrome/Node.js 格式: "    at functionName (fileName:line:column)"
-  const chromeRegex = /^\s*at\s+(?:(.+?)\s+\()?(.+?):(\d+):(\d+)\)?$/
-  // Firefox 格式: "functionName@fileName:line:column"
-  const firefoxRegex = /^(.+?)@(.+?):(\d+):(\d+)$/
-
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (!trimmed) continue
-
-    let match = chromeRegex.exec(trimmed) || firefoxRegex.exec(trimmed)
-
-    if (match) {
-      frames.push({
-        functionName: match[1] || '<anonymous>',
-        fileName: match[2],
-        lineNumber: Number.parseInt(match[3], 10),
-        columnNumber: Number.parseInt(match[4], 10),
-        raw: line,
-      })
-    }
-    else {
-      frames.push({ raw: line })
-    }
-  }
-
-  return frames
-}
-
 /**
  * 检查是否为网络错误
  *
@@ -6,65 +6,139 @@
  * @module utils/fingerprint
  */
 
+import type { ErrorMatcher } from '../classification/level-classifier'
 import type { ErrorInfo } from '../types'
+import type { StackFrame } from './stack'
+import { matchesError } from '../classification/level-classifier'
+import { parseStack } from './stack'
 
 /**
- * 简单哈希函数
+ * 默认指纹占位符，在自定义规则中展开为默认的分组依据
+ */
+export const DEFAULT_FINGERPRINT_PLACEHOLDER = '{{ default }}'
+
+/**
+ * 自定义指纹规则
+ *
+ * @remarks
+ * `fingerprint` 中的值按原样参与哈希，支持以下占位符：
+ * - `{{ default }}`：默认分组依据，用于在默认分组的基础上细分
+ * - `{{ name }}`、`{{ message }}`（已归一化）、`{{ source }}`、`{{ code }}`、`{{ level }}`
+ * - `{{ tags.<key> }}`：指定标签的值
+ *
+ * @example
+ * ```ts
+ * // 所有网关超时归为一组
+ * { status: 504, fingerprint: ['gateway-timeout'] }
+ * // 在默认分组基础上按租户细分
+ * { name: 'QuotaError', fingerprint: ['{{ default }}', '{{ tags.tenant }}'] }
+ * ```
+ */
+export interface FingerprintRule extends ErrorMatcher {
+  /** 分组依据 */
+  fingerprint: string[]
+}
+
+/**
+ * 64 位字符串哈希（cyrb53 的双 32 位变体）
  *
  * @param str - 输入字符串
- * @returns 哈希值
+ * @returns 16 位十六进制哈希值
  */
-function simpleHash(str: string): string {
-  let hash = 0
+export function hashString(str: string): string {
+  let h1 = 0xDEADBEEF
+  let h2 = 0x41C6CE57
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash // Convert to 32bit integer
+    h1 = Math.imul(h1 ^ char, 2654435761)
+    h2 = Math.imul(h2 ^ char, 1597334677)
   }
-  return Math.abs(hash).toString(36)
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0')
 }
 
 /**
- * 从堆栈中提取关键帧
+ * 归一化错误消息
+ *
+ * 将消息中的可变部分替换为占位符，使同类错误归为一组：
+ * 地址 → `<url>`、引号内的值 → `<value>`、UUID → `<uuid>`、十六进制 → `<hex>`、数字 → `<n>`
  *
- * @param stack - 堆栈字符串
+ * @param message - 错误消息
+ * @returns 归一化后的消息
+ * @example
+ * ```ts
+ * normalizeMessage('User 42 not found at https://api.example.com/users/42')
+ * // => 'User <n> not found at <url>'
+ * ```
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[a-z][\w+.-]*:\/\/[^\s'"`<>)\]]+/gi, '<url>')
+    .replace(/'[^'\n]*'|"[^"\n]*"|`[^`\n]*`/g, '<value>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b|\b(?=[a-f]*\d)[0-9a-f]{8,}\b/gi, '<hex>')
+    .replace(/\d+(?:\.\d+)?/g, '<n>')
+}
+
+/**
+ * 归一化堆栈帧文件名：去除查询参数、哈希与构建产物中的内容哈希
+ */
+function normalizeFileName(fileName: string): string {
+  return fileName
+    .replace(/[?#].*$/, '')
+    .replace(/[.-][0-9a-f]{8,}(?=\.\w+$)/i, '')
+}
+
+/**
+ * 提取参与分组的关键帧
+ *
+ * @remarks
+ * 优先使用应用代码帧，没有应用代码帧时使用全部带文件名的帧；行列号不参与分组
+ *
+ * @param frames - 堆栈帧
  * @param maxFrames - 最大帧数
+ * @param inAppOnly - 是否优先使用应用代码帧
  * @returns 关键帧字符串
  */
-function extractKeyFrames(stack: string | undefined, maxFrames = 3): string {
-  if (!stack) return ''
+function extractKeyFrames(frames: StackFrame[], maxFrames: number, inAppOnly: boolean): string {
+  const located = frames.filter(frame => frame.fileName)
+  const inApp = inAppOnly ? located.filter(frame => frame.inApp) : []
 
-  const lines = stack.split('\n')
-    .slice(1) // 跳过第一行（错误消息）
-    .filter(line => line.trim())
+  return (inApp.length > 0 ? inApp : located)
     .slice(0, maxFrames)
+    .map(frame => `${frame.functionName ?? ''}@${normalizeFileName(frame.fileName!)}`)
+    .join('|')
+}
 
-  // 移除行号列号，只保留文件名和函数名
-  return lines.map((line) => {
-    // 移除具体的行号列号
-    return line.replace(/:\d+:\d+/g, '').trim()
-  }).join('|')
+/**
+ * 指纹生成配置
+ */
+export interface FingerprintOptions {
+  /** 是否包含关联异常（cause 链与 AggregateError 内部错误），默认 false */
+  includeCauses?: boolean
+  /** 是否包含 release、dist 与 environment，默认 false */
+  includeRelease?: boolean
+  /** 是否归一化错误消息，默认 true */
+  normalizeMessages?: boolean
+  /** 是否只使用应用代码帧分组（没有应用代码帧时使用全部帧），默认 true */
+  inAppOnly?: boolean
+  /** 自定义指纹规则，按顺序匹配，首个命中的规则生效 */
+  rules?: FingerprintRule[]
 }
 
 /**
- * 生成错误指纹
- *
- * 基于错误的关键信息生成唯一标识，用于错误去重
- *
- * @param error - 错误信息对象
- * @returns 错误指纹字符串
- * @example
- * ```ts
- * const fingerprint = generateFingerprint(errorInfo)
- * // => "abc123def"
- * ```
+ * 生成默认分组依据
  */
-export function generateFingerprint(error: ErrorInfo): string {
+function getDefaultParts(error: ErrorInfo, options: FingerprintOptions): string[] {
+  const normalize = options.normalizeMessages ?? true
+  const inAppOnly = options.inAppOnly ?? true
+
   const parts: string[] = [
     error.name,
-    error.message,
+    normalize ? normalizeMessage(error.message) : error.message,
     error.source,
-    extractKeyFrames(error.stack),
+    extractKeyFrames(error.frames ?? parseStack(error.stack), 3, inAppOnly),
   ]
 
   // 如果有组件信息，也加入指纹
@@ -72,8 +146,88 @@ export function generateFingerprint(error: ErrorInfo): string {
     parts.push(error.componentInfo.name)
   }
 
-  const combined = parts.filter(Boolean).join('::')
-  return simpleHash(combined)
+  // 关联异常：不同根因的同名错误分开聚合
+  if (options.includeCauses && error.exceptions) {
+    for (const exception of error.exceptions) {
+      parts.push(
+        exception.relation,
+        exception.name,
+        normalize ? normalizeMessage(exception.message) : exception.message,
+        extractKeyFrames(parseStack(exception.stack), 1, inAppOnly),
+      )
+    }
+  }
+
+  // 版本信息：不同版本的同一错误分开聚合
+  if (options.includeRelease) {
+    parts.push(error.release ?? '', error.dist ?? '', error.environment ?? '')
+  }
+
+  return parts.filter(Boolean)
+}
+
+/**
+ * 展开自定义规则中的占位符
+ */
+function expandRule(error: ErrorInfo, rule: FingerprintRule, options: FingerprintOptions): string[] {
+  return rule.fingerprint.flatMap((value) => {
+    if (value === DEFAULT_FINGERPRINT_PLACEHOLDER) {
+      return getDefaultParts(error, options)
+    }
+
+    return [value.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, key: string) => {
+      if (key.startsWith('tags.')) {
+        return error.tags?.[key.slice('tags.'.length)] ?? ''
+      }
+      switch (key) {
+        case 'name': return error.name
+        case 'message': return normalizeMessage(error.message)
+        case 'source': return error.source
+        case 'code': return error.code ?? ''
+        case 'level': return error.level
+        default: return placeholder
+      }
+    })]
+  })
+}
+
+/**
+ * 生成错误指纹
+ *
+ * 基于错误的关键信息生成唯一标识，用于错误去重与分组。
+ * 默认依据名称、归一化后的消息、来源与前 3 个应用代码帧；命中自定义规则时使用规则中的分组依据
+ *
+ * @param error - 错误信息对象
+ * @param options - 生成配置
+ * @returns 16 位十六进制指纹
+ * @example
+ * ```ts
+ * const fingerprint = generateFingerprint(errorInfo)
+ * // => "9f2c1a7b4e0d3c58"
+ *
+ * generateFingerprint(errorInfo, {
+ *   rules: [{ message: /timeout/i, fingerprint: ['{{ default }}', '{{ tags.endpoint }}'] }],
+ * })
+ * ```
+ */
+export function generateFingerprint(error: ErrorInfo, options: FingerprintOptions = {}): string {
+  const rule = options.rules?.find(rule => matchesError(error, rule))
+  const parts = rule ? expandRule(error, rule, options) : getDefaultParts(error, options)
+  return hashString(parts.join('::'))
+}
+
+/**
+ * 指纹出现记录
+ */
+export interface FingerprintOccurrence {
+  /** 窗口内累计出现次数（含首次） */
+  count: number
+  /** 首次出现时间 */
+  firstSeen: number
+  /** 最后出现时间 */
+  lastSeen: number
+  /** 自上次汇总后被抑制（未单独上报）的重复次数 */
+  pending: number
 }
 
 /**
@@ -84,17 +238,25 @@ export interface FingerprintCacheOptions {
   ttl?: number
   /** 最大缓存数量，默认 100 */
   maxSize?: number
+  /**
+   * 条目被移除（过期或容量淘汰）且仍有未汇总的重复次数时调用
+   *
+   * @param fingerprint - 错误指纹
+   * @param occurrence - 移除前的出现记录
+   */
+  onEvict?: (fingerprint: string, occurrence: FingerprintOccurrence) => void
 }
 
 /**
  * 指纹缓存
  *
- * 用于跟踪已处理的错误，支持错误去重
+ * 用于跟踪已处理的错误及其出现次数，支持错误去重
  */
 export class FingerprintCache {
-  private cache = new Map<string, number>()
+  private cache = new Map<string, FingerprintOccurrence>()
   private ttl: number
   private maxSize: number
+  private onEvict?: (fingerprint: string, occurrence: FingerprintOccurrence) => void
 
   /**
    * @param options - 缓存配置
@@ -102,6 +264,7 @@ export class FingerprintCache {
   constructor(options: FingerprintCacheOptions = {}) {
     this.ttl = options.ttl ?? 5 * 60 * 1000 // 默认 5 分钟
     this.maxSize = options.maxSize ?? 100
+    this.onEvict = options.onEvict
   }
 
   /**
@@ -111,14 +274,14 @@ export class FingerprintCache {
    * @returns 是否存在
    */
   has(fingerprint: string): boolean {
-    const timestamp = this.cache.get(fingerprint)
-    if (timestamp === undefined) {
+    const occurrence = this.cache.get(fingerprint)
+    if (occurrence === undefined) {
       return false
     }
 
-    // 检查是否过期
-    if (Date.now() - timestamp > this.ttl) {
-      this.cache.delete(fingerprint)
+    // 检查是否过期（窗口从首次出现开始计算）
+    if (Date.now() - occurrence.firstSeen > this.ttl) {
+      this.evict(fingerprint)
       return false
     }
 
@@ -129,31 +292,91 @@ export class FingerprintCache {
    * 添加指纹到缓存
    *
    * @param fingerprint - 错误指纹
+   * @param timestamp - 出现时间，默认当前时间
    */
-  add(fingerprint: string): void {
+  add(fingerprint: string, timestamp = Date.now()): void {
     // 如果缓存已满，清理最旧的条目
     if (this.cache.size >= this.maxSize) {
       this.cleanup()
     }
 
-    this.cache.set(fingerprint, Date.now())
+    this.cache.set(fingerprint, { count: 1, firstSeen: timestamp, lastSeen: timestamp, pending: 0 })
   }
 
   /**
    * 检查并添加指纹
    *
    * 如果指纹不存在，则添加并返回 false
-   * 如果指纹已存在，则返回 true（表示重复）
+   * 如果指纹已存在，则累计出现次数并返回 true（表示重复）
    *
    * @param fingerprint - 错误指纹
    * @returns 是否为重复指纹
    */
   checkAndAdd(fingerprint: string): boolean {
+    return this.record(fingerprint).duplicate
+  }
+
+  /**
+   * 记录一次出现
+   *
+   * @param fingerprint - 错误指纹
+   * @param timestamp - 出现时间，默认当前时间
+   * @returns 是否重复及记录后的出现信息（副本）
+   */
+  record(fingerprint: string, timestamp = Date.now()): { duplicate: boolean, occurrence: FingerprintOccurrence } {
     if (this.has(fingerprint)) {
-      return true
+      const occurrence = this.cache.get(fingerprint)!
+      occurrence.count++
+      occurrence.lastSeen = Math.max(occurrence.lastSeen, timestamp)
+      return { duplicate: true, occurrence: { ...occurrence } }
+    }
+
+    this.add(fingerprint, timestamp)
+    return { duplicate: false, occurrence: { ...this.cache.get(fingerprint)! } }
+  }
+
+  /**
+   * 将最近一次重复出现标记为已抑制，计入下次汇总
+   *
+   * @remarks
+   * 与 {@link FingerprintCache.record} 分开调用：单独上报的重复出现（如刚达到级别提升阈值）不应计入汇总
+   *
+   * @param fingerprint - 错误指纹
+   */
+  suppress(fingerprint: string): void {
+    const occurrence = this.cache.get(fingerprint)
+    if (occurrence) {
+      occurrence.pending++
     }
-    this.add(fingerprint)
-    return false
+  }
+
+  /**
+   * 获取指纹的出现记录
+   *
+   * @param fingerprint - 错误指纹
+   * @returns 出现记录副本，不存在时返回 undefined
+   */
+  get(fingerprint: string): FingerprintOccurrence | undefined {
+    const occurrence = this.cache.get(fingerprint)
+    return occurrence ? { ...occurrence } : undefined
+  }
+
+  /**
+   * 取出所有未汇总的重复记录，并将其 pending 归零
+   *
+   * @returns 指纹与出现记录（副本）列表
+   */
+  drainPending(): [string, FingerprintOccurrence][] {
+    const drained: [string, FingerprintOccurrence][] = []
+
+    this.cache.forEach((occurrence, fingerprint) => {
+      if (occurrence.pending > 0) {
+        drained.push([fingerprint, { ...occurrence }])
+        occurrence.pending = 0
+      }
+    })
+
+    return drained
   }
 
   /**
@@ -163,21 +386,21 @@ export class FingerprintCache {
     const now = Date.now()
     const expired: string[] = []
 
-    this.cache.forEach((timestamp, key) => {
-      if (now - timestamp > this.ttl) {
+    this.cache.forEach((occurrence, key) => {
+      if (now - occurrence.firstSeen > this.ttl) {
         expired.push(key)
       }
     })
 
-    expired.forEach(key => this.cache.delete(key))
+    expired.forEach(key => this.evict(key))
 
     // 如果仍然超过限制，删除最旧的条目
     if (this.cache.size >= this.maxSize) {
       const entries = Array.from(this.cache.entries())
-        .sort((a, b) => a[1] - b[1])
+        .sort((a, b) => a[1].lastSeen - b[1].lastSeen)
 
       const toRemove = entries.slice(0, Math.ceil(this.maxSize / 2))
-      toRemove.forEach(([key]) => this.cache.delete(key))
+      toRemove.forEach(([key]) => this.evict(key))
     }
   }
 
@@ -194,6 +417,18 @@ export class FingerprintCache {
   get size(): number {
     return this.cache.size
   }
+
+  /**
+   * 移除条目，有未汇总的重复次数时通知 onEvict
+   */
+  private evict(fingerprint: string): void {
+    const occurrence = this.cache.get(fingerprint)
+    this.cache.delete(fingerprint)
+
+    if (occurrence && occurrence.pending > 0) {
+      this.onEvict?.(fingerprint, { ...occurrence })
+    }
+  }
 }
 
 /**
@@ -3,8 +3,12 @@
  * @packageDocumentation
  */
 
-export * from './id'
+export * from './emitter'
 export * from './env'
 export * from './error'
 export * from './fingerprint'
+export * from './id'
+export * from './normalize'
+export * from './stack'
 export * from './throttle'
+export * from './user-agent'
@@ -0,0 +1,424 @@
+/**
+ * 事件数据规范化工具
+ *
+ * 将任意值转换为可安全序列化的数据（处理循环引用、BigInt、Map/Set、DOM 节点、Vue 响应式对象与函数），
+ * 并按长度、深度、宽度与字节预算裁剪事件
+ *
+ * @module utils/normalize
+ */
+
+import type { ErrorInfo } from '../types'
+import { DEFAULT_NORMALIZE_OPTIONS } from '../constants'
+
+/**
+ * 规范化配置
+ */
+export interface NormalizeOptions {
+  /** 对象的最大深度，更深的对象替换为 `[Object]`/`[Array]` @default 5 */
+  maxDepth?: number
+  /** 对象的最大键数与数组的最大长度 @default 100 */
+  maxBreadth?: number
+  /** 字符串的最大长度 @default 1000 */
+  maxStringLength?: number
+  /** 错误消息的最大长度 @default MAX_MESSAGE_LENGTH */
+  maxMessageLength?: number
+  /** 堆栈的最大帧数 @default MAX_STACK_LENGTH */
+  maxStackFrames?: number
+  /** extra 序列化后的最大字节数 @default MAX_EXTRA_SIZE */
+  maxExtraSize?: number
+  /** 事件序列化后的最大字节数 @default MAX_EVENT_SIZE */
+  maxEventSize?: number
+}
+
+/** 已解析的规范化配置 */
+type ResolvedNormalizeOptions = Required<NormalizeOptions>
+
+/** 截断标记 */
+const TRUNCATED = '[Truncated]'
+
+/**
+ * 截断字符串
+ *
+ * @param value - 字符串
+ * @param maxLength - 最大长度
+ * @returns 超出时截断并追加 `…`
+ */
+export function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength)}…` : value
+}
+
+/**
+ * 计算值序列化为 JSON 后的字节数
+ *
+ * @param value - 可序列化的值
+ * @returns UTF-8 字节数，无法序列化时返回 0
+ */
+export function getByteSize(value: unknown): number {
+  let json: string | undefined
+  try {
+    json = JSON.stringify(value)
+  }
+  catch {
+    return 0
+  }
+  if (json === undefined) {
+    return 0
+  }
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(json).length : json.length
+}
+
+/**
+ * 描述 DOM 节点，如 `[HTMLElement: button#submit.primary]`
+ */
+function describeNode(node: Node): string {
+  const element = node as Partial<Element>
+  if (typeof element.tagName !== 'string') {
+    return `[${node.nodeName}]`
+  }
+  const id = element.id ? `#${element.id}` : ''
+  const className = typeof element.className === 'string' && element.className
+    ? `.${element.className.trim().split(/\s+/).join('.')}`
+    : ''
+  return `[HTMLElement: ${element.tagName.toLowerCase()}${id}${className}]`
+}
+
+/**
+ * 获取 Vue 组件名称
+ */
+function getVueComponentName(value: Record<string, unknown>): string {
+  const options = (value.$options ?? value.type) as { name?: string, __name?: string } | undefined
+  return options?.name ?? options?.__name ?? 'Anonymous'
+}
+
+/**
+ * 描述无法展开的特殊值
+ *
+ * @returns 特殊值的描述，普通对象返回 undefined
+ */
+function describeSpecial(value: object): string | undefined {
+  if (typeof globalThis.Node === 'function' && value instanceof globalThis.Node) {
+    return describeNode(value)
+  }
+  if (typeof globalThis.window === 'object' && value === globalThis.window) {
+    return '[Window]'
+  }
+
+  const record = value as Record<string, unknown>
+  try {
+    // Vue 组件实例（公开代理与内部实例）与虚拟节点
+    if (record.__v_isVNode) {
+      return '[VNode]'
+    }
+    if ('$options' in record && '$el' in record) {
+      return `[VueComponent: ${getVueComponentName(record)}]`
+    }
+    if (typeof record.uid === 'number' && 'vnode' in record && 'appContext' in record) {
+      return `[VueComponent: ${getVueComponentName(record)}]`
+    }
+  }
+  catch {
+    return '[Object]'
+  }
+
+  if (ArrayBuffer.isView(value)) {
+    return `[${value.constructor.name}(${value.byteLength})]`
+  }
+  if (value instanceof ArrayBuffer) {
+    return `[ArrayBuffer(${value.byteLength})]`
+  }
+  if (value instanceof WeakMap || value instanceof WeakSet || value instanceof Promise) {
+    return `[${value.constructor.name}]`
+  }
+
+  return undefined
+}
+
+/**
+ * 获取 Vue 响应式对象的原始对象，避免读取时触发依赖收集
+ */
+function toRawValue(value: object): unknown {
+  try {
+    const record = value as Record<string, unknown>
+    if (record.__v_isRef) {
+      return record._rawValue ?? record._value
+    }
+    let raw: unknown = value
+    while (typeof raw === 'object' && raw !== null && (raw as Record<string, unknown>).__v_raw) {
+      raw = (raw as Record<string, unknown>).__v_raw
+    }
+    return raw
+  }
+  catch {
+    return value
+  }
+}
+
+/**
+ * 递归规范化
+ */
+function visit(value: unknown, depth: number, options: ResolvedNormalizeOptions, seen: WeakSet<object>): unknown {
+  switch (typeof value) {
+    case 'string':
+      return truncate(value, options.maxStringLength)
+    case 'number':
+      return Number.isFinite(value) ? value : String(value)
+    case 'bigint':
+      return `${value.toString()}n`
+    case 'symbol':
+      return value.toString()
+    case 'function':
+      return `[Function: ${value.name || '<anonymous>'}]`
+    case 'boolean':
+    case 'undefined':
+      return value
+  }
+
+  if (value === null) {
+    return null
+  }
+
+  const raw = toRawValue(value as object)
+  if (raw !== value) {
+    return visit(raw, depth, options, seen)
+  }
+
+  const object = value as object
+  const special = describeSpecial(object)
+  if (special !== undefined) {
+    return special
+  }
+
+  if (object instanceof Date) {
+    return Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString()
+  }
+  if (object instanceof RegExp) {
+    return object.toString()
+  }
+
+  if (seen.has(object)) {
+    return '[Circular]'
+  }
+  if (depth >= options.maxDepth) {
+    return Array.isArray(object) ? '[Array]' : '[Object]'
+  }
+
+  seen.add(object)
+  try {
+    // Error 的属性不可枚举，单独展开
+    if (object instanceof Error) {
+      return {
+        ...visitEntries(Object.entries(object), depth, options, seen),
+        name: object.name,
+        message: truncate(object.message, options.maxStringLength),
+        stack: object.stack !== undefined ? truncate(object.stack, options.maxStringLength) : undefined,
+      }
+    }
+
+    if (Array.isArray(object)) {
+      const items = object.slice(0, options.maxBreadth).map(item => visit(item, depth + 1, options, seen))
+      if (object.length > options.maxBreadth) {
+        items.push(`[${object.length - options.maxBreadth} more items]`)
+      }
+      return items
+    }
+
+    if (object instanceof Map) {
+      return visitEntries([...object.entries()].map(([key, item]) => [String(key), item]), depth, options, seen)
+    }
+    if (object instanceof Set) {
+      return visit([...object], depth, options, seen)
+    }
+
+    return visitEntries(Object.keys(object).map(key => [key, readProperty(object, key)]), depth, options, seen)
+  }
+  finally {
+    // 只检测祖先链上的循环，同一对象被多处引用时各自展开
+    seen.delete(object)
+  }
+}
+
+/**
+ * 读取属性，getter 抛出异常时返回描述
+ */
+function readProperty(object: object, key: string): unknown {
+  try {
+    return (object as Record<string, unknown>)[key]
+  }
+  catch {
+    return '[Thrown]'
+  }
+}
+
+/**
+ * 规范化键值对
+ */
+function visitEntries(
+  entries: [string, unknown][],
+  depth: number,
+  options: ResolvedNormalizeOptions,
+  seen: WeakSet<object>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  entries.slice(0, options.maxBreadth).forEach(([key, item]) => {
+    result[key] = visit(item, depth + 1, options, seen)
+  })
+  if (entries.length > options.maxBreadth) {
+    result['...'] = `[${entries.length - options.maxBreadth} more keys]`
+  }
+  return result
+}
+
+/**
+ * 解析规范化配置
+ */
+function resolveOptions(options: NormalizeOptions): ResolvedNormalizeOptions {
+  return {
+    ...DEFAULT_NORMALIZE_OPTIONS,
+    ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+  }
+}
+
+/**
+ * 将任意值规范化为可安全序列化的数据
+ *
+ * @param value - 任意值
+ * @param options - 规范化配置
+ * @returns 可序列化的副本
+ * @example
+ * ```ts
+ * const data: Record<string, unknown> = { id: 1n, tags: new Set(['a']), el: document.body }
+ * data.self = data
+ * normalizeValue(data)
+ * // => { id: '1n', tags: ['a'], el: '[HTMLElement: body]', self: '[Circular]' }
+ * ```
+ */
+export function normalizeValue(value: unknown, options: NormalizeOptions = {}): unknown {
+  return visit(value, 0, resolveOptions(options), new WeakSet())
+}
+
+/**
+ * 裁剪堆栈字符串的帧数（保留消息行）
+ */
+function truncateStack(stack: string, maxFrames: number, maxLength: number): string {
+  const lines = stack.split('\n')
+  const frameStart = lines.findIndex(line => /^\s+at\s|^[^\s@]*@\S/.test(line))
+  const header = frameStart === -1 ? lines : lines.slice(0, frameStart)
+  const frames = frameStart === -1 ? [] : lines.slice(frameStart)
+
+  const kept = frames.length > maxFrames
+    ? [...frames.slice(0, maxFrames), `    ... ${frames.length - maxFrames} more frames`]
+    : frames
+  return truncate([...header, ...kept].join('\n'), maxLength)
+}
+
+/**
+ * 将 extra 限制在字节预算内：先降低深度，仍超出时从最大的字段开始替换为截断标记
+ */
+function fitExtra(extra: Record<string, unknown>, options: ResolvedNormalizeOptions): Record<string, unknown> {
+  let result = visit(extra, 0, options, new WeakSet()) as Record<string, unknown>
+
+  for (let depth = options.maxDepth - 1; depth >= 1 && getByteSize(result) > options.maxExtraSize; depth--) {
+    result = visit(extra, 0, { ...options, maxDepth: depth }, new WeakSet()) as Record<string, unknown>
+  }
+
+  if (getByteSize(result) > options.maxExtraSize) {
+    const keys = Object.keys(result).sort((a, b) => getByteSize(result[b]) - getByteSize(result[a]))
+    for (const key of keys) {
+      if (getByteSize(result) <= options.maxExtraSize) {
+        break
+      }
+      result[key] = TRUNCATED
+    }
+  }
+
+  return result
+}
+
+/**
+ * 规范化错误事件
+ *
+ * @remarks
+ * 截断消息与堆栈，规范化 extra、面包屑数据、组件属性与上下文，并将事件限制在字节预算内。
+ * 超出预算时依次：减半最早的面包屑、移除面包屑数据、截断 extra、移除源码上下文、移除关联异常
+ *
+ * @param event - 错误事件
+ * @param options - 规范化配置
+ * @returns 规范化后的事件副本
+ */
+export function normalizeEvent(event: ErrorInfo, options: NormalizeOptions = {}): ErrorInfo {
+  const resolved = resolveOptions(options)
+  const { maxMessageLength, maxStackFrames, maxStringLength } = resolved
+  const maxStackLength = maxStringLength * maxStackFrames
+
+  const result: ErrorInfo = {
+    ...event,
+    message: truncate(event.message, maxMessageLength),
+    stack: event.stack !== undefined ? truncateStack(event.stack, maxStackFrames, maxStackLength) : undefined,
+  }
+
+  if (event.frames) {
+    result.frames = event.frames.slice(0, maxStackFrames)
+  }
+  if (event.exceptions) {
+    result.exceptions = event.exceptions.map(exception => ({
+      ...exception,
+      message: truncate(exception.message, maxMessageLength),
+      stack: exception.stack !== undefined ? truncateStack(exception.stack, maxStackFrames, maxStackLength) : undefined,
+    }))
+  }
+  if (event.extra) {
+    result.extra = fitExtra(event.extra, resolved)
+  }
+  if (event.breadcrumbs) {
+    result.breadcrumbs = event.breadcrumbs.map(breadcrumb => ({
+      ...breadcrumb,
+      message: truncate(breadcrumb.message, maxStringLength),
+      ...(breadcrumb.data ? { data: normalizeValue(breadcrumb.data, resolved) as Record<string, unknown> } : {}),
+    }))
+  }
+  if (event.componentInfo?.props) {
+    result.componentInfo = {
+      ...event.componentInfo,
+      props: normalizeValue(event.componentInfo.props, resolved) as Record<string, unknown>,
+    }
+  }
+  if (event.contexts) {
+    result.contexts = normalizeValue(event.contexts, resolved) as ErrorInfo['contexts']
+  }
+
+  return fitEvent(result, resolved.maxEventSize)
+}
+
+/**
+ * 将事件限制在字节预算内
+ */
+function fitEvent(event: ErrorInfo, maxEventSize: number): ErrorInfo {
+  const fits = (): boolean => getByteSize(event) <= maxEventSize
+
+  // 1. 从最早的面包屑开始，每次丢弃一半
+  while (!fits() && event.breadcrumbs && event.breadcrumbs.length > 1) {
+    event.breadcrumbs = event.breadcrumbs.slice(Math.ceil(event.breadcrumbs.length / 2))
+  }
+
+  // 2. 移除面包屑数据
+  if (!fits() && event.breadcrumbs) {
+    event.breadcrumbs = event.breadcrumbs.map(({ data: _data, ...breadcrumb }) => breadcrumb)
+  }
+
+  // 3. 截断 extra
+  if (!fits() && event.extra) {
+    event.extra = Object.fromEntries(Object.keys(event.extra).map(key => [key, TRUNCATED]))
+  }
+
+  // 4. 移除源码上下文
+  if (!fits() && event.frames) {
+    event.frames = event.frames.map(({ preContext: _pre, contextLine: _line, postContext: _post, ...frame }) => frame)
+  }
+
+  // 5. 移除关联异常
+  if (!fits() && event.exceptions) {
+    event.exceptions = undefined
+  }
+
+  return event
+}
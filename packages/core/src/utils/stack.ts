@@ -0,0 +1,229 @@
+/**
+ * 堆栈解析工具
+ *
+ * 将 Chrome/V8、Firefox、Safari/JavaScriptCore 的堆栈字符串解析为结构化帧，
+ * 支持 eval 与 new Function 帧、原生帧、匿名帧以及 Node.js 内部模块
+ *
+ * @module utils/stack
+ */
+
+import { DEFAULT_IN_APP_EXCLUDE } from '../constants'
+
+/**
+ * 堆栈帧
+ */
+export interface StackFrame {
+  /** 函数名，匿名函数为 `<anonymous>` */
+  functionName?: string
+  /** 文件名（eval 帧为调用 eval 的脚本） */
+  fileName?: string
+  /** 行号 */
+  lineNumber?: number
+  /** 列号 */
+  columnNumber?: number
+  /** 是否为原生代码帧（如 `Array.map`） */
+  native?: boolean
+  /** 是否为应用自身代码（第三方库、浏览器扩展与运行时内部模块为 false） */
+  inApp?: boolean
+  /** 出错行之前的源码（符号化后写入） */
+  preContext?: string[]
+  /** 出错行源码（符号化后写入） */
+  contextLine?: string
+  /** 出错行之后的源码（符号化后写入） */
+  postContext?: string[]
+  /** 原始行 */
+  raw: string
+}
+
+/**
+ * 堆栈解析配置
+ */
+export interface StackParseOptions {
+  /** 视为应用代码的文件模式，命中时优先于 inAppExclude */
+  inAppInclude?: readonly (string | RegExp)[]
+  /** 视为第三方代码的文件模式 @default DEFAULT_IN_APP_EXCLUDE */
+  inAppExclude?: readonly (string | RegExp)[]
+}
+
+/** Chrome/V8 帧: "    at functionName (fileName:line:column)" */
+const CHROME_FRAME = /^\s*at\s(.*)$/
+/** Firefox/Safari 帧: "functionName@fileName:line:column" */
+const GECKO_FRAME = /^([^@]*)@(.*)$/
+/** 文件位置: "fileName:line:column"，列号可省略 */
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/
+/** Chrome eval 位置: "eval at fn (fileName:line:column), <anonymous>:1:1"，取最内层的调用位置 */
+const CHROME_EVAL = /\(([^()]*?):(\d+):(\d+)\)/
+/** Firefox eval/new Function 位置: "fileName line 10 > eval:1:5" */
+const GECKO_EVAL = /^(\S+) line (\d+) > (?:eval|Function)/
+/** Firefox/Safari 帧的函数名，排除含空格的普通文本（如包含 @ 的错误消息） */
+const GECKO_FUNCTION = /^(?:[^\s@]*|(?:global|eval|module) code)$/
+
+/**
+ * 模式匹配：字符串为包含匹配，正则为模式匹配
+ */
+function matchesPattern(value: string, pattern: string | RegExp): boolean {
+  return typeof pattern === 'string' ? value.includes(pattern) : pattern.test(value)
+}
+
+/**
+ * 判断文件是否为应用代码
+ *
+ * @param fileName - 文件名
+ * @param options - 解析配置
+ * @returns 命中 inAppInclude 时为 true，命中 inAppExclude 时为 false，
+ * 配置了 inAppInclude 但未命中时为 false，否则为 true
+ */
+export function isInAppFile(fileName: string, options: StackParseOptions = {}): boolean {
+  const { inAppInclude = [], inAppExclude = DEFAULT_IN_APP_EXCLUDE } = options
+
+  if (inAppInclude.some(pattern => matchesPattern(fileName, pattern))) {
+    return true
+  }
+  if (inAppExclude.some(pattern => matchesPattern(fileName, pattern))) {
+    return false
+  }
+  return inAppInclude.length === 0
+}
+
+/**
+ * 拆分文件位置
+ */
+function parseLocation(location: string): Pick<StackFrame, 'fileName' | 'lineNumber' | 'columnNumber'> {
+  const match = LOCATION.exec(location)
+  if (!match) {
+    return { fileName: location }
+  }
+  return {
+    fileName: match[1],
+    lineNumber: Number.parseInt(match[2], 10),
+    columnNumber: match[3] !== undefined ? Number.parseInt(match[3], 10) : undefined,
+  }
+}
+
+/**
+ * 解析 Chrome/V8 帧
+ */
+function parseChromeFrame(body: string, raw: string): StackFrame {
+  let functionName: string | undefined
+  let location = body
+
+  // "fn (location)" 形式；无函数名时只有位置
+  const open = body.indexOf(' (')
+  if (body.endsWith(')') && open !== -1) {
+    functionName = body.slice(0, open)
+    location = body.slice(open + 2, -1)
+  }
+
+  functionName = functionName?.replace(/^async\s+/, '') || '<anonymous>'
+
+  if (location.startsWith('eval at ')) {
+    const match = CHROME_EVAL.exec(location)
+    return match
+      ? {
+          functionName,
+          fileName: match[1],
+          lineNumber: Number.parseInt(match[2], 10),
+          columnNumber: Number.parseInt(match[3], 10),
+          raw,
+        }
+      : { functionName, raw }
+  }
+
+  // 原生帧与无位置的帧（如 "Array.map (<anonymous>)"、"Promise.all (index 0)"）
+  if (location === 'native' || location === '<anonymous>') {
+    return { functionName, native: true, raw }
+  }
+  if (!LOCATION.test(location)) {
+    return { functionName, raw }
+  }
+
+  return { functionName, ...parseLocation(location), raw }
+}
+
+/**
+ * 解析 Firefox/Safari 帧
+ *
+ * @returns 不是堆栈帧时返回 null
+ */
+function parseGeckoFrame(name: string, location: string, raw: string): StackFrame | null {
+  if (!GECKO_FUNCTION.test(name)) {
+    return null
+  }
+
+  const functionName = name || '<anonymous>'
+
+  if (location === '[native code]') {
+    return { functionName, native: true, raw }
+  }
+
+  // Safari 中无位置信息的帧（如 "eval code@"）
+  if (!location) {
+    return { functionName, raw }
+  }
+
+  const evalMatch = GECKO_EVAL.exec(location)
+  if (evalMatch) {
+    return { functionName, fileName: evalMatch[1], lineNumber: Number.parseInt(evalMatch[2], 10), raw }
+  }
+
+  return LOCATION.test(location) ? { functionName, ...parseLocation(location), raw } : null
+}
+
+/**
+ * 解析单行堆栈
+ *
+ * @returns 不是堆栈帧（如错误消息行）时返回 null
+ */
+function parseLine(line: string): StackFrame | null {
+  const chrome = CHROME_FRAME.exec(line)
+  if (chrome) {
+    return parseChromeFrame(chrome[1].trim(), line)
+  }
+
+  const gecko = GECKO_FRAME.exec(line)
+  if (gecko) {
+    return parseGeckoFrame(gecko[1].trim(), gecko[2].trim(), line)
+  }
+
+  // Safari 中单独出现的原生帧
+  if (line.trim() === '[native code]') {
+    return { functionName: '<anonymous>', native: true, raw: line }
+  }
+
+  return null
+}
+
+/**
+ * 解析错误堆栈
+ *
+ * @remarks
+ * 帧按堆栈顺序排列（最内层调用在前）；错误消息行与无法识别的行被跳过
+ *
+ * @param stack - 堆栈字符串
+ * @param options - 解析配置
+ * @returns 解析后的堆栈帧数组
+ * @example
+ * ```ts
+ * parseStack('TypeError: x\n    at foo (https://app.com/main.js:10:5)')
+ * // => [{ functionName: 'foo', fileName: 'https://app.com/main.js', lineNumber: 10, columnNumber: 5, inApp: true, raw: '...' }]
+ * ```
+ */
+export function parseStack(stack?: string, options: StackParseOptions = {}): StackFrame[] {
+  if (!stack) {
+    return []
+  }
+
+  const frames: StackFrame[] = []
+
+  for (const line of stack.split('\n')) {
+    const frame = line.trim() ? parseLine(line) : null
+    if (!frame) {
+      continue
+    }
+
+    frame.inApp = !frame.native && frame.fileName !== undefined && isInAppFile(frame.fileName, options)
+    frames.push(frame)
+  }
+
+  return frames
+}
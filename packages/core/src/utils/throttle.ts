@@ -96,46 +96,91 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
  * 限流器配置
  */
 export interface RateLimiterOptions {
-  /** 时间窗口内最大调用次数 */
+  /** 时间窗口内补充的令牌数（即持续速率下的最大调用次数） */
   maxCalls: number
   /** 时间窗口（毫秒） */
   windowMs: number
+  /** 令牌桶容量，即允许的最大突发调用数 @default maxCalls */
+  burst?: number
+}
+
+/**
+ * 限流器状态
+ */
+export interface RateLimiterState {
+  /** 当前可用令牌数 */
+  tokens: number
+  /** 令牌桶容量 */
+  capacity: number
+  /** 已放行次数 */
+  allowed: number
+  /** 已拒绝次数 */
+  suppressed: number
 }
 
 /**
  * 限流器
  *
- * 限制指定时间窗口内的调用次数
+ * 令牌桶实现：令牌按 `maxCalls / windowMs` 的速率持续补充，桶满时最多容纳 `burst` 个，
+ * 空闲后允许一次性突发调用，持续调用时速率不超过 maxCalls/windowMs
  */
 export class RateLimiter {
-  private calls: number[] = []
-  private maxCalls: number
-  private windowMs: number
+  private capacity: number
+  private refillPerMs: number
+  private tokens: number
+  private lastRefill: number
+  private allowed = 0
+  private suppressed = 0
 
   /**
    * @param options - 限流配置
    */
   constructor(options: RateLimiterOptions) {
-    this.maxCalls = options.maxCalls
-    this.windowMs = options.windowMs
+    this.capacity = Math.max(0, options.burst ?? options.maxCalls)
+    this.refillPerMs = options.windowMs > 0 ? options.maxCalls / options.windowMs : Number.POSITIVE_INFINITY
+    this.tokens = this.capacity
+    this.lastRefill = Date.now()
   }
 
   /**
-   * 尝试获取调用许可
+   * 按流逝时间补充令牌
+   */
+  private refill(): void {
+    const now = Date.now()
+    const elapsed = now - this.lastRefill
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs)
+      this.lastRefill = now
+    }
+  }
+
+  /**
+   * 检查是否有足够令牌（不消耗）
    *
+   * @param cost - 所需令牌数
    * @returns 是否允许调用
    */
-  tryAcquire(): boolean {
-    const now = Date.now()
+  canAcquire(cost = 1): boolean {
+    this.refill()
+    return this.tokens >= cost
+  }
 
-    // 清理过期的调用记录
-    this.calls = this.calls.filter(time => now - time < this.windowMs)
+  /**
+   * 尝试获取调用许可
+   *
+   * @param cost - 消耗的令牌数
+   * @returns 是否允许调用
+   */
+  tryAcquire(cost = 1): boolean {
+    this.refill()
 
-    if (this.calls.length < this.maxCalls) {
-      this.calls.push(now)
+    if (this.tokens >= cost) {
+      this.tokens -= cost
+      this.allowed++
       return true
     }
 
+    this.suppressed++
     return false
   }
 
@@ -143,16 +188,156 @@ export class RateLimiter {
    * 获取剩余可用调用次数
    */
   get remaining(): number {
-    const now = Date.now()
-    this.calls = this.calls.filter(time => now - time < this.windowMs)
-    return Math.max(0, this.maxCalls - this.calls.length)
+    this.refill()
+    return Math.floor(this.tokens)
+  }
+
+  /**
+   * 获取限流器状态
+   */
+  getState(): RateLimiterState {
+    this.refill()
+    return {
+      tokens: Math.floor(this.tokens),
+      capacity: this.capacity,
+      allowed: this.allowed,
+      suppressed: this.suppressed,
+    }
+  }
+
+  /**
+   * 重置限流器（填满令牌桶并清空计数）
+   */
+  reset(): void {
+    this.tokens = this.capacity
+    this.lastRefill = Date.now()
+    this.allowed = 0
+    this.suppressed = 0
+  }
+}
+
+/**
+ * 分组限流器配置
+ */
+export interface KeyedRateLimiterOptions {
+  /** 每个分组在时间窗口内的最大调用次数，可按分组返回；小于等于 0 表示不限制 */
+  maxCalls: number | ((key: string) => number)
+  /** 时间窗口（毫秒） */
+  windowMs: number
+  /** 每个分组的令牌桶容量 @default 分组的 maxCalls */
+  burst?: number
+  /** 最多跟踪的分组数，超出时淘汰最久未使用的分组 @default 500 */
+  maxKeys?: number
+}
+
+/**
+ * 分组限流器
+ *
+ * 为每个分组（如错误指纹、错误来源）维护独立的令牌桶，避免单一分组耗尽全部配额
+ */
+export class KeyedRateLimiter {
+  private limiters = new Map<string, RateLimiter>()
+  private suppressedByKey = new Map<string, number>()
+  private suppressed = 0
+  private options: Required<Omit<KeyedRateLimiterOptions, 'burst'>> & Pick<KeyedRateLimiterOptions, 'burst'>
+
+  /**
+   * @param options - 限流配置
+   */
+  constructor(options: KeyedRateLimiterOptions) {
+    this.options = {
+      maxCalls: options.maxCalls,
+      windowMs: options.windowMs,
+      burst: options.burst,
+      maxKeys: options.maxKeys ?? 500,
+    }
+  }
+
+  /**
+   * 获取分组的限流器，不限制时返回 null
+   */
+  private getLimiter(key: string): RateLimiter | null {
+    let limiter = this.limiters.get(key)
+    if (limiter) {
+      // 重新插入以保持最近使用的分组在末尾
+      this.limiters.delete(key)
+      this.limiters.set(key, limiter)
+      return limiter
+    }
+
+    const { maxCalls, windowMs, burst, maxKeys } = this.options
+    const limit = typeof maxCalls === 'function' ? maxCalls(key) : maxCalls
+    if (limit <= 0) {
+      return null
+    }
+
+    limiter = new RateLimiter({ maxCalls: limit, windowMs, burst })
+    this.limiters.set(key, limiter)
+
+    if (this.limiters.size > maxKeys) {
+      const oldest = this.limiters.keys().next().value
+      if (oldest !== undefined) {
+        this.limiters.delete(oldest)
+      }
+    }
+
+    return limiter
+  }
+
+  /**
+   * 检查分组是否有足够令牌（不消耗）
+   *
+   * @param key - 分组
+   * @returns 是否允许调用
+   */
+  canAcquire(key: string): boolean {
+    return this.getLimiter(key)?.canAcquire() ?? true
+  }
+
+  /**
+   * 尝试获取分组的调用许可
+   *
+   * @param key - 分组
+   * @returns 是否允许调用
+   */
+  tryAcquire(key: string): boolean {
+    const limiter = this.getLimiter(key)
+    if (!limiter || limiter.tryAcquire()) {
+      return true
+    }
+
+    this.suppressed++
+    this.suppressedByKey.set(key, (this.suppressedByKey.get(key) ?? 0) + 1)
+    if (this.suppressedByKey.size > this.options.maxKeys) {
+      const oldest = this.suppressedByKey.keys().next().value
+      if (oldest !== undefined) {
+        this.suppressedByKey.delete(oldest)
+      }
+    }
+    return false
+  }
+
+  /**
+   * 获取累计拒绝次数
+   */
+  getSuppressed(): number {
+    return this.suppressed
+  }
+
+  /**
+   * 获取各分组的拒绝次数
+   */
+  getSuppressedByKey(): Record<string, number> {
+    return Object.fromEntries(this.suppressedByKey)
   }
 
   /**
-   * 重置限流器
+   * 重置全部分组
    */
   reset(): void {
-    this.calls = []
+    this.limiters.clear()
+    this.suppressedByKey.clear()
+    this.suppressed = 0
   }
 }
 
@@ -170,5 +355,6 @@ export function createErrorRateLimiter(
   return new RateLimiter({
     maxCalls: options.maxCalls ?? 100,
     windowMs: options.windowMs ?? 60 * 1000,
+    burst: options.burst,
   })
 }
@@ -0,0 +1,311 @@
+/**
+ * 用户代理解析工具
+ *
+ * 从 User-Agent 字符串解析浏览器、渲染引擎、操作系统与设备类型，
+ * 识别微信、QQ、UC、支付宝、钉钉等常见应用内浏览器（WebView）
+ *
+ * @module utils/user-agent
+ */
+
+/**
+ * 设备类型
+ */
+export type DeviceType = 'mobile' | 'tablet' | 'desktop' | 'bot'
+
+/**
+ * 用户代理解析结果
+ */
+export interface ParsedUserAgent {
+  browser: {
+    /** 浏览器名称，无法识别时为 undefined */
+    name?: string
+    /** 浏览器版本 */
+    version?: string
+    /** 是否为应用内浏览器（微信、QQ、支付宝等 WebView） */
+    webview?: boolean
+  }
+  engine: {
+    /** 渲染引擎：Blink、WebKit、Gecko、Trident、EdgeHTML */
+    name?: string
+    /** 引擎版本 */
+    version?: string
+  }
+  os: {
+    /** 操作系统名称 */
+    name?: string
+    /** 操作系统版本 */
+    version?: string
+  }
+  device: {
+    /** 设备类型 */
+    type: DeviceType
+    /** 厂商 */
+    vendor?: string
+    /** 型号 */
+    model?: string
+  }
+}
+
+/**
+ * 浏览器识别规则
+ */
+interface BrowserRule {
+  name: string
+  /** 第一个捕获组为版本号 */
+  pattern: RegExp
+  /** 是否为应用内浏览器 */
+  webview?: boolean
+}
+
+/**
+ * 浏览器识别规则，按顺序匹配
+ *
+ * @remarks
+ * 应用内浏览器与国产浏览器的 UA 同时包含 Chrome/Safari 标识，需要排在通用浏览器之前
+ */
+const BROWSER_RULES: BrowserRule[] = [
+  // 应用内浏览器
+  { name: 'WeCom', pattern: /wxwork\/([\d.]+)/i, webview: true },
+  { name: 'WeChat', pattern: /MicroMessenger\/([\d.]+)/i, webview: true },
+  { name: 'QQ', pattern: /\bQQ\/([\d.]+)/, webview: true },
+  { name: 'Alipay', pattern: /AlipayClient\/([\d.]+)/, webview: true },
+  { name: 'DingTalk', pattern: /DingTalk\/([\d.]+)/, webview: true },
+  { name: 'Weibo', pattern: /__weibo__([\d.]+)/, webview: true },
+  { name: 'Douyin', pattern: /aweme(?:_lite)?\/([\d.]+)/, webview: true },
+  { name: 'Feishu', pattern: /Lark\/([\d.]+)/, webview: true },
+  { name: 'Baidu App', pattern: /baiduboxapp\/([\d.]+)/, webview: true },
+  { name: 'Facebook', pattern: /FBAV\/([\d.]+)/, webview: true },
+  { name: 'Instagram', pattern: /Instagram ([\d.]+)/, webview: true },
+  // 国产与第三方浏览器
+  { name: 'UC Browser', pattern: /UC?Browser\/([\d.]+)/ },
+  { name: 'QQ Browser', pattern: /M?QQBrowser\/([\d.]+)/ },
+  { name: 'Quark', pattern: /Quark\/([\d.]+)/ },
+  { name: 'Huawei Browser', pattern: /HuaweiBrowser\/([\d.]+)/ },
+  { name: 'MIUI Browser', pattern: /MiuiBrowser\/([\d.]+)/ },
+  { name: 'Vivo Browser', pattern: /VivoBrowser\/([\d.]+)/ },
+  { name: 'OPPO Browser', pattern: /HeyTapBrowser\/([\d.]+)/ },
+  { name: 'Sogou Browser', pattern: /(?:SogouMobileBrowser\/|MetaSr )([\d.]+)/ },
+  { name: '360 Browser', pattern: /(?:QihooBrowser|QHBrowser)\/([\d.]+)/ },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser\/([\d.]+)/ },
+  { name: 'Yandex', pattern: /YaBrowser\/([\d.]+)/ },
+  // 通用浏览器
+  { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/([\d.]+)/ },
+  { name: 'Opera', pattern: /(?:OPR|OPiOS)\/([\d.]+)/ },
+  { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+  { name: 'Chrome Headless', pattern: /HeadlessChrome\/([\d.]+)/ },
+  { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/([\d.]+)/ },
+  { name: 'IE', pattern: /(?:MSIE |Trident\/[\d.]+;.*?rv:)([\d.]+)/ },
+]
+
+/** Windows NT 内核版本与系统版本的对应关系 */
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+  '6.0': 'Vista',
+  '5.2': 'XP',
+  '5.1': 'XP',
+}
+
+/** 爬虫与自动化工具 */
+const BOT_PATTERN = /bot\b|crawler|spider|slurp|lighthouse|headless/i
+
+/**
+ * Android 型号前缀与厂商的对应关系
+ */
+const ANDROID_VENDORS: [RegExp, string][] = [
+  [/^(?:SM-|GT-|SAMSUNG)/i, 'Samsung'],
+  [/^(?:HUAWEI|HONOR)/i, 'Huawei'],
+  [/^(?:MI |Mi |Redmi|POCO|M2\d{3})/, 'Xiaomi'],
+  [/^(?:OPPO|CPH|PB[A-Z]M)/, 'OPPO'],
+  [/^(?:vivo|V\d{4}[A-Z])/i, 'vivo'],
+  [/^(?:ONEPLUS|KB\d{4}|LE\d{4})/i, 'OnePlus'],
+  [/^Pixel/, 'Google'],
+]
+
+/**
+ * 解析浏览器
+ */
+function parseBrowser(ua: string, os: ParsedUserAgent['os']): ParsedUserAgent['browser'] {
+  for (const rule of BROWSER_RULES) {
+    const match = rule.pattern.exec(ua)
+    if (match) {
+      return rule.webview ? { name: rule.name, version: match[1], webview: true } : { name: rule.name, version: match[1] }
+    }
+  }
+
+  if (ua.includes('Safari/') || os.name === 'iOS') {
+    const version = /Version\/([\d.]+)/.exec(ua)?.[1]
+    // iOS 上没有 Version 标识的 Safari 内核页面为应用内 WebView
+    if (os.name === 'iOS') {
+      return version ? { name: 'Mobile Safari', version } : { name: 'WebKit WebView', webview: true }
+    }
+    return { name: 'Safari', version }
+  }
+
+  return {}
+}
+
+/**
+ * 解析渲染引擎
+ */
+function parseEngine(ua: string, os: ParsedUserAgent['os']): ParsedUserAgent['engine'] {
+  // iOS 上所有浏览器均基于 WebKit
+  const webkit = /AppleWebKit\/([\d.]+)/.exec(ua)
+  if (os.name === 'iOS') {
+    return { name: 'WebKit', version: webkit?.[1] }
+  }
+
+  const edgeHtml = /Edge\/([\d.]+)/.exec(ua)
+  if (edgeHtml) {
+    return { name: 'EdgeHTML', version: edgeHtml[1] }
+  }
+
+  const chrome = /Chrome\/([\d.]+)/.exec(ua)
+  if (chrome) {
+    return { name: 'Blink', version: chrome[1] }
+  }
+
+  if (webkit) {
+    return { name: 'WebKit', version: webkit[1] }
+  }
+
+  const trident = /Trident\/([\d.]+)/.exec(ua)
+  if (trident) {
+    return { name: 'Trident', version: trident[1] }
+  }
+
+  const gecko = /rv:([\d.]+)\) Gecko\//.exec(ua)
+  if (gecko) {
+    return { name: 'Gecko', version: gecko[1] }
+  }
+
+  return {}
+}
+
+/**
+ * 解析操作系统
+ */
+function parseOs(ua: string): ParsedUserAgent['os'] {
+  const windowsPhone = /Windows Phone(?: OS)? ([\d.]+)/.exec(ua)
+  if (windowsPhone) {
+    return { name: 'Windows Phone', version: windowsPhone[1] }
+  }
+
+  const windows = /Windows NT ([\d.]+)/.exec(ua)
+  if (windows) {
+    return { name: 'Windows', version: WINDOWS_VERSIONS[windows[1]] ?? windows[1] }
+  }
+
+  const harmony = /(?:OpenHarmony|HarmonyOS)[ /]?([\d.]*)/.exec(ua)
+  if (harmony) {
+    return { name: 'HarmonyOS', version: harmony[1] || undefined }
+  }
+
+  const ios = /(?:iPhone|iPad|iPod|CPU) OS (\d+(?:_\d+)*)/.exec(ua)
+  if (ios) {
+    return { name: 'iOS', version: ios[1].replace(/_/g, '.') }
+  }
+
+  const android = /Android(?: ([\d.]+))?/.exec(ua)
+  if (android) {
+    return { name: 'Android', version: android[1] }
+  }
+
+  const mac = /Mac OS X (\d+(?:[_.]\d+)*)/.exec(ua)
+  if (mac) {
+    return { name: 'macOS', version: mac[1].replace(/_/g, '.') }
+  }
+
+  const chromeOs = /CrOS \S+ ([\d.]+)/.exec(ua)
+  if (chromeOs) {
+    return { name: 'Chrome OS', version: chromeOs[1] }
+  }
+
+  if (/Linux/.test(ua)) {
+    return { name: 'Linux' }
+  }
+
+  return {}
+}
+
+/**
+ * 从 UA 的系统信息段中提取 Android 设备型号
+ *
+ * @remarks
+ * 精简 UA（如 `Android 10; K`）不包含真实型号，返回 undefined
+ */
+function parseAndroidModel(ua: string): string | undefined {
+  const info = /\(([^)]*)\)/.exec(ua)?.[1]
+  if (!info) {
+    return undefined
+  }
+
+  const parts = info.split(';').map(part => part.trim())
+  const index = parts.findIndex(part => part.startsWith('Android'))
+  if (index === -1) {
+    return undefined
+  }
+  const model = parts.slice(index + 1).find(part => part && part !== 'wv' && !/^[a-z]{2}[-_][a-z]{2}$/i.test(part))
+  const name = model?.replace(/\s*Build\/.*$/, '')
+  return name && name !== 'K' ? name : undefined
+}
+
+/**
+ * 解析设备
+ */
+function parseDevice(ua: string, os: ParsedUserAgent['os']): ParsedUserAgent['device'] {
+  if (BOT_PATTERN.test(ua)) {
+    return { type: 'bot' }
+  }
+
+  const apple = /iPad|iPhone|iPod/.exec(ua)
+  if (apple) {
+    return { type: apple[0] === 'iPad' ? 'tablet' : 'mobile', vendor: 'Apple', model: apple[0] }
+  }
+
+  if (os.name === 'Android' || os.name === 'HarmonyOS') {
+    const model = parseAndroidModel(ua)
+    const vendor = model ? ANDROID_VENDORS.find(([pattern]) => pattern.test(model))?.[1] : undefined
+    // Android 平板的 UA 不包含 Mobile 标识
+    const type = /Mobile|Phone/.test(ua) ? 'mobile' : 'tablet'
+    return { type, vendor, model }
+  }
+
+  if (os.name === 'Windows Phone') {
+    return { type: 'mobile' }
+  }
+
+  if (/Tablet|PlayBook|Silk/.test(ua)) {
+    return { type: 'tablet' }
+  }
+
+  return { type: /Mobi/.test(ua) ? 'mobile' : 'desktop' }
+}
+
+/**
+ * 解析用户代理字符串
+ *
+ * @param ua - User-Agent 字符串
+ * @returns 浏览器、引擎、操作系统与设备信息，无法识别的字段为 undefined
+ * @example
+ * ```ts
+ * parseUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) ... MicroMessenger/8.0.44')
+ * // => {
+ * //   browser: { name: 'WeChat', version: '8.0.44', webview: true },
+ * //   engine: { name: 'WebKit', version: '605.1.15' },
+ * //   os: { name: 'iOS', version: '17.1' },
+ * //   device: { type: 'mobile', vendor: 'Apple', model: 'iPhone' },
+ * // }
+ * ```
+ */
+export function parseUserAgent(ua: string): ParsedUserAgent {
+  const os = parseOs(ua)
+  return {
+    browser: parseBrowser(ua, os),
+    engine: parseEngine(ua, os),
+    os,
+    device: parseDevice(ua, os),
+  }
+}
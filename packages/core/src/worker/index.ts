@@ -0,0 +1,7 @@
+/**
+ * Worker 错误捕获模块
+ * @packageDocumentation
+ */
+
+export * from './relay'
+export * from './worker-catcher'
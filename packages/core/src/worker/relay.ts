@@ -0,0 +1,155 @@
+/**
+ * Worker 错误转发协议
+ *
+ * @description Worker 与主线程之间传递错误信息的消息格式与发送工具
+ *
+ * @module worker/relay
+ */
+
+import type { ErrorInfo } from '../types'
+import type { WorkerType } from '../utils/env'
+
+/**
+ * 转发消息标识
+ */
+export const WORKER_ERROR_MESSAGE_TYPE = '__ldesign_error__'
+
+/**
+ * Worker 错误转发消息
+ */
+export interface WorkerErrorMessage {
+  /** 消息标识 */
+  type: typeof WORKER_ERROR_MESSAGE_TYPE
+  /** 序列化后的错误信息 */
+  error: ErrorInfo
+  /** Worker 脚本地址 */
+  scriptUrl: string
+  /** Worker 类型 */
+  workerType: WorkerType
+}
+
+/**
+ * 检查消息是否为 Worker 错误转发消息
+ *
+ * @param data - 消息数据
+ * @returns 是否为转发消息
+ */
+export function isWorkerErrorMessage(data: unknown): data is WorkerErrorMessage {
+  return typeof data === 'object'
+    && data !== null
+    && (data as { type?: unknown }).type === WORKER_ERROR_MESSAGE_TYPE
+    && typeof (data as { error?: unknown }).error === 'object'
+}
+
+/**
+ * 创建转发消息
+ *
+ * @remarks
+ * 通过 JSON 往返去除函数、DOM 节点等不可结构化克隆的值，避免 postMessage 抛出 DataCloneError
+ *
+ * @param error - 错误信息
+ * @param workerType - Worker 类型
+ * @returns 可安全 postMessage 的消息
+ */
+export function createWorkerErrorMessage(error: ErrorInfo, workerType: WorkerType): WorkerErrorMessage {
+  let serialized: ErrorInfo
+  try {
+    serialized = JSON.parse(JSON.stringify(error)) as ErrorInfo
+  }
+  catch {
+    serialized = {
+      id: error.id,
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      level: error.level,
+      source: error.source,
+      timestamp: error.timestamp,
+      fingerprint: error.fingerprint,
+    }
+  }
+
+  return {
+    type: WORKER_ERROR_MESSAGE_TYPE,
+    error: serialized,
+    scriptUrl: globalThis.location.href,
+    workerType,
+  }
+}
+
+/**
+ * 可接收消息的端点
+ */
+interface MessageTarget {
+  postMessage: (message: unknown) => void
+}
+
+/**
+ * Service Worker 客户端集合（最小接口）
+ */
+interface ClientsLike {
+  matchAll: (options?: { includeUncontrolled?: boolean, type?: string }) => Promise<readonly MessageTarget[]>
+}
+
+/**
+ * 创建转发函数
+ *
+ * @remarks
+ * - Dedicated Worker：发送给创建它的页面
+ * - Shared Worker：发送给所有已连接的端口
+ * - Service Worker：发送给所有窗口客户端
+ *
+ * @param workerType - Worker 类型
+ * @returns 转发函数与停止函数
+ */
+export function createWorkerRelay(workerType: WorkerType): {
+  relay: (error: ErrorInfo) => void
+  stop: () => void
+} {
+  const scope = globalThis as unknown as MessageTarget & {
+    clients?: ClientsLike
+    addEventListener: (type: string, listener: (event: MessageEvent) => void) => void
+    removeEventListener: (type: string, listener: (event: MessageEvent) => void) => void
+  }
+
+  const ports: MessageTarget[] = []
+  const onConnect = (event: MessageEvent): void => {
+    ports.push(...event.ports)
+  }
+
+  if (workerType === 'shared') {
+    scope.addEventListener('connect', onConnect)
+  }
+
+  const relay = (error: ErrorInfo): void => {
+    const message = createWorkerErrorMessage(error, workerType)
+
+    try {
+      if (workerType === 'dedicated') {
+        scope.postMessage(message)
+      }
+      else if (workerType === 'shared') {
+        ports.forEach(port => port.postMessage(message))
+      }
+      else if (scope.clients) {
+        scope.clients
+          .matchAll({ includeUncontrolled: true, type: 'window' })
+          .then(clients => clients.forEach(client => client.postMessage(message)))
+          .catch(() => {})
+      }
+    }
+    catch {
+      // 忽略转发错误
+    }
+  }
+
+  return {
+    relay,
+    stop: () => {
+      if (workerType === 'shared') {
+        scope.removeEventListener('connect', onConnect)
+      }
+      ports.length = 0
+    },
+  }
+}
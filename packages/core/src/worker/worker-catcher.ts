@@ -0,0 +1,98 @@
+/**
+ * Worker 端错误捕获入口
+ *
+ * @description 在 Dedicated/Shared/Service Worker 中安装错误捕获，
+ * 错误可直接通过 ErrorReporter 上报，或转发给主线程的 ErrorCatcher 统一处理
+ *
+ * @example
+ * ```ts
+ * // worker.ts
+ * import { installWorkerErrorCatcher } from '@ldesign/error-core/worker'
+ *
+ * installWorkerErrorCatcher({ mode: 'relay' })
+ *
+ * // main.ts
+ * const worker = new Worker(new URL('./worker.ts', import.meta.url))
+ * catcher.attachWorker(worker)
+ * ```
+ */
+
+import type { ErrorCatcherOptions, ErrorReporterOptions } from '../types'
+import { ErrorCatcher } from '../catcher'
+import { ErrorReporter } from '../reporter'
+import { getWorkerType } from '../utils/env'
+import { createWorkerRelay } from './relay'
+
+/**
+ * Worker 错误捕获配置
+ */
+export interface WorkerErrorCatcherOptions extends ErrorCatcherOptions {
+  /**
+   * 处理方式
+   * - relay: 序列化后通过 postMessage 转发给主线程
+   * - report: 在 Worker 内直接通过 ErrorReporter 上报
+   * @default 'relay'
+   */
+  mode?: 'relay' | 'report'
+  /** report 模式使用的上报器实例或配置 */
+  reporter?: ErrorReporter | ErrorReporterOptions
+}
+
+/**
+ * Worker 错误捕获实例
+ */
+export interface WorkerErrorCatcherInstance {
+  /** 错误捕获器 */
+  catcher: ErrorCatcher
+  /** 上报器（仅 report 模式） */
+  reporter: ErrorReporter | null
+  /** 卸载错误捕获并停止转发 */
+  uninstall: () => void
+}
+
+/**
+ * 在 Worker 中安装错误捕获
+ *
+ * @param options - 配置选项
+ * @returns Worker 错误捕获实例；非 Worker 环境下捕获器不会安装
+ */
+export function installWorkerErrorCatcher(
+  options: WorkerErrorCatcherOptions = {},
+): WorkerErrorCatcherInstance {
+  const { mode = 'relay', reporter: reporterOption, ...catcherOptions } = options
+  const workerType = getWorkerType()
+
+  const reporter = mode === 'report'
+    ? reporterOption instanceof ErrorReporter
+      ? reporterOption
+      : new ErrorReporter(reporterOption)
+    : null
+
+  const relay = mode === 'relay' && workerType
+    ? createWorkerRelay(workerType)
+    : null
+
+  const catcher = new ErrorCatcher({
+    ...catcherOptions,
+    onError: (error) => {
+      if (reporter) {
+        reporter.report(error)
+      }
+      else {
+        relay?.relay(error)
+      }
+      catcherOptions.onError?.(error)
+    },
+  })
+
+  catcher.install()
+
+  return {
+    catcher,
+    reporter,
+    uninstall: () => {
+      catcher.uninstall()
+      relay?.stop()
+    },
+  }
+}
@@ -32,18 +32,20 @@
  * ```
  */
 
+import type { ErrorInfo, ResolvedCatalogEntry } from '@ldesign/error-core'
+import { ErrorSource, normalizeError } from '@ldesign/error-core'
 import {
   computed,
   defineComponent,
   h,
   onErrorCaptured,
+  type PropType,
   ref,
   Transition,
-  type PropType,
   type VNode,
 } from 'vue'
-import type { ErrorInfo } from '@ldesign/error-core'
-import { ErrorLevel, ErrorSource } from '@ldesign/error-core'
+import { useErrorCatalog } from '../composables/useErrorCatalog'
+import { injectErrorCatcher } from '../composables/useErrorHandler'
 import { ErrorOverlay } from './ErrorOverlay'
 
 /**
@@ -54,10 +56,11 @@ import { ErrorOverlay } from './ErrorOverlay'
  */
 export type ErrorBoundaryMode = 'full' | 'overlay' | 'inline'
 
-/** 生成错误 ID */
-function generateErrorId(): string {
-  return `err_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
-}
+/** 默认标题（属性与错误码目录均未提供时使用） */
+const DEFAULT_TITLE = 'Oops! Something went wrong'
+
+/** 默认消息 */
+const DEFAULT_MESSAGE = 'We encountered an unexpected error. Please try again.'
 
 /**
  * 错误边界组件
@@ -96,15 +99,15 @@ export const ErrorBoundary = defineComponent({
       type: Number as PropType<number>,
       default: 3,
     },
-    /** 自定义错误标题 */
+    /** 自定义错误标题，默认取错误码目录中的标题 */
     title: {
       type: String as PropType<string>,
-      default: 'Oops! Something went wrong',
+      default: undefined,
     },
-    /** 自定义错误消息 */
+    /** 自定义错误消息，默认取错误码目录中的消息 */
     message: {
       type: String as PropType<string>,
-      default: 'We encountered an unexpected error. Please try again.',
+      default: undefined,
     },
     /** 是否显示图标 */
     showIcon: {
@@ -147,6 +150,21 @@ export const ErrorBoundary = defineComponent({
       return props.retryable && retryCount.value < props.maxRetries
     })
 
+    /** 错误码目录 */
+    const { resolve: resolveCatalog } = useErrorCatalog()
+
+    /** 错误捕获器（未安装插件时为独立捕获器） */
+    const catcher = injectErrorCatcher()
+
+    /** 当前错误的目录条目 */
+    const catalogEntry = computed(() => resolveCatalog(errorInfo.value))
+
+    /** 显示的标题：属性 > 目录 > 默认文案 */
+    const displayTitle = computed(() => props.title ?? catalogEntry.value?.title ?? DEFAULT_TITLE)
+
+    /** 显示的消息：属性 > 目录 > 默认文案 */
+    const displayMessage = computed(() => props.message ?? catalogEntry.value?.message ?? DEFAULT_MESSAGE)
+
     /** 捕获错误 */
     onErrorCaptured((error: Error, instance, info) => {
       hasError.value = true
@@ -155,25 +173,19 @@ export const ErrorBoundary = defineComponent({
         || instance?.$options?.__name
         || 'UnknownComponent'
 
-      errorInfo.value = {
-        id: generateErrorId(),
-        name: error.name || 'Error',
-        message: error.message || 'Unknown error',
-        stack: error.stack,
-        level: ErrorLevel.ERROR,
-        source: ErrorSource.VUE,
-        timestamp: Date.now(),
-        url: typeof window !== 'undefined' ? window.location.href : undefined,
-        componentInfo: {
-          name: componentName,
-          tree: [componentName],
-        },
-        extra: {
-          vueInfo: info,
-        },
+      const captured = catcher.createErrorInfo(normalizeError(error), ErrorSource.VUE, {
+        vueInfo: info,
+      })
+      captured.componentInfo = {
+        name: componentName,
+        tree: [componentName],
       }
+      errorInfo.value = captured
 
-      emit('error', errorInfo.value)
+      emit('error', captured)
+
+      // 边界阻止了错误传播，由此处交给捕获器处理管道
+      catcher.captureEvent(captured)
 
       // 阻止错误继续传播
       return false
@@ -264,12 +276,58 @@ export const ErrorBoundary = defineComponent({
                   h('pre', { style: styles.stackPre }, err.stack),
                 ])
                 : null,
+
+              renderExceptions(err),
             ])
             : null,
         ),
       ])
     }
 
+    /** 渲染关联异常（cause 链与 AggregateError 内部错误） */
+    function renderExceptions(err: ErrorInfo): VNode | null {
+      if (!err.exceptions?.length) {
+        return null
+      }
+
+      return h('div', { class: 'l-error-boundary__causes', style: styles.stack }, [
+        h('div', { style: styles.stackLabel }, 'Caused By'),
+        ...err.exceptions.map(exception => h('div', {
+          class: 'l-error-boundary__cause',
+          style: { ...styles.cause, paddingLeft: `${(exception.depth - 1) * 12}px` },
+        }, [
+          h('div', { style: styles.causeTitle }, [
+            h('span', { style: styles.causeRelation }, exception.relation === 'cause' ? 'cause' : 'aggregate'),
+            `${exception.name}: ${exception.message}`,
+          ]),
+          props.showStack && exception.stack
+            ? h('pre', { style: styles.stackPre }, exception.stack)
+            : null,
+        ])),
+      ])
+    }
+
+    /** 渲染恢复建议与文档链接 */
+    function renderGuidance(entry: ResolvedCatalogEntry | undefined): VNode | null {
+      if (!entry || (entry.hints.length === 0 && !entry.docsUrl)) {
+        return null
+      }
+
+      return h('div', { class: 'l-error-boundary__guidance', style: styles.guidance }, [
+        entry.hints.length > 0
+          ? h('ul', { style: styles.hints }, entry.hints.map(hint => h('li', null, hint)))
+          : null,
+        entry.docsUrl
+          ? h('a', {
+              href: entry.docsUrl,
+              target: '_blank',
+              rel: 'noopener noreferrer',
+              style: styles.docsLink,
+            }, 'Learn more')
+          : null,
+      ])
+    }
+
     /** 渲染信息行 */
     function renderInfoRow(label: string, value: string): VNode {
       return h('div', { style: styles.infoRow }, [
@@ -323,13 +381,16 @@ export const ErrorBoundary = defineComponent({
           h('h3', {
             class: 'l-error-boundary__title',
             style: { ...styles.title, color: theme.title },
-          }, props.title),
+          }, displayTitle.value),
 
           // 错误消息
           h('p', {
             class: 'l-error-boundary__message',
             style: { ...styles.message, color: theme.text },
-          }, props.message),
+          }, displayMessage.value),
+
+          // 恢复建议
+          renderGuidance(catalogEntry.value),
 
           // 错误详情
           props.showDetails && err ? renderDetails(err) : null,
@@ -369,7 +430,7 @@ export const ErrorBoundary = defineComponent({
         h('span', { style: styles.inlineIcon }, '⚠'),
         h('span', { style: styles.inlineText }, [
           `${componentName} error: `,
-          h('span', { style: styles.inlineMessage }, err?.message || 'Unknown error'),
+          h('span', { style: styles.inlineMessage }, catalogEntry.value?.message || err?.message || 'Unknown error'),
         ]),
         canRetry.value
           ? h('button', {
@@ -481,6 +542,20 @@ const styles = {
     lineHeight: '1.6',
     opacity: '0.85',
   },
+  guidance: {
+    margin: '-12px 0 24px',
+    fontSize: '13px',
+    lineHeight: '1.6',
+    textAlign: 'left' as const,
+  },
+  hints: {
+    margin: '0 0 8px',
+    paddingLeft: '20px',
+  },
+  docsLink: {
+    color: '#dc2626',
+    textDecoration: 'underline',
+  },
   details: {
     marginBottom: '24px',
     textAlign: 'left' as const,
@@ -537,6 +612,22 @@ const styles = {
     overflowX: 'auto' as const,
     maxHeight: '180px',
   },
+  cause: {
+    marginBottom: '8px',
+  },
+  causeTitle: {
+    marginBottom: '4px',
+    wordBreak: 'break-word' as const,
+  },
+  causeRelation: {
+    display: 'inline-block',
+    marginRight: '6px',
+    padding: '0 6px',
+    borderRadius: '4px',
+    fontSize: '11px',
+    background: 'rgba(220, 38, 38, 0.12)',
+    color: '#dc2626',
+  },
   actions: {
     display: 'flex',
     justifyContent: 'center',
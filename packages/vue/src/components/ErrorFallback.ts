@@ -22,7 +22,8 @@ import {
   type PropType,
   type VNode,
 } from 'vue'
-import type { ErrorInfo } from '@ldesign/error-core'
+import type { ErrorInfo, ResolvedCatalogEntry } from '@ldesign/error-core'
+import { useErrorCatalog } from '../composables/useErrorCatalog'
 
 /**
  * 错误回退组件属性
@@ -52,6 +53,10 @@ export interface ErrorFallbackProps {
   size?: 'small' | 'medium' | 'large'
 }
 
+// 默认文案（属性与错误码目录均未提供时使用）
+const DEFAULT_TITLE = 'Something went wrong'
+const DEFAULT_MESSAGE = 'An unexpected error occurred'
+
 /**
  * 错误回退组件
  */
@@ -64,15 +69,15 @@ export const ErrorFallback = defineComponent({
       type: Object as PropType<ErrorInfo | null>,
       default: null,
     },
-    /** 错误标题 */
+    /** 错误标题，默认取错误码目录中的标题 */
     title: {
       type: String,
-      default: 'Something went wrong',
+      default: undefined,
     },
-    /** 错误消息 */
+    /** 错误消息，默认取错误码目录中的消息 */
     message: {
       type: String,
-      default: 'An unexpected error occurred',
+      default: undefined,
     },
     /** 是否显示详情 */
     showDetails: {
@@ -129,6 +134,9 @@ export const ErrorFallback = defineComponent({
     /** 判断是否可以重试 */
     const canRetry = () => props.retryCount < props.maxRetries
 
+    /** 错误码目录 */
+    const { resolve: resolveCatalog } = useErrorCatalog()
+
     /** 获取尺寸样式 */
     function getSizeStyles() {
       const sizeMap = {
@@ -200,6 +208,27 @@ export const ErrorFallback = defineComponent({
       ])
     }
 
+    /** 渲染恢复建议与文档链接 */
+    function renderGuidance(entry: ResolvedCatalogEntry | undefined, color: string): VNode | null {
+      if (!entry || (entry.hints.length === 0 && !entry.docsUrl)) {
+        return null
+      }
+
+      return h('div', { style: { ...styles.guidance, color } }, [
+        entry.hints.length > 0
+          ? h('ul', { style: styles.hints }, entry.hints.map(hint => h('li', null, hint)))
+          : null,
+        entry.docsUrl
+          ? h('a', {
+              href: entry.docsUrl,
+              target: '_blank',
+              rel: 'noopener noreferrer',
+              style: { ...styles.docsLink, color },
+            }, 'Learn more')
+          : null,
+      ])
+    }
+
     /** 渲染详情 */
     function renderDetails(): VNode | null {
       if (!props.showDetails || !props.error) return null
@@ -254,6 +283,7 @@ export const ErrorFallback = defineComponent({
 
       const theme = getThemeStyles()
       const size = getSizeStyles()
+      const entry = resolveCatalog(props.error)
 
       return h('div', {
         class: 'l-error-fallback',
@@ -273,12 +303,15 @@ export const ErrorFallback = defineComponent({
         // 标题
         h('h3', {
           style: { ...styles.title, fontSize: size.titleSize, color: theme.title },
-        }, props.title),
+        }, props.title ?? entry?.title ?? DEFAULT_TITLE),
 
         // 消息
         h('p', {
           style: { ...styles.message, fontSize: size.fontSize, color: theme.text },
-        }, props.message),
+        }, props.message ?? entry?.message ?? DEFAULT_MESSAGE),
+
+        // 恢复建议
+        renderGuidance(entry, theme.text),
 
         // 详情
         renderDetails(),
@@ -310,6 +343,19 @@ const styles = {
     opacity: '0.8',
     lineHeight: '1.5',
   },
+  guidance: {
+    margin: '-8px 0 16px',
+    fontSize: '13px',
+    lineHeight: '1.5',
+    textAlign: 'left' as const,
+  },
+  hints: {
+    margin: '0 0 6px',
+    paddingLeft: '20px',
+  },
+  docsLink: {
+    textDecoration: 'underline',
+  },
   details: {
     marginBottom: '16px',
     textAlign: 'left' as const,
@@ -175,6 +175,12 @@ export const ErrorOverlay = defineComponent({
         err.stack
           ? h('pre', { style: styles.stack }, err.stack.split('\n').slice(0, 5).join('\n'))
           : null,
+        ...(err.exceptions ?? []).map(exception => h('div', {
+          style: { ...styles.detailRow, paddingLeft: `${(exception.depth - 1) * 10}px` },
+        }, [
+          h('span', { style: styles.detailLabel }, exception.relation === 'cause' ? 'Caused by:' : 'Aggregated:'),
+          h('span', { style: styles.detailValue }, `${exception.name}: ${exception.message}`),
+        ])),
       ])
     }
 
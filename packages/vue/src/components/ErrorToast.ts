@@ -29,7 +29,8 @@ import {
   type PropType,
   type VNode,
 } from 'vue'
-import type { ErrorInfo } from '@ldesign/error-core'
+import type { ErrorCatalog, ErrorInfo } from '@ldesign/error-core'
+import { defaultErrorCatalog } from '@ldesign/error-core'
 
 // ============================================================================
 // Toast 管理器 (单例)
@@ -50,12 +51,15 @@ export interface ToastManagerOptions {
   defaultDuration?: number
   /** 位置 */
   position?: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left'
+  /** 错误码目录，命中时显示目录中的标题、消息与帮助链接 */
+  catalog?: ErrorCatalog
 }
 
 const DEFAULT_MANAGER_OPTIONS: Required<ToastManagerOptions> = {
   maxToasts: 5,
   defaultDuration: 5000,
   position: 'top-right',
+  catalog: defaultErrorCatalog,
 }
 
 /** Toast 队列 */
@@ -205,12 +209,16 @@ export const ErrorToastItem = defineComponent({
 
     function copyErrorInfo(): void {
       const { error } = props.item
-      const text = `Error: ${error.name}\nMessage: ${error.message}\nTime: ${new Date(error.timestamp).toLocaleString()}${error.stack ? `\nStack: ${error.stack}` : ''}`
+      const causes = (error.exceptions ?? [])
+        .map(exception => `\n${exception.relation === 'cause' ? 'Caused by' : 'Aggregated'}: ${exception.name}: ${exception.message}`)
+        .join('')
+      const text = `Error: ${error.name}\nMessage: ${error.message}\nTime: ${new Date(error.timestamp).toLocaleString()}${error.stack ? `\nStack: ${error.stack}` : ''}${causes}`
       navigator.clipboard?.writeText(text)
     }
 
     return () => {
       const { error, isExpanded } = props.item
+      const entry = managerOptions.catalog.resolve(error.code)
 
       return h('div', {
         class: 'l-error-toast-item',
@@ -226,7 +234,7 @@ export const ErrorToastItem = defineComponent({
           // 头部
           h('div', { style: styles.toastHeader }, [
             h('div', { style: styles.toastIcon, innerHTML: errorIconSvg }),
-            h('div', { style: styles.toastTitle }, error.name || 'Error'),
+            h('div', { style: styles.toastTitle }, entry?.title || error.name || 'Error'),
             h('button', {
               style: styles.closeBtn,
               onClick: handleClose,
@@ -240,7 +248,7 @@ export const ErrorToastItem = defineComponent({
               ...styles.toastMessage,
               ...(isExpanded ? {} : styles.toastMessageTruncate),
             },
-          }, error.message),
+          }, entry?.message ?? error.message),
 
           // 组件信息
           error.componentInfo?.name
@@ -256,10 +264,25 @@ export const ErrorToastItem = defineComponent({
                 error.stack
                   ? h('pre', { style: styles.toastStack }, error.stack.split('\n').slice(0, 4).join('\n'))
                   : null,
+                ...(error.exceptions ?? []).map(exception => h('div', {
+                  style: { ...styles.toastMeta, paddingLeft: `${(exception.depth - 1) * 8}px` },
+                }, [
+                  h('span', { style: styles.metaLabel }, exception.relation === 'cause' ? 'Caused by:' : 'Aggregated:'),
+                  h('span', null, `${exception.name}: ${exception.message}`),
+                ])),
                 h('div', { style: styles.toastMeta }, [
                   h('span', { style: styles.metaLabel }, 'Time:'),
                   h('span', null, new Date(error.timestamp).toLocaleTimeString()),
                 ]),
+                ...(entry?.hints ?? []).map(hint => h('div', { style: styles.toastMeta }, `• ${hint}`)),
+                entry?.docsUrl
+                  ? h('a', {
+                      href: entry.docsUrl,
+                      target: '_blank',
+                      rel: 'noopener noreferrer',
+                      style: styles.toastLink,
+                    }, 'Learn more')
+                  : null,
               ])
             : null,
 
@@ -471,6 +494,13 @@ const styles = {
     paddingTop: '8px',
     borderTop: '1px solid #e5e7eb',
   },
+  toastLink: {
+    display: 'inline-block',
+    marginBottom: '8px',
+    fontSize: '12px',
+    color: '#dc2626',
+    textDecoration: 'underline',
+  },
   toastStack: {
     margin: '0 0 8px',
     padding: '8px',
@@ -3,7 +3,7 @@
  * @packageDocumentation
  */
 
-export * from './useErrorHandler'
 export * from './useAsyncError'
+export * from './useErrorCatalog'
+export * from './useErrorHandler'
 export * from './useGlobalErrorToast'
-
@@ -18,22 +18,8 @@
 
 import { ref, shallowRef, computed, onMounted, type Ref, type ComputedRef } from 'vue'
 import type { ErrorInfo } from '@ldesign/error-core'
-import { ErrorLevel, ErrorSource } from '@ldesign/error-core'
-
-/** 生成错误 ID */
-function generateErrorId(): string {
-  return `err_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
-}
-
-/** 获取当前 URL */
-function getCurrentUrl(): string | undefined {
-  return typeof window !== 'undefined' ? window.location.href : undefined
-}
-
-/** 获取用户代理 */
-function getUserAgent(): string | undefined {
-  return typeof navigator !== 'undefined' ? navigator.userAgent : undefined
-}
+import { ErrorSource } from '@ldesign/error-core'
+import { injectErrorCatcher } from './useErrorHandler'
 
 /** 规范化错误 */
 function normalizeError(error: unknown): Error {
@@ -64,6 +50,8 @@ export interface UseAsyncErrorOptions<T> {
   cancelOnUnmount?: boolean
   /** 超时时间（毫秒） */
   timeout?: number
+  /** 是否将错误交给捕获器处理与上报（已在 onError 中处理的错误无需开启）@default false */
+  capture?: boolean
 }
 
 /**
@@ -112,8 +100,12 @@ export function useAsyncError<T>(
     onError,
     onSuccess,
     timeout,
+    capture = false,
   } = options
 
+  // 错误捕获器
+  const catcher = injectErrorCatcher()
+
   // 状态
   const isLoading = ref(false)
   const isFinished = ref(false)
@@ -132,21 +124,10 @@ export function useAsyncError<T>(
    * 创建错误信息
    */
   function createErrorInfo(err: Error): ErrorInfo {
-    return {
-      id: generateErrorId(),
-      name: err.name || 'AsyncError',
-      message: err.message || 'Async operation failed',
-      stack: err.stack,
-      level: ErrorLevel.ERROR,
-      source: ErrorSource.MANUAL,
-      timestamp: Date.now(),
-      url: getCurrentUrl(),
-      userAgent: getUserAgent(),
-      extra: {
-        retryAttempt: retryAttempt.value,
-        maxRetries: retryCount,
-      },
-    }
+    return catcher.createErrorInfo(err, ErrorSource.MANUAL, {
+      retryAttempt: retryAttempt.value,
+      maxRetries: retryCount,
+    })
   }
 
   /**
@@ -186,6 +167,9 @@ export function useAsyncError<T>(
       const errorInfo = createErrorInfo(normalizedError)
       error.value = errorInfo
       onError?.(errorInfo)
+      if (capture) {
+        catcher.captureEvent(errorInfo)
+      }
       return undefined
     }
     finally {
@@ -0,0 +1,44 @@
+/**
+ * 错误码目录 Composable
+ *
+ * @description 获取插件提供的错误码目录，并按错误码解析面向用户的文案
+ *
+ * @example
+ * ```ts
+ * const { resolve } = useErrorCatalog()
+ * const entry = resolve(errorInfo)
+ * // entry?.title / entry?.message / entry?.hints / entry?.docsUrl
+ * ```
+ */
+
+import type { ErrorCatalog, ErrorInfo, ResolvedCatalogEntry } from '@ldesign/error-core'
+import type { InjectionKey } from 'vue'
+import { defaultErrorCatalog } from '@ldesign/error-core'
+import { inject } from 'vue'
+
+/** 错误码目录注入 Key */
+export const ERROR_CATALOG_KEY: InjectionKey<ErrorCatalog> = Symbol('error-catalog')
+
+/**
+ * 使用错误码目录
+ *
+ * @returns 目录实例与解析函数；未通过插件提供时使用 defaultErrorCatalog
+ */
+export function useErrorCatalog() {
+  const catalog = inject(ERROR_CATALOG_KEY, defaultErrorCatalog)
+
+  /**
+   * 解析错误对应的目录条目
+   *
+   * @param error - 错误信息
+   * @returns 目录条目，错误无 code 或未登记时返回 undefined
+   */
+  function resolve(error: Pick<ErrorInfo, 'code'> | null | undefined): ResolvedCatalogEntry | undefined {
+    return catalog.resolve(error?.code)
+  }
+
+  return {
+    catalog,
+    resolve,
+  }
+}
@@ -3,9 +3,9 @@
  * @description 提供错误处理相关的组合式函数
  */
 
-import { ref, onMounted, onUnmounted, inject } from 'vue'
-import type { ErrorInfo, ErrorCatcherOptions, ErrorReporterOptions } from '@ldesign/error-core'
+import type { ErrorCatcherOptions, ErrorInfo, ErrorReporterOptions } from '@ldesign/error-core'
 import { ErrorCatcher, ErrorReporter } from '@ldesign/error-core'
+import { getCurrentInstance, inject, onMounted, onUnmounted, ref } from 'vue'
 
 /** 错误处理器注入 Key */
 export const ERROR_HANDLER_KEY = Symbol('error-handler')
@@ -16,6 +16,37 @@ export interface ErrorHandlerInstance {
   reporter: ErrorReporter
 }
 
+/** 未安装插件时使用的独立捕获器 */
+let standaloneCatcher: ErrorCatcher | null = null
+
+/**
+ * 获取独立捕获器
+ *
+ * @remarks
+ * 不安装全局监听、不上报、不跟踪会话（不写入 sessionStorage），仅用于在未安装错误插件时构造统一的 ErrorInfo
+ *
+ * @returns 共享的独立捕获器
+ */
+export function getStandaloneCatcher(): ErrorCatcher {
+  standaloneCatcher ??= new ErrorCatcher({ enableSession: false, persistSession: false })
+  return standaloneCatcher
+}
+
+/**
+ * 获取当前应用的错误捕获器
+ *
+ * @remarks
+ * 在 setup 中调用时注入插件提供的捕获器，否则返回独立捕获器
+ *
+ * @returns 错误捕获器
+ */
+export function injectErrorCatcher(): ErrorCatcher {
+  const injected = getCurrentInstance()
+    ? inject<ErrorHandlerInstance | null>(ERROR_HANDLER_KEY, null)
+    : null
+  return injected?.catcher ?? getStandaloneCatcher()
+}
+
 /**
  * 使用错误处理
  * @param options - 配置选项
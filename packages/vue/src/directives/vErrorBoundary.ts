@@ -32,10 +32,11 @@ import {
   type DirectiveBinding,
   type VNode,
 } from 'vue'
-import type { ErrorInfo } from '@ldesign/error-core'
-import { ErrorLevel, ErrorSource } from '@ldesign/error-core'
+import type { ErrorCatcher, ErrorInfo } from '@ldesign/error-core'
+import { ErrorSource } from '@ldesign/error-core'
 import { ErrorOverlay } from '../components/ErrorOverlay'
 import { addErrorToast } from '../components/ErrorToast'
+import { getStandaloneCatcher } from '../composables/useErrorHandler'
 
 /**
  * 指令配置
@@ -74,13 +75,6 @@ function parseDirectiveValue(
   return value
 }
 
-/**
- * 生成错误 ID
- */
-function generateErrorId(): string {
-  return `err_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
-}
-
 /** 存储原始内容和错误状态 */
 const elementStates = new WeakMap<
   HTMLElement,
@@ -91,26 +85,19 @@ const elementStates = new WeakMap<
     retryCount: number
     options: ErrorBoundaryDirectiveOptions
     errorContainer: HTMLElement | null
+    catcher: ErrorCatcher
   }
 >()
 
 /**
  * 创建错误信息
  */
-function createErrorInfo(error: Error, el: HTMLElement): ErrorInfo {
-  return {
-    id: generateErrorId(),
-    name: error.name || 'Error',
-    message: error.message || 'Unknown error',
-    stack: error.stack,
-    level: ErrorLevel.ERROR,
-    source: ErrorSource.VUE,
-    timestamp: Date.now(),
-    url: typeof window !== 'undefined' ? window.location.href : undefined,
-    componentInfo: {
-      name: el.tagName.toLowerCase(),
-    },
+function createErrorInfo(catcher: ErrorCatcher, error: Error, el: HTMLElement): ErrorInfo {
+  const errorInfo = catcher.createErrorInfo(error, ErrorSource.VUE)
+  errorInfo.componentInfo = {
+    name: el.tagName.toLowerCase(),
   }
+  return errorInfo
 }
 
 /**
@@ -251,13 +238,16 @@ function handleElementError(el: HTMLElement, error: Error): void {
   const state = elementStates.get(el)
   if (!state) return
 
-  const errorInfo = createErrorInfo(error, el)
+  const errorInfo = createErrorInfo(state.catcher, error, el)
   state.hasError = true
   state.errorInfo = errorInfo
 
   // 触发回调
   state.options.onError?.(errorInfo)
 
+  // 交给捕获器处理管道
+  state.catcher.captureEvent(errorInfo)
+
   // 显示 Toast
   if (state.options.showToast !== false) {
     addErrorToast(errorInfo)
@@ -292,6 +282,8 @@ export const vErrorBoundary: Directive<HTMLElement, string | ErrorBoundaryDirect
       retryCount: 0,
       options,
       errorContainer: null,
+      // 优先使用插件提供的捕获器
+      catcher: binding.instance?.$errorHandler?.catcher ?? getStandaloneCatcher(),
     })
 
     // 监听元素内的错误
@@ -4,14 +4,15 @@
  * 支持全局 Toast 提示和 Tracker 集成
  */
 
+import type { ErrorCatalog, ErrorCatcherOptions, ErrorInfo, ErrorReporterOptions } from '@ldesign/error-core'
 import type { App, Plugin } from 'vue'
-import type { ErrorInfo, ErrorCatcherOptions, ErrorReporterOptions } from '@ldesign/error-core'
-import { ErrorCatcher, ErrorReporter, ErrorLevel, ErrorSource } from '@ldesign/error-core'
+import { DEFAULT_REPORTER_OPTIONS, ErrorCatcher, ErrorLevel, ErrorReporter, ErrorSource, normalizeError } from '@ldesign/error-core'
+import { addErrorToast, injectToastStyles, setToastManagerOptions, type ToastManagerOptions } from '../components/ErrorToast'
+import { ERROR_CATALOG_KEY } from '../composables/useErrorCatalog'
 import { ERROR_HANDLER_KEY, type ErrorHandlerInstance } from '../composables/useErrorHandler'
-import { addErrorToast, injectToastStyles, type ToastManagerOptions } from '../components/ErrorToast'
 import { GLOBAL_ERROR_TOAST_KEY, type GlobalErrorToastInstance } from '../composables/useGlobalErrorToast'
-import { TrackerIntegration, type TrackerIntegrationOptions } from '../plugins/tracker-integration'
 import { vErrorBoundary } from '../directives/vErrorBoundary'
+import { TrackerIntegration, type TrackerIntegrationOptions } from '../plugins/tracker-integration'
 
 /** 全局 Toast 配置 */
 export interface GlobalToastOptions extends ToastManagerOptions {
@@ -29,6 +30,12 @@ export interface ErrorPluginOptions {
   appName?: string
   /** 是否启用 */
   enabled?: boolean
+  /** 应用版本（发布标识），如 `my-app@1.2.3` */
+  release?: string
+  /** 运行环境，如 `production`、`staging` */
+  environment?: string
+  /** 构建标识 */
+  dist?: string
   /** 错误捕获器配置 */
   catcher?: ErrorCatcherOptions
   /** 错误上报器配置 */
@@ -37,6 +44,8 @@ export interface ErrorPluginOptions {
   toast?: GlobalToastOptions
   /** Tracker 集成配置 */
   trackerIntegration?: TrackerIntegration | TrackerIntegrationOptions
+  /** 错误码目录，供 ErrorBoundary、ErrorFallback 与 Toast 查询文案 @default defaultErrorCatalog */
+  catalog?: ErrorCatalog
   /** 是否注册 v-error-boundary 指令 @default true */
   registerDirective?: boolean
   /** Vue 错误处理回调 */
@@ -57,11 +66,15 @@ export function createErrorPlugin(options: ErrorPluginOptions = {}): Plugin {
   const {
     appName = 'LDesignApp',
     enabled = true,
+    release,
+    environment,
+    dist,
     catcher: catcherOptions = {},
     reporter: reporterOptions = {},
     toast: toastOptions = {},
     trackerIntegration: trackerIntegrationOption,
     registerDirective = true,
+    catalog,
     onVueError,
   } = options
 
@@ -93,44 +106,48 @@ export function createErrorPlugin(options: ErrorPluginOptions = {}): Plugin {
         injectToastStyles()
       }
 
+      // 提供错误码目录
+      if (catalog) {
+        app.provide(ERROR_CATALOG_KEY, catalog)
+        setToastManagerOptions({ catalog })
+      }
+
       // 创建上报器
-      const reporter = new ErrorReporter({
-        ...reporterOptions,
-        // 在上报前添加 tracker 信息
-        beforeSend: (errors) => {
-          if (trackerIntegration) {
-            const enrichedErrors = errors.map(err => trackerIntegration.enrichError(err))
-            return reporterOptions.beforeSend
-              ? reporterOptions.beforeSend(enrichedErrors)
-              : enrichedErrors
-          }
-          return reporterOptions.beforeSend
-            ? reporterOptions.beforeSend(errors)
-            : errors
-        },
-      })
+      const reporter = new ErrorReporter(reporterOptions)
 
       // 创建捕获器
       const catcher = new ErrorCatcher({
         ...catcherOptions,
+        release: catcherOptions.release ?? release,
+        environment: catcherOptions.environment ?? environment,
+        dist: catcherOptions.dist ?? dist,
+        // 不拦截上报请求本身，避免上报失败时循环捕获
+        networkIgnoreUrls: [
+          ...(catcherOptions.networkIgnoreUrls ?? []),
+          reporterOptions.endpoint ?? DEFAULT_REPORTER_OPTIONS.endpoint,
+          reporterOptions.sessionEndpoint ?? DEFAULT_REPORTER_OPTIONS.sessionEndpoint,
+        ],
         onError: (error) => {
-          // 如果启用了 tracker 集成，丰富错误信息
-          const enrichedError = trackerIntegration
-            ? trackerIntegration.enrichError(error)
-            : error
-
           // 上报错误
-          reporter.report(enrichedError)
+          reporter.report(error)
 
-          // 显示全局错误 Toast
-          if (toastConfig.enabled && toastConfig.showGlobalErrors) {
-            addErrorToast(enrichedError, toastConfig.defaultDuration)
+          // 显示全局错误 Toast（Vue 错误由 errorHandler 单独提示）
+          if (toastConfig.enabled && toastConfig.showGlobalErrors && error.source !== ErrorSource.VUE) {
+            addErrorToast(error, toastConfig.defaultDuration)
           }
 
-          catcherOptions.onError?.(enrichedError)
+          catcherOptions.onError?.(error)
         },
       })
 
+      // Tracker 作为集成在事件处理阶段补充用户操作记录
+      if (trackerIntegration) {
+        catcher.addIntegration(trackerIntegration)
+      }
+
+      // 会话更新交给上报器，用于统计无崩溃会话率
+      catcher.on('session', session => reporter.sendSession(session))
+
       // 安装全局错误捕获
       catcher.install()
 
@@ -145,34 +162,17 @@ export function createErrorPlugin(options: ErrorPluginOptions = {}): Plugin {
           || instance?.$options?.__name
           || '未知组件'
 
-        let errorInfo: ErrorInfo = {
-          id: generateId(),
-          name: (error as Error).name || 'Error',
-          message: (error as Error).message || String(error),
-          stack: (error as Error).stack,
-          level: ErrorLevel.ERROR,
-          source: ErrorSource.VUE,
-          timestamp: Date.now(),
-          url: typeof window !== 'undefined' ? window.location.href : undefined,
-          userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
-          componentInfo: {
-            name: componentName,
-            tree: [componentName],
-          },
-          extra: {
-            appName,
-            vueInfo: info,
-          },
-          breadcrumbs: catcher.getBreadcrumbs(),
-        }
-
-        // 如果启用了 tracker 集成，丰富错误信息
-        if (trackerIntegration) {
-          errorInfo = trackerIntegration.enrichError(errorInfo)
+        const errorInfo = catcher.createErrorInfo(normalizeError(error), ErrorSource.VUE, {
+          appName,
+          vueInfo: info,
+        })
+        errorInfo.componentInfo = {
+          name: componentName,
+          tree: [componentName],
         }
 
-        // 上报错误
-        reporter.report(errorInfo)
+        // 经捕获器处理管道后上报（Tracker 集成在处理阶段补充用户操作记录）
+        catcher.captureEvent(errorInfo)
 
         // 显示 Vue 错误 Toast
         if (toastConfig.enabled && toastConfig.showVueErrors) {
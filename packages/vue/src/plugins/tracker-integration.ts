@@ -19,10 +19,13 @@
  * app.use(createErrorPlugin({
  *   trackerIntegration: integration,
  * }))
+ *
+ * // 或直接作为 ErrorCatcher 集成使用
+ * catcher.addIntegration(integration)
  * ```
  */
 
-import type { ErrorInfo, Breadcrumb } from '@ldesign/error-core'
+import type { ErrorInfo, Breadcrumb, Integration } from '@ldesign/error-core'
 import { ErrorLevel } from '@ldesign/error-core'
 
 // Breadcrumb 类型中支持的 type 值
@@ -192,8 +195,13 @@ function defaultTransformEvent(
 
 /**
  * Tracker 集成
+ *
+ * @remarks
+ * 实现 ErrorCatcher 的 Integration 接口，在事件处理阶段补充用户操作记录
  */
-export class TrackerIntegration {
+export class TrackerIntegration implements Integration {
+  readonly name = 'Tracker'
+
   private options: Required<Omit<TrackerIntegrationOptions, 'tracker' | 'getTracker' | 'transformEvent'>> & {
     tracker?: TrackerLike
     getTracker?: () => TrackerLike | undefined
@@ -214,6 +222,18 @@ export class TrackerIntegration {
     }
   }
 
+  /**
+   * 安装集成（Tracker 事件在处理阶段按需读取，无需挂载监听）
+   */
+  setup(): void {}
+
+  /**
+   * 处理事件：补充用户操作记录
+   */
+  processEvent(event: ErrorInfo): ErrorInfo {
+    return this.enrichError(event)
+  }
+
   /**
    * 获取 Tracker 实例
    */